@@ -0,0 +1,107 @@
+/**
+ * Full-scan benchmark on a generated project.
+ *
+ * Usage: npx ts-node benchmarks/fullScan.ts [files=500] [symbolsPerFile=100] [--keep]
+ *
+ * Generates a TypeScript project with files * symbolsPerFile symbols (50k by default)
+ * in a temporary directory, runs a full refresh_registry there and reports where the
+ * time went, followed by timings for exact lookups and for re-registering one file.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const args = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+const fileCount = parseInt(args[0] || '500', 10);
+const symbolsPerFile = parseInt(args[1] || '100', 10);
+const keep = process.argv.includes('--keep');
+
+/**
+ * Write one source file: a class with half of the symbols as methods, and plain functions for the rest
+ */
+function generateFile(dir: string, index: number): void {
+  const methodCount = Math.floor(symbolsPerFile / 2) - 1;
+  const functionCount = symbolsPerFile - methodCount - 1;
+  const lines: string[] = [];
+
+  lines.push(`/** Service number ${index} */`);
+  lines.push(`export class Service${index} {`);
+  for (let m = 0; m < methodCount; m++) {
+    lines.push(`  /** Method ${m} of service ${index} */`);
+    lines.push(`  handle${m}(input: string): number { return input.length + ${m}; }`);
+  }
+  lines.push('}');
+
+  for (let f = 0; f < functionCount; f++) {
+    lines.push(`/** Helper ${f} of module ${index} */`);
+    lines.push(`export function helper${index}_${f}(a: number, b: number): number { return a + b + ${f}; }`);
+  }
+
+  const subDir = path.join(dir, 'src', `module${Math.floor(index / 50)}`);
+  fs.mkdirSync(subDir, { recursive: true });
+  fs.writeFileSync(path.join(subDir, `service${index}.ts`), lines.join('\n') + '\n');
+}
+
+function time<T>(fn: () => T): [T, number] {
+  const startedAt = process.hrtime.bigint();
+  const result = fn();
+  return [result, Number(process.hrtime.bigint() - startedAt) / 1e6];
+}
+
+async function main(): Promise<void> {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-bench-'));
+  for (let i = 0; i < fileCount; i++) {
+    generateFile(projectDir, i);
+  }
+  console.log(`Generated ${fileCount} files with ${fileCount * symbolsPerFile} symbols in ${projectDir}`);
+
+  const { refreshRegistry } = await import('../src/tools/refreshRegistry');
+  const { workspaces } = await import('../src/registry/workspace');
+  const { registry: symbolRegistry } = workspaces.add(projectDir, 'option');
+
+  // Parser timings include registering the symbols, so measure that part separately
+  let registerMs = 0;
+  const registerFileSymbols = symbolRegistry.registerFileSymbols.bind(symbolRegistry);
+  symbolRegistry.registerFileSymbols = fileDoc => {
+    registerMs += time(() => registerFileSymbols(fileDoc))[1];
+  };
+
+  const startedAt = Date.now();
+  const result = await refreshRegistry({ fullScan: true });
+  const totalMs = Date.now() - startedAt;
+  const parseMs = Object.values(result.parserTimings || {}).reduce((sum, timing) => sum + timing.totalMs, 0) - registerMs;
+
+  console.log(`Full scan: ${result.filesProcessed} files, ${result.symbols} symbols in ${totalMs} ms`);
+  console.log(`  parsing:                                ${parseMs.toFixed(0)} ms`);
+  console.log(`  registering symbols (with persistence): ${registerMs.toFixed(0)} ms`);
+  console.log(`  discovery and other work:               ${(totalMs - parseMs - registerMs).toFixed(0)} ms`);
+
+  const lookups = 1000;
+  const [, exactMs] = time(() => {
+    for (let i = 0; i < lookups; i++) {
+      symbolRegistry.search({ query: `helper${i % fileCount}_0`, exactMatch: true });
+    }
+  });
+  console.log(`${lookups} exact-match searches: ${exactMs.toFixed(1)} ms`);
+
+  const [, parentMs] = time(() => {
+    for (let i = 0; i < lookups; i++) {
+      symbolRegistry.getSymbolsByParent(`Service${i % fileCount}`);
+    }
+  });
+  console.log(`${lookups} member lookups: ${parentMs.toFixed(1)} ms`);
+
+  const filePath = symbolRegistry.getTrackedFiles()[0];
+  const symbols = symbolRegistry.getFileSymbols(filePath);
+  const [, removeMs] = time(() => symbolRegistry.removeFileSymbols(filePath));
+  console.log(`Removing ${symbols.length} symbols of one file: ${removeMs.toFixed(1)} ms (including persistence)`);
+
+  if (!keep) {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
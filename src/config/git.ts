@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Output of a diff after a branch switch can be large
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Run git in a directory
+ * @param cwd Directory to run git in
+ * @param args Arguments
+ * @returns Standard output
+ * @throws Error with git's message if git fails or is not installed
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: MAX_GIT_OUTPUT_BYTES });
+    return stdout;
+  } catch (error) {
+    const { code, stderr } = error as NodeJS.ErrnoException & { stderr?: string };
+    if (code === 'ENOENT') {
+      throw new Error('git is not installed');
+    }
+    throw new Error(stderr?.trim() || (error as Error).message);
+  }
+}
+
+/**
+ * Find the top-level directory of the git repository containing a directory
+ * @param dir Directory inside the repository
+ * @returns Absolute path of the repository, or undefined if the directory is not in one
+ */
+export async function findGitRoot(dir: string): Promise<string | undefined> {
+  try {
+    return path.resolve((await git(dir, ['rev-parse', '--show-toplevel'])).trim());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a ref (branch, tag, commit, HEAD~3, ...) to a commit hash
+ * @param gitRoot Repository directory
+ * @param ref Ref to resolve
+ * @returns Full commit hash
+ * @throws Error if the ref does not name a commit
+ */
+export async function resolveCommit(gitRoot: string, ref: string): Promise<string> {
+  // "--end-of-options" keeps refs starting with a dash from being read as options
+  return (await git(gitRoot, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`]).catch(() => {
+    throw new Error(`Unknown git ref '${ref}'`);
+  })).trim();
+}
+
+/**
+ * Get the commit checked out in a repository
+ * @param gitRoot Repository directory
+ * @returns Commit hash, or undefined if the repository has no commits yet
+ */
+export async function getHeadCommit(gitRoot: string): Promise<string | undefined> {
+  try {
+    return await resolveCommit(gitRoot, 'HEAD');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List the files that were added or changed since a commit: committed changes since the commit,
+ * staged and unstaged changes, and untracked files that are not ignored
+ * @param gitRoot Repository directory
+ * @param commit Commit to compare the working tree with
+ * @returns Absolute paths of the files (a renamed file is listed under its new path)
+ */
+export async function getChangedFilesSince(gitRoot: string, commit: string): Promise<string[]> {
+  // Without rename detection a rename is the deletion of the old path and the addition of the new one
+  const diff = await git(gitRoot, ['diff', '--name-only', '--no-renames', '--diff-filter=d', '-z', commit, '--']);
+  const untracked = await git(gitRoot, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+  return [...diff.split('\0'), ...untracked.split('\0')]
+    .filter(Boolean)
+    .map(file => path.join(gitRoot, file));
+}
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+/**
+ * Ignore files honored in every directory of the project, in the order they are applied.
+ * `.symbolignore` uses .gitignore syntax and comes last, so it can override `.gitignore`.
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.symbolignore'];
+
+/**
+ * The ignore rule that decided a path is ignored
+ */
+export interface IgnoreMatch {
+  source: string;         // Ignore file path relative to the project root (e.g. "src/.gitignore")
+  line: number;           // 1-based line number of the rule
+  pattern: string;        // The rule as written
+}
+
+/**
+ * A parsed ignore file together with the stat data it was parsed from
+ */
+interface LoadedIgnoreFile {
+  mtime: number | null;   // null when the file does not exist
+  checkedAt: number;      // When the file was last stat'ed
+  matcher?: Ignore;
+}
+
+// How long a stat result of an ignore file is trusted before checking it again
+const STAT_TTL_MS = 1000;
+
+/**
+ * Loads and caches ignore files, and decides whether paths are ignored by them.
+ * Follows git semantics: rules in deeper ignore files override shallower ones,
+ * negations re-include paths, and nothing inside an ignored directory can be re-included.
+ */
+export class IgnoreFileCache {
+  private cache = new Map<string, LoadedIgnoreFile>();
+
+  /**
+   * Find the ignore rule that excludes a path
+   * @param filePath Absolute path of the file or directory
+   * @param baseDir Project root; ignore files above it are not consulted
+   * @param isDirectory Whether the path is a directory
+   * @returns The deciding rule, or undefined if the path is not ignored
+   */
+  getIgnoreMatch(filePath: string, baseDir: string, isDirectory: boolean = false): IgnoreMatch | undefined {
+    const relativePath = toPosix(path.relative(baseDir, filePath));
+    if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+
+    // An ignored ancestor directory hides everything below it
+    const segments = relativePath.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const target = segments.slice(0, i).join('/');
+      const match = this.evaluate(target, i < segments.length || isDirectory, baseDir);
+      if (match) {
+        return match;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Decide a single path using the ignore files of all its ancestor directories
+   * @param target Path relative to the project root
+   * @param isDirectory Whether the path is a directory
+   * @param baseDir Project root
+   */
+  private evaluate(target: string, isDirectory: boolean, baseDir: string): IgnoreMatch | undefined {
+    const parentSegments = target.split('/').slice(0, -1);
+    let decision: IgnoreMatch | undefined;
+
+    for (let depth = 0; depth <= parentSegments.length; depth++) {
+      const dir = parentSegments.slice(0, depth).join('/');
+
+      for (const name of IGNORE_FILE_NAMES) {
+        const source = dir ? `${dir}/${name}` : name;
+        const matcher = this.load(path.join(baseDir, source));
+        if (!matcher) {
+          continue;
+        }
+
+        const pathInDir = (dir ? target.substring(dir.length + 1) : target) + (isDirectory ? '/' : '');
+        const result = matcher.test(pathInDir);
+        if (result.ignored && result.rule) {
+          decision = {
+            source,
+            line: parseInt(result.rule.mark || '0', 10),
+            pattern: result.rule.pattern
+          };
+        } else if (result.unignored) {
+          decision = undefined;
+        }
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Get the parsed rules of an ignore file, re-reading it when it changed
+   * @param ignoreFilePath Absolute path of the ignore file
+   * @returns The matcher, or undefined if the file does not exist
+   */
+  private load(ignoreFilePath: string): Ignore | undefined {
+    const now = Date.now();
+    const cached = this.cache.get(ignoreFilePath);
+    if (cached && now - cached.checkedAt < STAT_TTL_MS) {
+      return cached.matcher;
+    }
+
+    let mtime: number | null = null;
+    try {
+      mtime = fs.statSync(ignoreFilePath).mtimeMs;
+    } catch {
+      mtime = null;
+    }
+
+    if (cached && cached.mtime === mtime) {
+      cached.checkedAt = now;
+      return cached.matcher;
+    }
+
+    const entry: LoadedIgnoreFile = { mtime, checkedAt: now };
+    if (mtime !== null) {
+      try {
+        entry.matcher = parseIgnoreFile(fs.readFileSync(ignoreFilePath, 'utf8'));
+      } catch (error) {
+        console.error(`Error reading ignore file ${ignoreFilePath}:`, (error as Error).message);
+      }
+    }
+
+    this.cache.set(ignoreFilePath, entry);
+    return entry.matcher;
+  }
+}
+
+/**
+ * Parse ignore file contents, remembering the line number of every rule
+ * @param content File contents
+ */
+function parseIgnoreFile(content: string): Ignore {
+  const matcher = ignore();
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() !== '' && !line.startsWith('#')) {
+      matcher.add({ pattern: line, mark: String(index + 1) });
+    }
+  });
+  return matcher;
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join('/');
+}
+
+// Create a singleton cache shared by all file enumeration
+export const ignoreFileCache = new IgnoreFileCache();
@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonSchema, ValidationError, validateAgainstSchema, formatValidationErrors } from '../schema';
+
+/**
+ * A set of scanning rules (used for both include and exclude)
+ */
+export interface ScanRules {
+  extensions: string[];   // File extensions without the leading dot (e.g. "ts")
+  directories: string[];  // Directory names (any depth) or paths relative to the project root
+  files: string[];        // File names or glob patterns (matched against the name and the relative path)
+}
+
+/**
+ * How the symbol registry is stored
+ */
+export interface RegistrySettings {
+  compress: boolean;      // Store the registry gzip-compressed (default: false)
+  backend: 'json' | 'sqlite'; // Storage backend of the registry (default: json)
+  location: 'project' | 'cache'; // Keep the registry in the project root or in the user's cache directory (default: project)
+}
+
+/**
+ * How files are parsed
+ */
+export interface ParsingSettings {
+  workers: number;        // Number of worker threads parsing files; 0 parses on the main thread (default: CPU cores - 1, 1 to 4)
+  maxFileSize: number;    // Files larger than this many bytes are skipped; 0 disables the limit (default: 1 MiB)
+  timeoutMs: number;      // Parses taking longer are stopped (in workers only); 0 disables the limit (default: 30000)
+  skipGenerated: boolean; // Skip minified and generated files (default: true)
+  plugins: string[];      // Parser plugins: paths relative to the project root or installed package names (default: none)
+}
+
+/**
+ * Contents of mcpconfig.json
+ */
+export interface MCPConfig {
+  include: ScanRules;
+  exclude: ScanRules;
+  useIgnoreFiles: boolean;  // Honor .gitignore and .symbolignore files (default: true)
+  registry: RegistrySettings;
+  parsing: ParsingSettings;
+}
+
+/**
+ * Name of the configuration file in the project root
+ */
+export const CONFIG_FILE_NAME = 'mcpconfig.json';
+
+// Every worker loads its own copy of the parsers and the TypeScript compiler, so the default pool stays small
+const MAX_DEFAULT_WORKERS = 4;
+
+/**
+ * Settings used when no configuration file exists
+ */
+export const DEFAULT_CONFIG: MCPConfig = {
+  include: {
+    extensions: ['ts', 'tsx', 'js', 'jsx', 'py'],
+    directories: [],
+    files: []
+  },
+  exclude: {
+    extensions: [],
+    directories: ['node_modules', 'dist', '.git'],
+    files: []
+  },
+  useIgnoreFiles: true,
+  registry: {
+    compress: false,
+    backend: 'json',
+    location: 'project'
+  },
+  parsing: {
+    workers: Math.min(MAX_DEFAULT_WORKERS, Math.max(1, os.availableParallelism() - 1)),
+    maxFileSize: 1024 * 1024,
+    timeoutMs: 30000,
+    skipGenerated: true,
+    plugins: []
+  }
+};
+
+// Schema for one set of scanning rules
+const scanRulesSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    extensions: { type: 'array', items: { type: 'string', minLength: 1 } },
+    directories: { type: 'array', items: { type: 'string', minLength: 1 } },
+    files: { type: 'array', items: { type: 'string', minLength: 1 } }
+  },
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for mcpconfig.json
+ */
+export const mcpConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    include: scanRulesSchema,
+    exclude: scanRulesSchema,
+    useIgnoreFiles: { type: 'boolean' },
+    registry: {
+      type: 'object',
+      properties: {
+        compress: { type: 'boolean' },
+        backend: { type: 'string', enum: ['json', 'sqlite'] },
+        location: { type: 'string', enum: ['project', 'cache'] }
+      },
+      additionalProperties: false
+    },
+    parsing: {
+      type: 'object',
+      properties: {
+        workers: { type: 'integer', minimum: 0 },
+        maxFileSize: { type: 'integer', minimum: 0 },
+        timeoutMs: { type: 'integer', minimum: 0 },
+        skipGenerated: { type: 'boolean' },
+        plugins: { type: 'array', items: { type: 'string', minLength: 1 } }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+/**
+ * Loads mcpconfig.json from the project root and reloads it when it changes
+ */
+export class ConfigManager {
+  private config: MCPConfig = DEFAULT_CONFIG;
+  private errors: ValidationError[] = [];
+  // Modification time of the loaded file, null when no file was found
+  private loadedMtime: number | null | undefined;
+
+  constructor(private baseDir: string) {}
+
+  /**
+   * Get the path of the configuration file
+   */
+  getConfigPath(): string {
+    return path.join(this.baseDir, CONFIG_FILE_NAME);
+  }
+
+  /**
+   * Get the project root the configuration applies to
+   */
+  getBaseDir(): string {
+    return this.baseDir;
+  }
+
+  /**
+   * Get the current configuration, reloading the file if it was created, changed or deleted
+   * @returns The effective configuration
+   */
+  getConfig(): MCPConfig {
+    const configPath = this.getConfigPath();
+    let mtime: number | null = null;
+
+    try {
+      mtime = fs.statSync(configPath).mtimeMs;
+    } catch {
+      mtime = null;
+    }
+
+    if (mtime !== this.loadedMtime) {
+      this.load(mtime);
+    }
+
+    return this.config;
+  }
+
+  /**
+   * Get the problems found in the configuration file when it was last loaded
+   * @returns Validation errors (empty if the file is valid or absent)
+   */
+  getErrors(): ValidationError[] {
+    this.getConfig();
+    return this.errors;
+  }
+
+  /**
+   * Load (or reset) the configuration
+   * @param mtime Modification time of the file, or null if it does not exist
+   */
+  private load(mtime: number | null): void {
+    this.loadedMtime = mtime;
+    this.errors = [];
+
+    if (mtime === null) {
+      this.config = DEFAULT_CONFIG;
+      return;
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.getConfigPath(), 'utf8'));
+    } catch (error) {
+      this.errors = [{ field: '', message: `could not be read: ${(error as Error).message}` }];
+      this.config = DEFAULT_CONFIG;
+      console.error(`Error loading ${CONFIG_FILE_NAME}, using default settings:`, (error as Error).message);
+      return;
+    }
+
+    this.errors = validateAgainstSchema(raw, mcpConfigSchema);
+    if (this.errors.length > 0) {
+      console.error(`Invalid ${CONFIG_FILE_NAME}: ${formatValidationErrors(this.errors)}`);
+    }
+
+    // Unknown keys are only reported; values of the wrong type invalidate the whole file
+    const onlyUnknownKeys = this.errors.every(error => error.message === 'is not a recognized property');
+    this.config = onlyUnknownKeys ? mergeWithDefaults(raw) : DEFAULT_CONFIG;
+  }
+}
+
+/**
+ * Fill in missing sections of a configuration with the defaults
+ * @param raw Parsed configuration file
+ */
+function mergeWithDefaults(raw: {
+  include?: Partial<ScanRules>;
+  exclude?: Partial<ScanRules>;
+  useIgnoreFiles?: boolean;
+  registry?: Partial<RegistrySettings>;
+  parsing?: Partial<ParsingSettings>;
+}): MCPConfig {
+  const merge = (rules: Partial<ScanRules> | undefined, defaults: ScanRules): ScanRules => ({
+    extensions: rules?.extensions ?? defaults.extensions,
+    directories: rules?.directories ?? defaults.directories,
+    files: rules?.files ?? defaults.files
+  });
+
+  return {
+    include: merge(raw.include, DEFAULT_CONFIG.include),
+    exclude: merge(raw.exclude, DEFAULT_CONFIG.exclude),
+    useIgnoreFiles: raw.useIgnoreFiles ?? DEFAULT_CONFIG.useIgnoreFiles,
+    registry: {
+      compress: raw.registry?.compress ?? DEFAULT_CONFIG.registry.compress,
+      backend: raw.registry?.backend ?? DEFAULT_CONFIG.registry.backend,
+      location: raw.registry?.location ?? DEFAULT_CONFIG.registry.location
+    },
+    parsing: {
+      workers: raw.parsing?.workers ?? DEFAULT_CONFIG.parsing.workers,
+      maxFileSize: raw.parsing?.maxFileSize ?? DEFAULT_CONFIG.parsing.maxFileSize,
+      timeoutMs: raw.parsing?.timeoutMs ?? DEFAULT_CONFIG.parsing.timeoutMs,
+      skipGenerated: raw.parsing?.skipGenerated ?? DEFAULT_CONFIG.parsing.skipGenerated,
+      plugins: raw.parsing?.plugins ?? DEFAULT_CONFIG.parsing.plugins
+    }
+  };
+}
+
@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { JsonSchema } from '../schema';
+
+/**
+ * Files that declare packages or the workspaces of a monorepo
+ */
+export const PACKAGE_MANIFEST_NAMES = new Set(['package.json', 'pyproject.toml', 'pnpm-workspace.yaml']);
+
+/**
+ * A package of the project
+ */
+export interface PackageInfo {
+  name: string;
+  version?: string;
+  directory: string;      // Absolute path of the directory holding the manifest
+  manifest: string;       // File name of the manifest (package.json or pyproject.toml)
+}
+
+/**
+ * A package's share of a list of results
+ */
+export interface PackageGroup {
+  package?: string;       // Package name (omitted for results outside any package)
+  version?: string;
+  count: number;          // Number of results in the package
+}
+
+/**
+ * JSON Schema describing the package groups returned by the tools
+ */
+export const packageGroupsSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      package: { type: 'string' },
+      version: { type: 'string' },
+      count: { type: 'integer' }
+    },
+    required: ['count']
+  }
+};
+
+/**
+ * Name and version read from a manifest
+ */
+interface ManifestPackage {
+  name: string;
+  version?: string;
+}
+
+/**
+ * A parsed manifest together with the stat data it was parsed from
+ */
+interface LoadedManifest<T> {
+  mtime: number | null;   // null when the file does not exist
+  checkedAt: number;      // When the file was last stat'ed
+  value?: T;
+}
+
+// How long a stat result of a manifest is trusted before checking it again
+const STAT_TTL_MS = 1000;
+
+/**
+ * Finds the package a file belongs to.
+ *
+ * A directory is a package when it holds a pyproject.toml naming a project, or a
+ * package.json with a name that is either the project root's or matched by the
+ * root's npm/yarn `workspaces` or pnpm-workspace.yaml patterns. Other package.json
+ * files (fixtures, examples) do not start a package. Files belong to the package of
+ * their nearest such ancestor directory.
+ */
+export class PackageResolver {
+  private cache = new Map<string, LoadedManifest<unknown>>();
+
+  /**
+   * @param root Absolute path of the project root; manifests above it are not consulted
+   */
+  constructor(private root: string) {}
+
+  /**
+   * Find the package a file belongs to
+   * @param filePath Absolute file path
+   * @returns The package, or undefined if the file is not inside one
+   */
+  resolve(filePath: string): PackageInfo | undefined {
+    const patterns = this.getWorkspacePatterns();
+    let dir = path.dirname(path.resolve(filePath));
+
+    for (;;) {
+      const relativeDir = toPosix(path.relative(this.root, dir));
+      if (relativeDir.startsWith('..') || path.isAbsolute(relativeDir)) {
+        return undefined;
+      }
+
+      if (relativeDir === '' || matchesWorkspacePatterns(relativeDir, patterns)) {
+        const npmPackage = this.load(path.join(dir, 'package.json'), parsePackageJson);
+        if (npmPackage?.name) {
+          return { name: npmPackage.name, version: npmPackage.version, directory: dir, manifest: 'package.json' };
+        }
+      }
+
+      const pythonPackage = this.load(path.join(dir, 'pyproject.toml'), parsePyproject);
+      if (pythonPackage) {
+        return { ...pythonPackage, directory: dir, manifest: 'pyproject.toml' };
+      }
+
+      if (relativeDir === '') {
+        return undefined;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  /**
+   * Forget the loaded manifests, so the next lookups read them again (e.g. after the watcher saw one change)
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get the workspace patterns declared at the project root
+   * (package.json `workspaces`, as an array or `{ packages }`, and pnpm-workspace.yaml `packages`)
+   */
+  private getWorkspacePatterns(): string[] {
+    const workspaces = this.load(path.join(this.root, 'package.json'), parsePackageJson)?.workspaces;
+    const npmPatterns: unknown = Array.isArray(workspaces) ? workspaces
+      : workspaces && typeof workspaces === 'object' ? (workspaces as { packages?: unknown }).packages
+      : undefined;
+    const pnpmPatterns = this.load(path.join(this.root, 'pnpm-workspace.yaml'), parsePnpmWorkspace);
+
+    return [...(Array.isArray(npmPatterns) ? npmPatterns : []), ...(pnpmPatterns || [])]
+      .filter((pattern): pattern is string => typeof pattern === 'string');
+  }
+
+  /**
+   * Get the parsed contents of a manifest, re-reading it when it changed
+   * @param manifestPath Absolute path of the manifest
+   * @param parse Parses the file contents
+   * @returns The parsed contents, or undefined if the file does not exist or cannot be parsed
+   */
+  private load<T>(manifestPath: string, parse: (content: string) => T | undefined): T | undefined {
+    const now = Date.now();
+    const cached = this.cache.get(manifestPath) as LoadedManifest<T> | undefined;
+    if (cached && now - cached.checkedAt < STAT_TTL_MS) {
+      return cached.value;
+    }
+
+    const mtime = fs.statSync(manifestPath, { throwIfNoEntry: false })?.mtimeMs ?? null;
+    if (cached && cached.mtime === mtime) {
+      cached.checkedAt = now;
+      return cached.value;
+    }
+
+    const entry: LoadedManifest<T> = { mtime, checkedAt: now };
+    if (mtime !== null) {
+      try {
+        entry.value = parse(fs.readFileSync(manifestPath, 'utf8'));
+      } catch (error) {
+        console.error(`Error reading package manifest ${manifestPath}:`, (error as Error).message);
+      }
+    }
+
+    this.cache.set(manifestPath, entry);
+    return entry.value;
+  }
+}
+
+/**
+ * Get a key identifying a package and its version, as recorded for tracked files
+ * @param info Package, or undefined for files outside any package
+ * @returns `name@version`, or '' outside any package
+ */
+export function getPackageKey(info: PackageInfo | undefined): string {
+  return info ? `${info.name}@${info.version ?? ''}` : '';
+}
+
+/**
+ * Order results so those of the same package are adjacent, keeping the order in which
+ * packages first appear (so the package of the best result comes first)
+ * @param items Results tagged with their package
+ * @returns The reordered results and one group per package
+ */
+export function groupByPackage<T extends { package?: string; packageVersion?: string }>(
+  items: T[]
+): { items: T[]; groups: PackageGroup[] } {
+  const groups = new Map<string, { group: PackageGroup; items: T[] }>();
+
+  for (const item of items) {
+    const key = item.package === undefined ? '' : `${item.package}@${item.packageVersion ?? ''}`;
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { group: { package: item.package, version: item.packageVersion, count: 0 }, items: [] };
+      groups.set(key, entry);
+    }
+    entry.group.count++;
+    entry.items.push(item);
+  }
+
+  const entries = Array.from(groups.values());
+  return {
+    items: entries.flatMap(entry => entry.items),
+    groups: entries.map(entry => entry.group)
+  };
+}
+
+/**
+ * Check whether a directory is one of the packages declared by workspace patterns
+ * @param relativeDir Directory relative to the project root, with forward slashes
+ * @param patterns Workspace patterns; patterns starting with ! exclude directories
+ */
+function matchesWorkspacePatterns(relativeDir: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (minimatch(relativeDir, normalizePattern(pattern.substring(1)))) {
+        return false;
+      }
+    } else if (minimatch(relativeDir, normalizePattern(pattern))) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Strip the leading ./ and trailing / that workspace patterns may carry
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Parse a package.json
+ * @param content File contents
+ */
+function parsePackageJson(content: string): (Partial<ManifestPackage> & { workspaces?: unknown }) | undefined {
+  const json = JSON.parse(content);
+  if (!json || typeof json !== 'object') {
+    return undefined;
+  }
+
+  return {
+    name: typeof json.name === 'string' ? json.name : undefined,
+    version: typeof json.version === 'string' ? json.version : undefined,
+    workspaces: json.workspaces
+  };
+}
+
+/**
+ * Read the project name and version from a pyproject.toml ([project], or [tool.poetry] for Poetry).
+ * Only the simple `key = "value"` form these fields are written in is understood.
+ * @param content File contents
+ */
+function parsePyproject(content: string): ManifestPackage | undefined {
+  const tables: Record<string, Record<string, string>> = {};
+  let table = '';
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = /^\[([^[\]]+)\]$/.exec(line);
+    if (header) {
+      table = header[1].trim();
+      continue;
+    }
+
+    const pair = /^(name|version)\s*=\s*(?:"([^"]*)"|'([^']*)')/.exec(line);
+    if (pair && (table === 'project' || table === 'tool.poetry')) {
+      tables[table] = { ...tables[table], [pair[1]]: pair[2] ?? pair[3] };
+    }
+  }
+
+  const fields = tables['project']?.name ? tables['project'] : tables['tool.poetry'];
+  return fields?.name ? { name: fields.name, version: fields.version } : undefined;
+}
+
+/**
+ * Read the `packages` list from a pnpm-workspace.yaml.
+ * Only the block list form (`packages:` followed by `- pattern` lines) is understood.
+ * @param content File contents
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages) {
+      const item = /^\s*-\s*(?:"([^"]*)"|'([^']*)'|([^#\s]+))/.exec(line);
+      if (item) {
+        patterns.push(item[1] ?? item[2] ?? item[3]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns;
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join('/');
+}
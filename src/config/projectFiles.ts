@@ -0,0 +1,171 @@
+import * as path from 'path';
+import { glob, Path } from 'glob';
+import { minimatch } from 'minimatch';
+import { ConfigManager, MCPConfig } from './mcpConfig';
+import { ignoreFileCache } from './ignoreFiles';
+
+/**
+ * Options for enumerating project files
+ */
+export interface ListProjectFilesOptions {
+  baseDir?: string;       // Directory to search (default: the project root)
+  patterns?: string[];    // Glob patterns to search (default: one per included extension)
+  signal?: AbortSignal;   // Aborts the directory walk
+}
+
+/**
+ * Explain why a file is not part of the project according to mcpconfig.json and the ignore files
+ * @param filePath Path to the file (relative paths are relative to the project root)
+ * @param config Configuration to apply
+ * @param baseDir Project root the configuration is relative to
+ * @returns The rule that excludes the file, or undefined if the file is included
+ */
+export function getExclusionReason(filePath: string, config: MCPConfig, baseDir: string): string | undefined {
+  const relativePath = toPosix(path.relative(baseDir, path.resolve(baseDir, filePath)));
+  const fileName = path.posix.basename(relativePath);
+  const directories = path.posix.dirname(relativePath).split('/').filter(d => d !== '.');
+  const extension = path.extname(fileName).replace(/^\./, '').toLowerCase();
+
+  const excludedDirectory = config.exclude.directories.find(dir => isInDirectory(relativePath, directories, dir));
+  if (excludedDirectory) {
+    return `exclude.directories: "${excludedDirectory}"`;
+  }
+
+  const excludedFile = config.exclude.files.find(pattern => matchesFilePattern(relativePath, fileName, pattern));
+  if (excludedFile) {
+    return `exclude.files: "${excludedFile}"`;
+  }
+
+  if (config.exclude.extensions.some(ext => normalizeExtension(ext) === extension)) {
+    return `exclude.extensions: "${extension}"`;
+  }
+
+  // Explicitly included files bypass the ignore files and the include directory and extension filters
+  if (config.include.files.some(pattern => matchesFilePattern(relativePath, fileName, pattern))) {
+    return undefined;
+  }
+
+  if (config.useIgnoreFiles) {
+    const match = ignoreFileCache.getIgnoreMatch(path.resolve(baseDir, filePath), baseDir);
+    if (match) {
+      return `${match.source}:${match.line}: "${match.pattern}"`;
+    }
+  }
+
+  if (config.include.extensions.length > 0 && !config.include.extensions.some(ext => normalizeExtension(ext) === extension)) {
+    return `include.extensions: "${extension}" is not listed`;
+  }
+
+  if (config.include.directories.length > 0 && !config.include.directories.some(dir => isUnderDirectory(relativePath, dir))) {
+    return 'include.directories: not inside an included directory';
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a file is part of the project according to mcpconfig.json and the ignore files
+ * @param filePath Path to the file
+ * @param project Configuration of the project
+ */
+export function isProjectFile(filePath: string, project: ConfigManager): boolean {
+  return getExclusionReason(filePath, project.getConfig(), project.getBaseDir()) === undefined;
+}
+
+/**
+ * Check whether nothing below a directory can be part of the project
+ * @param dirPath Absolute directory path
+ * @param config Configuration to apply
+ * @param baseDir Project root the configuration is relative to
+ */
+export function isExcludedDirectory(dirPath: string, config: MCPConfig, baseDir: string): boolean {
+  const relativePath = toPosix(path.relative(baseDir, dirPath));
+  if (relativePath === '' || relativePath.startsWith('..')) {
+    return false;
+  }
+
+  const directories = relativePath.split('/');
+  if (config.exclude.directories.some(dir => isInDirectory(`${relativePath}/`, directories, dir))) {
+    return true;
+  }
+
+  // include.files may re-include files inside ignored directories, so only prune when there are none
+  return config.useIgnoreFiles &&
+    config.include.files.length === 0 &&
+    ignoreFileCache.getIgnoreMatch(dirPath, baseDir, true) !== undefined;
+}
+
+/**
+ * Enumerate the project files, honoring mcpconfig.json and the ignore files
+ * @param project Configuration of the project
+ * @param options Directory and patterns to search and an optional abort signal
+ * @returns Sorted absolute paths of the included files
+ */
+export async function listProjectFiles(project: ConfigManager, options: ListProjectFilesOptions = {}): Promise<string[]> {
+  const config = project.getConfig();
+  const patterns = options.patterns || defaultPatterns(config);
+
+  const projectRoot = project.getBaseDir();
+  const baseDir = options.baseDir || projectRoot;
+
+  // Skip excluded directories during the walk instead of filtering their contents afterwards
+  const ignore = {
+    ignored: () => false,
+    childrenIgnored: (dir: Path) => isExcludedDirectory(dir.fullpath(), config, projectRoot)
+  };
+
+  // One walk of the tree for all patterns; files matching several are listed once
+  const found = await glob(patterns, { cwd: baseDir, absolute: true, nodir: true, ignore, signal: options.signal });
+
+  return found
+    .filter(file => getExclusionReason(file, config, projectRoot) === undefined)
+    .sort();
+}
+
+/**
+ * Build the glob pattern matching every included extension, as one brace list so the tree is walked once
+ */
+function defaultPatterns(config: MCPConfig): string[] {
+  const extensions = Array.from(new Set(config.include.extensions.map(normalizeExtension)));
+  if (extensions.length === 0) {
+    return ['**/*'];
+  }
+  // A brace list of one entry is not expanded
+  return [extensions.length === 1 ? `**/*.${extensions[0]}` : `**/*.{${extensions.join(',')}}`];
+}
+
+/**
+ * Check whether a path lies in a directory given by name (any depth) or by relative path
+ */
+function isInDirectory(relativePath: string, directories: string[], dir: string): boolean {
+  const trimmed = trimSlashes(dir);
+  return trimmed.includes('/') ? isUnderDirectory(relativePath, trimmed) : directories.includes(trimmed);
+}
+
+/**
+ * Check whether a path lies below a directory relative to the project root
+ */
+function isUnderDirectory(relativePath: string, dir: string): boolean {
+  const trimmed = trimSlashes(dir);
+  return trimmed === '' || trimmed === '.' || relativePath.startsWith(`${trimmed}/`);
+}
+
+/**
+ * Match a file against a name or glob pattern; patterns without a slash match the file name only
+ */
+function matchesFilePattern(relativePath: string, fileName: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? relativePath : fileName;
+  return minimatch(target, pattern, { dot: true });
+}
+
+function normalizeExtension(ext: string): string {
+  return ext.replace(/^\./, '').toLowerCase();
+}
+
+function trimSlashes(value: string): string {
+  return toPosix(value).replace(/^\.?\/+|\/+$/g, '');
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join('/');
+}
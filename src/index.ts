@@ -1,197 +1,172 @@
 #!/usr/bin/env node
 import * as readline from 'readline';
+import { MCPServer } from './server/mcpServer';
+import { RequestDispatcher } from './server/dispatcher';
+import { HttpTransport } from './server/httpTransport';
 import * as path from 'path';
-import { getDocForFile, GetDocForFileInput } from './tools/getDocForFile';
-import { searchProjectSymbols, SearchProjectSymbolsInput } from './tools/searchProjectSymbols';
-import { autocompleteSymbol, AutocompleteSymbolInput } from './tools/autocompleteSymbol';
-import { getDocForSymbol, GetDocForSymbolInput } from './tools/getDocForSymbol';
-import { findUsages, FindUsagesInput } from './tools/findUsages';
-import { refreshRegistry, RefreshRegistryInput } from './tools/refreshRegistry';
-
-// Define interfaces for MCP protocol
-interface MCPRequest {
-  tool: string;
-  input: Record<string, any>;
-}
+import { WORKSPACE_ROOT_ENV, workspaces } from './registry/workspace';
 
-// Supported MCP tool names
-type MCPToolName = 'get_doc_for_file' | 'search_project_symbols' | 'autocomplete_symbol' | 'get_doc_for_symbol' | 'find_usages' | 'refresh_registry';
+// How long in-flight requests may keep running after stdin closes
+const SHUTDOWN_GRACE_MS = 2000;
 
-// Define interfaces for MCP responses
-interface ErrorResponse {
-  error: string;
-  details?: string;
+/**
+ * Get the value of a `--name value` or `--name=value` command-line option
+ * @param name Option name without the leading dashes
+ * @returns The option value, or undefined if the option was not given
+ */
+function getArgValue(name: string): string | undefined {
+  return getArgValues(name)[0];
 }
 
-type MCPResponse = Record<string, any> | ErrorResponse;
-
-// Create readline interface for stdin/stdout
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-  terminal: false
-});
-
-// Process a single MCP request
-async function processMCPRequest(requestJson: string): Promise<void> {
-  let request: MCPRequest;
-  
-  try {
-    request = JSON.parse(requestJson);
-  } catch (error) {
-    const response: ErrorResponse = {
-      error: 'Invalid JSON',
-      details: (error as Error).message
-    };
-    console.log(JSON.stringify(response));
-    return;
-  }
-
-  // Validate the request
-  if (!request.tool || typeof request.tool !== 'string') {
-    const response: ErrorResponse = {
-      error: 'Invalid request',
-      details: 'Missing or invalid "tool" field'
-    };
-    console.log(JSON.stringify(response));
-    return;
-  }
-
-  if (!request.input || typeof request.input !== 'object') {
-    const response: ErrorResponse = {
-      error: 'Invalid request',
-      details: 'Missing or invalid "input" field'
-    };
-    console.log(JSON.stringify(response));
-    return;
+/**
+ * Get every value of a command-line option that may be repeated
+ * @param name Option name without the leading dashes
+ * @returns The option values, in the order given
+ */
+function getArgValues(name: string): string[] {
+  const args = process.argv.slice(2);
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}` && i + 1 < args.length) {
+      values.push(args[++i]);
+    } else if (args[i].startsWith(`--${name}=`)) {
+      values.push(args[i].substring(name.length + 3));
+    }
   }
+  return values;
+}
 
-  // Route to the appropriate tool handler
-  let response: MCPResponse = {
-    error: 'Unknown error',
-    details: 'No tool handler was executed properly'
-  };
+/**
+ * Set the workspace roots from --root (which may be repeated) or MCP_DEVDOCS_ROOT
+ * (several roots separated by the platform's path delimiter).
+ * Without either, the roots are taken from the client's roots or default to the working directory.
+ */
+function configureWorkspaces(): void {
+  const optionRoots = getArgValues('root');
+  const environmentRoots = (process.env[WORKSPACE_ROOT_ENV] || '').split(path.delimiter).filter(root => root !== '');
 
   try {
-    switch (request.tool) {
-      case 'get_doc_for_file':
-        response = await handleGetDocForFile(request.input as GetDocForFileInput);
-        break;
-      case 'search_project_symbols':
-        response = await handleSearchProjectSymbols(request.input as SearchProjectSymbolsInput);
-        break;
-      case 'autocomplete_symbol':
-        response = await handleAutocompleteSymbol(request.input as AutocompleteSymbolInput);
-        break;
-      case 'get_doc_for_symbol':
-        response = await handleGetDocForSymbol(request.input as GetDocForSymbolInput);
-        break;
-      case 'find_usages':
-        response = await handleFindUsages(request.input as FindUsagesInput);
-        break;
-      case 'refresh_registry':
-        response = await handleRefreshRegistry(request.input as RefreshRegistryInput);
-        break;
-      default:
-        response = {
-          error: 'Unknown tool',
-          details: `Tool "${request.tool}" not supported`
-        };
+    if (optionRoots.length > 0) {
+      optionRoots.forEach(root => workspaces.add(root, 'option'));
+      workspaces.settle();
+    } else if (environmentRoots.length > 0) {
+      environmentRoots.forEach(root => workspaces.add(root, 'environment'));
+      workspaces.settle();
     }
   } catch (error) {
-    response = {
-      error: 'Tool execution failed',
-      details: (error as Error).message
-    };
+    console.error((error as Error).message);
+    process.exit(1);
   }
-
-  // Send response
-  console.log(JSON.stringify(response));
 }
 
-// Main processing loop
-rl.on('line', (line) => {
-  if (line.trim()) {
-    processMCPRequest(line);
-  }
-});
-
-// Handle errors and termination
-rl.on('close', () => {
-  process.exit(0);
-});
-
-process.on('SIGINT', () => {
-  process.exit(0);
-});
-
-// If nothing happens for a while, we can exit (optional)
-const idleTimeout = 300000; // 5 minutes
-const idleTimer = setTimeout(() => {
-  process.exit(0);
-}, idleTimeout);
-
-// Reset timer on activity
-rl.on('line', () => {
-  clearTimeout(idleTimer);
-});
-
 /**
- * Handles the get_doc_for_file tool request
- * @param input The input with the file path
- * @returns Documentation for the file or an error response
+ * Keep the symbol registries current by watching the workspaces, unless disabled with --no-watch.
+ * Without the watchers, every query checks the tracked files for changes instead.
+ * Watching starts once the workspace roots are known.
  */
-async function handleGetDocForFile(input: GetDocForFileInput): Promise<any> {
-  // Pass through to the getDocForFile implementation
-  return await getDocForFile(input);
+function startWatcher(): void {
+  if (!process.argv.includes('--no-watch')) {
+    workspaces.whenSettled().then(() => workspaces.startWatching());
+  }
 }
 
 /**
- * Handles the search_project_symbols tool request
- * @param input The search query input
- * @returns Symbol search results
+ * Serve MCP over HTTP (streamable HTTP with SSE)
  */
-async function handleSearchProjectSymbols(input: SearchProjectSymbolsInput): Promise<any> {
-  // Pass through to the searchProjectSymbols implementation
-  return await searchProjectSymbols(input);
+async function startHttp(): Promise<void> {
+  const portValue = getArgValue('port') || process.env.MCP_HTTP_PORT;
+  const transport = new HttpTransport({
+    host: getArgValue('host') || process.env.MCP_HTTP_HOST,
+    port: portValue ? parseInt(portValue, 10) : undefined,
+    token: getArgValue('token') || process.env.MCP_HTTP_TOKEN
+  });
+
+  const address = await transport.start();
+  startWatcher();
+  console.error(`MCP DevDocs server listening on http://${address.host}:${address.port}/mcp`);
+
+  const stop = async () => {
+    workspaces.stopWatching();
+    await transport.stop();
+    workspaces.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
 }
 
 /**
- * Handles the autocomplete_symbol tool request
- * @param input The autocomplete query input
- * @returns Symbol autocompletion results
+ * Serve MCP over stdin/stdout, one JSON message per line
  */
-async function handleAutocompleteSymbol(input: AutocompleteSymbolInput): Promise<any> {
-  // Pass through to the autocompleteSymbol implementation
-  return await autocompleteSymbol(input);
-}
+function startStdio(): void {
+  // Each message is written with a single call so concurrent responses never interleave
+  const writeLine = (line: string) => {
+    process.stdout.write(line + '\n');
+  };
 
-/**
- * Handles the get_doc_for_symbol tool request
- * @param input The symbol query input
- * @returns Symbol documentation results
- */
-async function handleGetDocForSymbol(input: GetDocForSymbolInput): Promise<any> {
-  // Pass through to the getDocForSymbol implementation
-  return await getDocForSymbol(input);
-}
+  // Legacy `{ tool, input }` lines are accepted unless explicitly disabled
+  const server = new MCPServer({
+    legacy: !process.argv.includes('--no-legacy'),
+    notify: notification => writeLine(JSON.stringify(notification))
+  });
+
+  const dispatcher = new RequestDispatcher(server, writeLine);
+  startWatcher();
+
+  // Create readline interface for stdin/stdout
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: false
+  });
+
+  // Process a single MCP request; requests run concurrently and responses are written as they complete
+  function processMCPRequest(requestJson: string): void {
+    dispatcher.dispatch(requestJson);
+  }
 
-/**
- * Handles the find_usages tool request
- * @param input The find usages query input
- * @returns Symbol usage locations
- */
-async function handleFindUsages(input: FindUsagesInput): Promise<any> {
-  // Pass through to the findUsages implementation
-  return await findUsages(input);
+  // Main processing loop
+  rl.on('line', (line) => {
+    if (line.trim()) {
+      processMCPRequest(line);
+    }
+  });
+
+  // Handle errors and termination
+  rl.on('close', async () => {
+    // Let pending requests answer before exiting, but don't wait forever on long scans
+    await dispatcher.shutdown(SHUTDOWN_GRACE_MS);
+    workspaces.close();
+    process.exit(0);
+  });
+
+  process.on('SIGINT', () => {
+    workspaces.close();
+    process.exit(0);
+  });
+
+  // If nothing happens for a while, we can exit (optional)
+  const idleTimeout = 300000; // 5 minutes
+  const idleTimer = setTimeout(() => {
+    workspaces.close();
+    process.exit(0);
+  }, idleTimeout);
+
+  // Reset timer on activity
+  rl.on('line', () => {
+    clearTimeout(idleTimer);
+  });
 }
 
-/**
- * Handles the refresh_registry tool request
- * @param input The refresh registry input
- * @returns Registry refresh results
- */
-async function handleRefreshRegistry(input: RefreshRegistryInput): Promise<any> {
-  // Pass through to the refreshRegistry implementation
-  return await refreshRegistry(input);
+// Plugins are code from the project; they only run when the server is told to trust its explicit roots
+workspaces.configure({ allowPlugins: process.argv.includes('--allow-plugins') });
+configureWorkspaces();
+
+if (process.argv.includes('--http')) {
+  startHttp().catch(error => {
+    console.error('Failed to start HTTP transport:', (error as Error).message);
+    process.exit(1);
+  });
+} else {
+  startStdio();
 }
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+/**
+ * The content of a file as handed to a parser, recorded so later changes can be detected
+ */
+export interface ParsedContent {
+  size: number;             // Size in bytes
+  lastModified: number;     // Modification time (mtimeMs)
+  hash: string;             // Hash in git's blob id format (see hashContent)
+}
+
+/**
+ * Hash file content the way git hashes blobs, so hashes can be compared with git's object ids
+ * @param content File content
+ */
+export function hashContent(content: Buffer): string {
+  return crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+/**
+ * Read and hash a file right before it is parsed. An edit made while the parser runs then
+ * leaves the recorded hash behind the file, so the file is parsed again instead of the
+ * new content being taken for the content the symbols came from.
+ * @param filePath Path to the file
+ * @returns The content's size, modification time and hash, or undefined if the file cannot be read
+ */
+export function readParsedContent(filePath: string): ParsedContent | undefined {
+  try {
+    const stats = fs.statSync(filePath);
+    const content = fs.readFileSync(filePath);
+    return { size: content.length, lastModified: stats.mtimeMs, hash: hashContent(content) };
+  } catch {
+    return undefined;
+  }
+}
@@ -1,10 +1,50 @@
 import * as path from 'path';
 import { FileDocResponse, ErrorResponse } from '../types';
+import { ParsedContent } from './fileContent';
+
+/**
+ * Kinds of symbols a parser can produce (the symbol types of the registry)
+ */
+export const SYMBOL_KINDS = ['function', 'class', 'method', 'property', 'interface', 'type', 'route', 'variable'] as const;
+
+/**
+ * Kind of symbol a parser can produce
+ */
+export type SymbolKind = typeof SYMBOL_KINDS[number];
+
+/**
+ * What a parser handles and produces, as reported by list_parsers
+ */
+export interface ParserCapabilities {
+  extensions: string[];     // Extensions of the files it parses, without the leading dot (supportsFile decides)
+  symbolKinds: SymbolKind[]; // Kinds of symbols it extracts
+}
 
 /**
  * Interface for language parsers
  */
 export interface FileParser {
+  /**
+   * Short identifier of the parser (e.g. "typescript"), used in reports
+   */
+  readonly name: string;
+
+  /**
+   * Version of the parser's output; bump it whenever the parser extracts symbols differently,
+   * so registries built by the previous version are re-parsed
+   */
+  readonly version: string;
+
+  /**
+   * Priority over other parsers supporting the same file; the highest wins (default: 0, as for the built-in parsers)
+   */
+  readonly priority?: number;
+
+  /**
+   * File extensions handled and symbol kinds produced
+   */
+  readonly capabilities: ParserCapabilities;
+
   /**
    * Check if this parser supports the given file
    * @param filePath Path to the file
@@ -20,28 +60,136 @@ export interface FileParser {
   parseFile(filePath: string): Promise<FileDocResponse | ErrorResponse>;
 }
 
+/**
+ * Result of parsing a file with the registered parsers
+ */
+export interface ParseOutcome {
+  result: FileDocResponse | ErrorResponse;
+  parser?: string;          // Name of the parser that handled the file (unset if none supports it)
+  durationMs: number;       // Time spent in the parser
+  skipped?: boolean;        // Not parsed because of a parse guard (too large, minified or generated); the result says why
+  aborted?: boolean;        // Parsing was stopped because it took too long or crashed its worker
+  content?: ParsedContent;  // The file as it was when handed to the parser (unset if it could not be read)
+}
+
+/**
+ * A registered parser and where it comes from
+ */
+export interface RegisteredParser {
+  parser: FileParser;
+  scope?: string;           // Workspace root whose files a plugin parser applies to (unset for built-in parsers)
+  module?: string;          // Path of the plugin module that provided the parser
+}
+
 /**
  * Registry of file parsers
  */
 export class ParserRegistry {
-  private parsers: FileParser[] = [];
+  private parsers: RegisteredParser[] = [];
   
   /**
    * Register a new parser
    * @param parser Parser instance to register
+   * @param scope Workspace root the parser is limited to (plugins); built-in parsers apply everywhere
+   * @param module Path of the plugin module that provided the parser
+   */
+  registerParser(parser: FileParser, scope?: string, module?: string): void {
+    this.parsers.push({ parser, scope, module });
+  }
+  
+  /**
+   * Remove the parsers limited to a workspace root
+   * @param scope Workspace root
+   */
+  unregisterScope(scope: string): void {
+    this.parsers = this.parsers.filter(entry => entry.scope !== scope);
+  }
+  
+  /**
+   * Get the parsers that apply to a workspace root, in the order they are chosen:
+   * highest priority first, built-in parsers before plugins of the same priority, then in registration order
+   * @param root Workspace root (default: only the built-in parsers)
    */
-  registerParser(parser: FileParser): void {
-    this.parsers.push(parser);
+  getParsers(root?: string): RegisteredParser[] {
+    return this.parsers
+      .filter(entry => entry.scope === undefined || entry.scope === root)
+      .sort(compareParsers);
   }
   
   /**
    * Get an appropriate parser for a file
    * @param filePath Path to the file
-   * @returns A parser that can handle the file, or undefined if none found
+   * @returns The supporting parser chosen by priority, or undefined if none found
    */
   getParserForFile(filePath: string): FileParser | undefined {
-    return this.parsers.find(parser => parser.supportsFile(filePath));
+    let best: RegisteredParser | undefined;
+    for (const entry of this.parsers) {
+      if (entry.scope !== undefined && !isInside(entry.scope, filePath)) {
+        continue;
+      }
+      if ((!best || compareParsers(entry, best) < 0) && entry.parser.supportsFile(filePath)) {
+        best = entry;
+      }
+    }
+    return best?.parser;
+  }
+  
+  /**
+   * Parse a file with the parser that supports it
+   * @param filePath Path to the file
+   * @returns The parser's result, or an error response if no parser supports the file or the parser threw
+   */
+  async parse(filePath: string): Promise<ParseOutcome> {
+    const parser = this.getParserForFile(filePath);
+    if (!parser) {
+      return {
+        result: {
+          error: 'Unsupported file type',
+          details: `No parser available for file type: ${path.extname(filePath).toLowerCase()}`
+        },
+        durationMs: 0
+      };
+    }
+
+    const startedAt = Date.now();
+    let result: FileDocResponse | ErrorResponse;
+    try {
+      result = await parser.parseFile(filePath);
+    } catch (error) {
+      result = {
+        error: 'Parsing error',
+        details: (error as Error).message
+      };
+    }
+
+    return { result, parser: parser.name, durationMs: Date.now() - startedAt };
   }
+
+  /**
+   * Get the version of every parser that applies to a workspace root
+   * @param root Workspace root (default: only the built-in parsers)
+   * @returns Parser name -> version
+   */
+  getParserVersions(root?: string): Record<string, string> {
+    return Object.fromEntries(this.getParsers(root).map(({ parser }) => [parser.name, parser.version]));
+  }
+}
+
+/**
+ * Order parsers by the preference among those supporting a file
+ * @returns Negative if a is preferred, positive if b is, 0 if they were registered in that order
+ */
+function compareParsers(a: RegisteredParser, b: RegisteredParser): number {
+  return (b.parser.priority ?? 0) - (a.parser.priority ?? 0)
+    || (a.scope === undefined ? 0 : 1) - (b.scope === undefined ? 0 : 1);
+}
+
+/**
+ * Whether a path lies inside a directory
+ */
+export function isInside(dir: string, filePath: string): boolean {
+  const relativePath = path.relative(dir, filePath);
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
 }
 
 // Create a singleton registry instance
@@ -1,16 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
+import { SourceFile, SyntaxKind, Node } from 'ts-morph';
 import { 
   FileDocResponse, FunctionDoc, ClassDoc, 
   RouteDoc, MethodDoc, PropertyDoc, ErrorResponse 
 } from '../types';
-import { FileParser } from './index';
+import { FileParser, ParserCapabilities } from './index';
+import { getNodeLocation } from './sourceLocation';
+import { getTypeText, tsProjects } from './tsProjects';
 
 /**
  * Parser for JavaScript files
  */
 export class JavaScriptParser implements FileParser {
+  readonly name = 'javascript';
+  readonly version = '3';
+  readonly capabilities: ParserCapabilities = {
+    extensions: ['js', 'jsx'],
+    symbolKinds: ['function', 'class', 'method', 'property', 'route']
+  };
+
   /**
    * Check if this parser supports the given file
    * @param filePath Path to the file
@@ -36,24 +45,16 @@ export class JavaScriptParser implements FileParser {
     }
 
     try {
-      // Create a ts-morph Project with JavaScript support
-      const project = new Project({
-        compilerOptions: {
-          allowJs: true,  // Allow JavaScript files
-          checkJs: true,  // Enable type checking for JavaScript files
-        }
-      });
+      // Load the file into the long-lived project of its tsconfig.json or jsconfig.json
+      const sourceFile = tsProjects.getSourceFile(filePath);
       
-      // Add the file to the project
-      const sourceFile = project.addSourceFileAtPath(filePath);
-      
-      // Parse the file
-      const result: FileDocResponse = {
+      // Parse the file, releasing the node wrappers afterwards since the project outlives this parse
+      const result: FileDocResponse = sourceFile.getProject().forgetNodesCreatedInBlock(() => ({
         filePath,
         functions: this.extractFunctions(sourceFile),
         classes: this.extractClasses(sourceFile),
         routes: this.extractRoutes(sourceFile)
-      };
+      }));
 
       // Clean up empty arrays
       Object.keys(result).forEach(key => {
@@ -88,7 +89,7 @@ export class JavaScriptParser implements FileParser {
       const params = func.getParameters().map(param => param.getName());
       
       // Get return type (may be 'any' for JavaScript)
-      const returnType = func.getReturnType().getText();
+      const returnType = getTypeText(func.getReturnType(), func);
       
       // Get JSDoc description if available
       const jsDocs = func.getJsDocs();
@@ -106,7 +107,8 @@ export class JavaScriptParser implements FileParser {
         params,
         returnType,
         description,
-        exported
+        exported,
+        location: getNodeLocation(func, func.getNameNode())
       });
     }
     
@@ -140,7 +142,7 @@ export class JavaScriptParser implements FileParser {
       const methods: MethodDoc[] = cls.getMethods().map(method => {
         const methodName = method.getName();
         const params = method.getParameters().map(param => param.getName());
-        const returnType = method.getReturnType().getText();
+        const returnType = getTypeText(method.getReturnType(), method);
         
         // Get JSDoc for method
         const methodJsDocs = method.getJsDocs();
@@ -165,14 +167,15 @@ export class JavaScriptParser implements FileParser {
           params,
           returnType,
           description: methodDescription,
-          visibility
+          visibility,
+          location: getNodeLocation(method, method.getNameNode())
         };
       });
       
       // Extract properties
       const properties: PropertyDoc[] = cls.getProperties().map(prop => {
         const propName = prop.getName();
-        const propType = prop.getType().getText();
+        const propType = getTypeText(prop.getType(), prop);
         
         // Get JSDoc for property
         const propJsDocs = prop.getJsDocs();
@@ -196,7 +199,8 @@ export class JavaScriptParser implements FileParser {
           name: propName,
           type: propType,
           description: propDescription,
-          visibility
+          visibility,
+          location: getNodeLocation(prop, prop.getNameNode())
         };
       });
       
@@ -209,7 +213,8 @@ export class JavaScriptParser implements FileParser {
         exported,
         methods,
         properties,
-        isComponent
+        isComponent,
+        location: getNodeLocation(cls, cls.getNameNode())
       });
     }
     
@@ -277,7 +282,8 @@ export class JavaScriptParser implements FileParser {
                   method: methodName.toUpperCase(),
                   path,
                   handler,
-                  description: `${methodName.toUpperCase()} ${path}`
+                  description: `${methodName.toUpperCase()} ${path}`,
+                  location: getNodeLocation(node, pathArg)
                 });
               }
             }
@@ -297,7 +303,8 @@ export class JavaScriptParser implements FileParser {
           method: 'ANY', // NextJS handlers can handle any method by default
           path: apiPath,
           handler: 'handler',
-          description: `API route for ${apiPath}`
+          description: `API route for ${apiPath}`,
+          location: getNodeLocation(node, node.getNameNode())
         });
       }
     });
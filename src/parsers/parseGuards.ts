@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsingSettings } from '../config/mcpConfig';
+
+// Bytes read from the start of a file to recognize minified and generated code
+const SAMPLE_BYTES = 64 * 1024;
+
+// Lines searched for a generated-code marker
+const MARKER_LINES = 10;
+
+// Lines of the comment header above the code
+const COMMENT_LINE = /^(?:\/\/|\/\*|\*|#)/;
+
+// Markers tools put in the comment header of the files they generate; ordinary comments
+// ("ids are auto-generated by the database") do not count
+const GENERATED_MARKERS: { pattern: RegExp; marker: string }[] = [
+  { pattern: /@generated\b/, marker: '@generated' },
+  { pattern: /^\/\/ Code generated .* DO NOT EDIT\.$/, marker: 'Code generated ... DO NOT EDIT.' },
+  { pattern: /\bDO NOT EDIT\b/, marker: 'DO NOT EDIT' }
+];
+
+// Average line length above which a file is taken to be minified
+const MINIFIED_AVERAGE_LINE_LENGTH = 250;
+
+// Files shorter than this are never taken to be minified
+const MINIFIED_MIN_SIZE = 2048;
+
+/**
+ * Check whether a file should be parsed at all
+ * @param filePath Path to the file
+ * @param settings Parsing settings from mcpconfig.json
+ * @returns Why the file is skipped, or undefined if it may be parsed
+ */
+export function checkParseGuards(filePath: string, settings: ParsingSettings): string | undefined {
+  let size: number;
+  try {
+    size = fs.statSync(filePath).size;
+  } catch {
+    // Let the parser report the missing file
+    return undefined;
+  }
+
+  if (settings.maxFileSize > 0 && size > settings.maxFileSize) {
+    return `File is ${size} bytes, larger than parsing.maxFileSize (${settings.maxFileSize} bytes)`;
+  }
+
+  if (!settings.skipGenerated) {
+    return undefined;
+  }
+
+  if (/\.min\.[^.]+$/i.test(path.basename(filePath))) {
+    return 'File is minified (name contains ".min.")';
+  }
+
+  const sample = readSample(filePath, size);
+  const marker = findGeneratedMarker(sample);
+  if (marker) {
+    return `File is generated (header contains "${marker}")`;
+  }
+
+  const lines = sample.split('\n').length;
+  if (sample.length >= MINIFIED_MIN_SIZE && sample.length / lines > MINIFIED_AVERAGE_LINE_LENGTH) {
+    return `File looks minified (${Math.round(sample.length / lines)} characters per line on average)`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the start of a file
+ * @param filePath Path to the file
+ * @param size Size of the file
+ * @returns Up to SAMPLE_BYTES of its content ('' if it cannot be read)
+ */
+function readSample(filePath: string, size: number): string {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const buffer = Buffer.alloc(Math.min(size, SAMPLE_BYTES));
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.toString('utf8', 0, bytesRead);
+  } catch {
+    return '';
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Find a generated-code marker in the comments that start a file, before its first line of code
+ * @param sample Start of the file
+ * @returns The marker, or undefined if there is none
+ */
+function findGeneratedMarker(sample: string): string | undefined {
+  const header: string[] = [];
+  for (const line of sample.split('\n', MARKER_LINES).map(line => line.trim())) {
+    if (line !== '' && !COMMENT_LINE.test(line)) {
+      break;
+    }
+    header.push(line);
+  }
+
+  return GENERATED_MARKERS.find(({ pattern }) => header.some(line => pattern.test(line)))?.marker;
+}
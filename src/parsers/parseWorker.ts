@@ -0,0 +1,24 @@
+import { parentPort, workerData } from 'worker_threads';
+import { parserRegistry } from './index';
+import { registerParsers } from './register';
+import { ParseRequest, ParseWorkerData, ParseWorkerReady } from './parserPool';
+import { describePluginParsers, loadPlugins } from './plugins';
+
+/**
+ * Entry point of a parser worker thread: parses the files the pool sends, one at a time,
+ * and posts each result back. The symbols are registered by the main thread.
+ */
+registerParsers();
+
+// Plugin code only runs here; the main thread registers the parsers the worker describes
+const { plugins } = workerData as ParseWorkerData;
+const ready: ParseWorkerReady = { plugins: [], parsers: [] };
+for (const [root, entries] of Object.entries(plugins)) {
+  ready.plugins.push(...loadPlugins(root, entries));
+  ready.parsers.push(...describePluginParsers(root));
+}
+parentPort!.postMessage(ready);
+
+parentPort!.on('message', async ({ filePath }: ParseRequest) => {
+  parentPort!.postMessage(await parserRegistry.parse(filePath));
+});
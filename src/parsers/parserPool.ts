@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { parserRegistry, ParseOutcome } from './index';
+import { checkParseGuards } from './parseGuards';
+import { ParsedContent, readParsedContent } from './fileContent';
+import { getPluginLists, isPluginParser, PluginParserInfo, PluginStatus, registerPluginParsers, setPluginList } from './plugins';
+import { DEFAULT_CONFIG, ParsingSettings } from '../config/mcpConfig';
+
+/**
+ * Message asking a worker to parse a file (answered with a ParseOutcome)
+ */
+export interface ParseRequest {
+  filePath: string;
+}
+
+/**
+ * Message a worker posts once it has loaded its parser plugins, before any parse result
+ */
+export interface ParseWorkerReady {
+  plugins: PluginStatus[];      // The status of each plugin it loaded
+  parsers: PluginParserInfo[];  // The parsers the plugins provide
+}
+
+// A file waiting for, or being parsed by, a worker
+interface ParseTask {
+  filePath: string;
+  resolve: (outcome: ParseOutcome) => void;
+  startedAt?: number;       // When a worker received the file
+  content?: ParsedContent;  // The file as it was when the worker received it
+  timer?: NodeJS.Timeout;   // Stops the worker when the file takes too long
+}
+
+// A worker thread and the file it is parsing, if any
+interface PoolWorker {
+  worker: Worker;
+  task?: ParseTask;
+  plugins: string;          // Parser plugins the worker loaded (as JSON)
+  ready: Promise<ParseWorkerReady>; // Settles once the worker has loaded its plugins
+  describing?: boolean;     // loadPlugins waits for the worker's plugins, so it is not stopped as idle
+}
+
+/**
+ * Data a worker starts with
+ */
+export interface ParseWorkerData {
+  plugins: Record<string, string[]>;  // Workspace root -> parser plugins to load for it
+}
+
+// Compiled worker script; it does not exist when running from the TypeScript sources (ts-node)
+const WORKER_SCRIPT = path.join(__dirname, 'parseWorker.js');
+
+/**
+ * Parses the files of one workspace in worker threads so that parsing neither blocks the main
+ * thread nor is limited to one CPU core. Each workspace has its own pool, sized and guarded by
+ * its own mcpconfig.json. Workers are started on demand and kept for later refreshes; they are
+ * replaced once the parser plugins that apply to the workspace change.
+ * A worker that takes too long on a file or crashes is replaced, failing only that file.
+ */
+export class ParserPool {
+  private workers: PoolWorker[] = [];
+  private queue: ParseTask[] = [];
+  private settings: ParsingSettings = DEFAULT_CONFIG.parsing;
+  private closed = false;
+  private readonly scriptAvailable: boolean;
+
+  /**
+   * @param root Workspace root whose files the pool parses
+   * @param script Path of the worker script; files are parsed on the main thread if it is missing
+   */
+  constructor(private readonly root: string, private readonly script: string = WORKER_SCRIPT) {
+    this.scriptAvailable = fs.existsSync(script);
+  }
+
+  /**
+   * Apply the parsing settings of the workspace's mcpconfig.json. Idle workers beyond a smaller
+   * pool size stop at once, busy ones after their current file.
+   * @param settings Pool size and parse guards; 0 workers parses on the main thread
+   */
+  configure(settings: ParsingSettings): void {
+    this.settings = settings;
+    this.stopIdleWorkers();
+    this.dispatch();
+  }
+
+  /**
+   * Stop the workers once the workspace is no longer used: idle ones at once,
+   * busy ones after the files already handed to the pool
+   */
+  close(): void {
+    this.closed = true;
+    this.stopIdleWorkers();
+  }
+
+  /**
+   * Get the number of files that can usefully be parsed at the same time
+   */
+  getConcurrency(): number {
+    return this.settings.workers === 0 || !this.scriptAvailable ? 1 : this.settings.workers;
+  }
+
+  /**
+   * Load the parser plugins of the workspace in a worker thread, the only place plugin code runs,
+   * and register the parsers they provide on the main thread
+   * @param plugins Plugin entries from mcpconfig.json
+   * @returns The status of each plugin
+   */
+  async loadPlugins(plugins: string[]): Promise<PluginStatus[]> {
+    setPluginList(this.root, plugins);
+    let statuses: PluginStatus[] = [];
+    let parsers: PluginParserInfo[] = [];
+
+    if (plugins.length > 0 && !this.scriptAvailable) {
+      statuses = plugins.map(plugin => ({ plugin, root: this.root, error: 'Parser plugins need the compiled parser worker' }));
+    } else if (plugins.length > 0) {
+      // Workers that loaded other plugins are replaced; one that loaded these has already described them
+      this.stopIdleWorkers();
+      const current = JSON.stringify(getPluginLists(this.root));
+      const entry = this.workers.find(entry => entry.plugins === current) || this.start();
+      entry.describing = true;
+      try {
+        const ready = await entry.ready;
+        statuses = ready.plugins.filter(status => status.root === this.root);
+        parsers = ready.parsers.filter(parser => parser.root === this.root);
+      } catch (error) {
+        statuses = plugins.map(plugin => ({ plugin, root: this.root, error: (error as Error).message }));
+      } finally {
+        entry.describing = false;
+      }
+      // The worker is kept for parsing if the pool has room for it
+      this.stopIdleWorkers();
+    }
+
+    registerPluginParsers(this.root, statuses, parsers);
+    return statuses;
+  }
+
+  /**
+   * Parse a file in a worker thread (or on the main thread if there are no workers)
+   * @param filePath Path to the file
+   * @returns The parse result, with the content the parser was given; skipped files, timeouts
+   *   and crashed workers are reported as error responses, never as rejections
+   */
+  async parse(filePath: string): Promise<ParseOutcome> {
+    const reason = checkParseGuards(filePath, this.settings);
+    if (reason) {
+      return { result: { error: 'File skipped', details: reason }, durationMs: 0, skipped: true, content: readParsedContent(filePath) };
+    }
+
+    if (this.isInline(filePath)) {
+      const content = readParsedContent(filePath);
+      return { ...await parserRegistry.parse(filePath), content };
+    }
+
+    return new Promise(resolve => {
+      this.queue.push({ filePath, resolve });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Whether a file is parsed on the main thread: when there are no workers, unless a plugin parses it,
+   * since plugins only run in workers
+   * @param filePath Path to the file
+   */
+  private isInline(filePath: string): boolean {
+    if (!this.scriptAvailable) {
+      return true;
+    }
+    const parser = parserRegistry.getParserForFile(filePath);
+    return this.settings.workers === 0 && !(parser && isPluginParser(parser));
+  }
+
+  /**
+   * Get the number of workers the pool may run; one for the files of plugins when files are otherwise parsed inline
+   */
+  private getSize(): number {
+    return Math.max(this.settings.workers, 1);
+  }
+
+  /**
+   * Hand queued files to idle workers, starting new ones up to the pool size
+   */
+  private dispatch(): void {
+    // Workers that loaded other parser plugins than the ones that now apply are replaced
+    this.stopIdleWorkers();
+
+    while (this.queue.length > 0) {
+      const entry = this.workers.find(entry => !entry.task)
+        || (this.workers.length < this.getSize() ? this.start() : undefined);
+      if (!entry) {
+        return;
+      }
+
+      const task = entry.task = this.queue.shift()!;
+      task.startedAt = Date.now();
+      task.content = readParsedContent(task.filePath);
+      // The time includes starting the worker; it is meant to catch files that hang, not slow ones
+      const { timeoutMs } = this.settings;
+      if (timeoutMs > 0) {
+        task.timer = setTimeout(() => this.abort(entry, 'Parsing timed out', `Parsing took longer than ${timeoutMs} ms`), timeoutMs);
+      }
+
+      // A busy worker keeps the process alive until its result arrives
+      entry.worker.ref();
+      const request: ParseRequest = { filePath: entry.task.filePath };
+      entry.worker.postMessage(request);
+    }
+  }
+
+  /**
+   * Start a worker thread
+   */
+  private start(): PoolWorker {
+    const workerData: ParseWorkerData = { plugins: getPluginLists(this.root) };
+    let ready!: { resolve: (message: ParseWorkerReady) => void; reject: (error: Error) => void };
+    const entry: PoolWorker = {
+      worker: new Worker(this.script, { workerData }),
+      plugins: JSON.stringify(workerData.plugins),
+      ready: new Promise((resolve, reject) => { ready = { resolve, reject }; })
+    };
+    // Only loadPlugins waits for it; a worker that fails before is otherwise handled by abort
+    entry.ready.catch(() => undefined);
+    entry.worker.unref();
+
+    entry.worker.on('message', (outcome: ParseOutcome | ParseWorkerReady) => {
+      if ('parsers' in outcome) {
+        ready.resolve(outcome);
+        return;
+      }
+
+      const task = entry.task!;
+      entry.task = undefined;
+      clearTimeout(task.timer);
+      task.resolve({ ...outcome, content: task.content });
+
+      entry.worker.unref();
+      this.dispatch();
+    });
+    entry.worker.on('error', error => {
+      ready.reject(new Error(`Parser worker failed: ${error.message}`));
+      this.abort(entry, 'Parsing error', `Parser worker failed: ${error.message}`);
+    });
+    entry.worker.on('exit', code => {
+      ready.reject(new Error(`Parser worker exited with code ${code}`));
+      this.abort(entry, 'Parsing error', `Parser worker exited with code ${code}`);
+    });
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  /**
+   * Stop the idle workers that are no longer needed: beyond the pool size, with outdated
+   * parser plugins, or all of them once the pool is closed and has nothing left to parse
+   */
+  private stopIdleWorkers(): void {
+    const plugins = JSON.stringify(getPluginLists(this.root));
+    for (const entry of this.workers.filter(entry => !entry.task && !entry.describing)) {
+      if (this.workers.length > this.getSize() || entry.plugins !== plugins || (this.closed && this.queue.length === 0)) {
+        this.stop(entry);
+      }
+    }
+  }
+
+  /**
+   * Stop a worker that is not parsing anything
+   */
+  private stop(entry: PoolWorker): void {
+    this.workers = this.workers.filter(other => other !== entry);
+    entry.worker.terminate();
+  }
+
+  /**
+   * Stop and forget a worker that crashed, exited or took too long, failing the file it was parsing
+   * @param entry The worker
+   * @param error Error reported for the file
+   * @param details Why the worker is gone
+   */
+  private abort(entry: PoolWorker, error: string, details: string): void {
+    this.workers = this.workers.filter(other => other !== entry);
+    entry.worker.terminate();
+
+    const task = entry.task;
+    entry.task = undefined;
+    if (task) {
+      clearTimeout(task.timer);
+      task.resolve({
+        result: { error, details },
+        parser: parserRegistry.getParserForFile(task.filePath)?.name,
+        durationMs: Date.now() - task.startedAt!,
+        aborted: true,
+        content: task.content
+      });
+    }
+
+    // Remaining files go to the other workers or a new one
+    this.dispatch();
+  }
+}
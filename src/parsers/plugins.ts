@@ -0,0 +1,255 @@
+import * as path from 'path';
+import { FileParser, isInside, ParserCapabilities, parserRegistry, SYMBOL_KINDS } from './index';
+import { ErrorResponse } from '../types';
+import { formatValidationErrors, JsonSchema, validateAgainstSchema } from '../schema';
+
+/**
+ * A parser plugin listed in mcpconfig.json and whether it could be loaded
+ */
+export interface PluginStatus {
+  plugin: string;           // Entry as listed in mcpconfig.json
+  root: string;             // Workspace root whose mcpconfig.json lists it
+  module?: string;          // Resolved path of the module
+  parser?: string;          // Name of the parser it provides
+  error?: string;           // Why it could not be loaded
+}
+
+/**
+ * A parser a plugin provides, as described by the parser worker that loaded it
+ */
+export interface PluginParserInfo {
+  root: string;             // Workspace root whose mcpconfig.json lists the plugin
+  module: string;           // Resolved path of the plugin module
+  name: string;
+  version: string;
+  priority?: number;
+  capabilities: ParserCapabilities;
+}
+
+// Schema of the data a plugin's parser declares
+const parserSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'string', minLength: 1 },
+    priority: { type: 'number' },
+    capabilities: {
+      type: 'object',
+      properties: {
+        extensions: { type: 'array', items: { type: 'string', minLength: 1 } },
+        symbolKinds: { type: 'array', items: { type: 'string', enum: [...SYMBOL_KINDS] } }
+      },
+      required: ['extensions', 'symbolKinds']
+    }
+  },
+  required: ['name', 'version', 'capabilities']
+};
+
+// Workspace root -> plugins listed in its mcpconfig.json, which the parser workers load
+const pluginsByRoot = new Map<string, PluginStatus[]>();
+
+// Workspace root -> plugins listed in its mcpconfig.json that the server does not allow it to load
+const disabledByRoot = new Map<string, PluginStatus[]>();
+
+/**
+ * Load the parser plugins listed for a workspace root, replacing the ones loaded for it before.
+ * A plugin is a CommonJS module, given as a path relative to the root or as the name of an installed
+ * package, that exports `createParser()` returning a FileParser. Its parser only applies to files of the root.
+ * Plugin code is only run in parser workers, which call this; the main thread registers what they describe
+ * with registerPluginParsers.
+ * @param root Workspace root
+ * @param plugins Plugin entries from mcpconfig.json
+ * @returns The status of each plugin
+ */
+export function loadPlugins(root: string, plugins: string[]): PluginStatus[] {
+  parserRegistry.unregisterScope(root);
+  const statuses = plugins.map(plugin => loadPlugin(root, plugin));
+  setStatuses(root, statuses);
+  return statuses;
+}
+
+/**
+ * Describe the parsers loaded from the plugins of a workspace root, for the main thread
+ * @param root Workspace root
+ */
+export function describePluginParsers(root: string): PluginParserInfo[] {
+  return parserRegistry.getParsers(root)
+    .filter(entry => entry.scope === root)
+    .map(({ parser, module }) => ({
+      root,
+      module: module!,
+      name: parser.name,
+      version: parser.version,
+      ...(parser.priority !== undefined ? { priority: parser.priority } : {}),
+      // Plain copies, since they are posted to another thread
+      capabilities: { extensions: [...parser.capabilities.extensions], symbolKinds: [...parser.capabilities.symbolKinds] }
+    }));
+}
+
+/**
+ * List the plugins of a workspace root for the parser workers started from now on, before their parsers are known
+ * @param root Workspace root
+ * @param plugins Plugin entries from mcpconfig.json
+ */
+export function setPluginList(root: string, plugins: string[]): void {
+  parserRegistry.unregisterScope(root);
+  setStatuses(root, plugins.map(plugin => ({ plugin, root })));
+}
+
+/**
+ * Register on the main thread the parsers a parser worker loaded from the plugins of a workspace root.
+ * The main thread only uses them to choose the parser of a file, by extension, and to record parser versions;
+ * the files they parse are handed to the workers.
+ * @param root Workspace root
+ * @param statuses The status of each plugin, as the worker reported it
+ * @param parsers The parsers the worker loaded for the root
+ */
+export function registerPluginParsers(root: string, statuses: PluginStatus[], parsers: PluginParserInfo[]): void {
+  parserRegistry.unregisterScope(root);
+  for (const info of parsers) {
+    parserRegistry.registerParser(new WorkerPluginParser(info), root, info.module);
+  }
+  setStatuses(root, statuses);
+}
+
+/**
+ * Record the plugins of a workspace root that the server does not allow it to load; none of them is loaded
+ * @param root Workspace root
+ * @param plugins Plugin entries from mcpconfig.json
+ * @param reason Why plugins are not loaded for the root
+ * @returns The status of each plugin
+ */
+export function disablePlugins(root: string, plugins: string[], reason: string): PluginStatus[] {
+  parserRegistry.unregisterScope(root);
+  setStatuses(root, []);
+  const statuses = plugins.map(plugin => ({ plugin, root, error: reason }));
+  if (statuses.length > 0) {
+    disabledByRoot.set(root, statuses);
+  }
+  return statuses;
+}
+
+/**
+ * Get the plugins listed for a workspace root
+ * @param root Workspace root (default: every root)
+ * @returns The status of each plugin
+ */
+export function getPluginStatuses(root?: string): PluginStatus[] {
+  const all = [...pluginsByRoot, ...disabledByRoot].filter(([other]) => root === undefined || other === root);
+  return all.flatMap(([, statuses]) => statuses);
+}
+
+/**
+ * Whether a parser comes from a plugin, and so only parses files in a parser worker
+ * @param parser Registered parser
+ */
+export function isPluginParser(parser: FileParser): boolean {
+  return parser instanceof WorkerPluginParser;
+}
+
+/**
+ * Get the plugin entries that can apply to the files of a workspace root, to load the same plugins
+ * in a worker thread: those of the root itself, of roots containing it and of roots nested in it
+ * @param root Workspace root
+ * @returns Workspace root -> plugin entries
+ */
+export function getPluginLists(root: string): Record<string, string[]> {
+  return Object.fromEntries(Array.from(pluginsByRoot)
+    .filter(([other]) => isInside(other, root) || isInside(root, other))
+    .map(([other, statuses]) => [other, statuses.map(status => status.plugin)]));
+}
+
+/**
+ * Replace the plugins recorded for a workspace root
+ */
+function setStatuses(root: string, statuses: PluginStatus[]): void {
+  disabledByRoot.delete(root);
+  if (statuses.length > 0) {
+    pluginsByRoot.set(root, statuses);
+  } else {
+    pluginsByRoot.delete(root);
+  }
+}
+
+/**
+ * Load one plugin and register its parser
+ * @param root Workspace root the plugin is listed for
+ * @param plugin Plugin entry
+ */
+function loadPlugin(root: string, plugin: string): PluginStatus {
+  let module: string | undefined;
+  try {
+    // Paths are relative to the root; anything else names a package installed for the project
+    const isPath = plugin.startsWith('.') || path.isAbsolute(plugin);
+    module = require.resolve(isPath ? path.resolve(root, plugin) : plugin, { paths: [root] });
+
+    const exports = require(module);
+    const createParser = exports.createParser ?? exports.default?.createParser;
+    if (typeof createParser !== 'function') {
+      throw new Error('The module does not export a createParser function');
+    }
+
+    const parser: FileParser = createParser();
+    checkParser(parser);
+    if (parserRegistry.getParsers(root).some(entry => entry.parser.name === parser.name)) {
+      throw new Error(`A parser named "${parser.name}" is already registered`);
+    }
+
+    parserRegistry.registerParser(parser, root, module);
+    return { plugin, root, module, parser: parser.name };
+  } catch (error) {
+    // Module resolution errors append the require stack of this server
+    return { plugin, root, module, error: (error as Error).message.split('\n')[0] };
+  }
+}
+
+/**
+ * Check that a plugin returned a usable parser
+ * @param parser Value returned by createParser()
+ * @throws Error describing what is missing or invalid
+ */
+function checkParser(parser: FileParser): void {
+  if (typeof parser !== 'object' || parser === null) {
+    throw new Error('createParser() did not return an object');
+  }
+
+  // Read the fields through the object, so parsers may define them as getters
+  const { name, version, priority, capabilities } = parser;
+  const declared = { name, version, capabilities, ...(priority !== undefined ? { priority } : {}) };
+  const errors = validateAgainstSchema(declared, parserSchema);
+  if (errors.length > 0) {
+    throw new Error(`Invalid parser: ${formatValidationErrors(errors)}`);
+  }
+
+  for (const method of ['supportsFile', 'parseFile'] as const) {
+    if (typeof parser[method] !== 'function') {
+      throw new Error(`Invalid parser: "${method}" must be a function`);
+    }
+  }
+}
+
+/**
+ * Stands in on the main thread for a plugin's parser, which only runs in the parser workers
+ */
+class WorkerPluginParser implements FileParser {
+  readonly name: string;
+  readonly version: string;
+  readonly priority?: number;
+  readonly capabilities: ParserCapabilities;
+
+  constructor(info: PluginParserInfo) {
+    this.name = info.name;
+    this.version = info.version;
+    this.priority = info.priority;
+    this.capabilities = info.capabilities;
+  }
+
+  supportsFile(filePath: string): boolean {
+    const extension = path.extname(filePath).substring(1).toLowerCase();
+    return this.capabilities.extensions.some(supported => supported.replace(/^\./, '').toLowerCase() === extension);
+  }
+
+  async parseFile(): Promise<ErrorResponse> {
+    return { error: 'Parsing error', details: `Parser plugin ${this.name} only runs in parser worker threads` };
+  }
+}
@@ -1,8 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import Parser from 'tree-sitter';
-import { FileParser } from './index';
-import { FileDocResponse, ErrorResponse, FunctionDoc, ClassDoc, MethodDoc, RouteDoc } from '../types';
+import { FileParser, ParserCapabilities } from './index';
+import { FileDocResponse, ErrorResponse, FunctionDoc, ClassDoc, MethodDoc, RouteDoc, SourceLocation, SourceRange } from '../types';
 
 // For tree-sitter Python grammar
 let pythonGrammar: any;
@@ -16,6 +16,12 @@ try {
  * Parser implementation for Python files
  */
 export class PythonParser implements FileParser {
+  readonly name = 'python';
+  readonly version = '2';
+  readonly capabilities: ParserCapabilities = {
+    extensions: ['py'],
+    symbolKinds: ['function', 'class', 'method', 'route']
+  };
   private parser: Parser | null = null;
 
   constructor() {
@@ -256,7 +262,8 @@ export class PythonParser implements FileParser {
       params,
       returnType,
       description,
-      exported // Only relevant for top-level functions
+      exported, // Only relevant for top-level functions
+      location: this.getLocation(this.withDecorators(node), nameNode)
     };
   }
 
@@ -312,7 +319,8 @@ export class PythonParser implements FileParser {
               params: methodDetails.params, // Already processed by extractFunctionDetails
               returnType: methodDetails.returnType,
               description: methodDetails.description,
-              visibility: visibility
+              visibility: visibility,
+              location: methodDetails.location
             });
           }
           return true; // Stop traversing deeper into the method itself
@@ -328,7 +336,8 @@ export class PythonParser implements FileParser {
       properties: [], // Properties might require parsing assignments in __init__ or class body
       description: classDescription,
       exported,
-      isComponent
+      isComponent,
+      location: this.getLocation(this.withDecorators(node), classNameNode)
     });
   }
 
@@ -375,13 +384,43 @@ export class PythonParser implements FileParser {
             method: httpMethod,
             path: path,
             handler: funcDoc.name,
-            description: funcDoc.description 
+            description: funcDoc.description,
+            location: this.getLocation(decorator, pathArg)
           });
         } 
       } 
     });
   }
 
+  /**
+   * Get the location of a definition
+   * @param node The definition
+   * @param nameNode Its name identifier
+   */
+  private getLocation(node: Parser.SyntaxNode, nameNode: Parser.SyntaxNode): SourceLocation {
+    return { ...this.getRange(node), name: this.getRange(nameNode) };
+  }
+
+  /**
+   * Get the range of a node; tree-sitter counts rows and columns from 0
+   */
+  private getRange(node: Parser.SyntaxNode): SourceRange {
+    return {
+      line: node.startPosition.row + 1,
+      column: node.startPosition.column + 1,
+      endLine: node.endPosition.row + 1,
+      endColumn: node.endPosition.column + 1
+    };
+  }
+
+  /**
+   * Get the node spanning a definition together with its decorators
+   * @param node A function or class definition
+   */
+  private withDecorators(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    return node.parent?.type === 'decorated_definition' ? node.parent : node;
+  }
+
   private traverseNode(node: Parser.SyntaxNode, callback: (child: Parser.SyntaxNode) => boolean): void {
     if (callback(node)) {
       for (let i = 0; i < node.namedChildCount; i++) {
@@ -0,0 +1,23 @@
+import { Node } from 'ts-morph';
+import { SourceLocation, SourceRange } from '../types';
+
+/**
+ * Get the location of a declaration parsed with ts-morph
+ * @param node The declaration (its JSDoc is not part of the range)
+ * @param nameNode The declaration's name identifier; anonymous declarations use the declaration itself
+ * @returns Ranges of the declaration and of its name
+ */
+export function getNodeLocation(node: Node, nameNode?: Node): SourceLocation {
+  return { ...getNodeRange(node), name: getNodeRange(nameNode ?? node) };
+}
+
+/**
+ * Get the range of a node, without leading comments and whitespace
+ * @param node Node to locate
+ */
+function getNodeRange(node: Node): SourceRange {
+  const sourceFile = node.getSourceFile();
+  const start = sourceFile.getLineAndColumnAtPos(node.getStart());
+  const end = sourceFile.getLineAndColumnAtPos(node.getEnd());
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column };
+}
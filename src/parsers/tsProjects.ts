@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Node, Project, ResolutionHostFactory, SourceFile, ts, Type, TypeFormatFlags } from 'ts-morph';
+
+// Configuration files looked for next to a file and in its parent directories, in order of preference
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+// Projects kept at the same time; each holds the files parsed with it and everything they import
+const MAX_PROJECTS = 8;
+
+// Options of every project: both parsers share the projects, and the JavaScript one needs JS files in them
+const COMPILER_OPTIONS: ts.CompilerOptions = { allowJs: true };
+
+// Options of the project for files without a configuration
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = { allowJs: true, checkJs: true };
+
+// Names of types in scope are written as they are, others by their own (not module-qualified) name
+const TYPE_FORMAT_FLAGS = TypeFormatFlags.UseTypeOfFunction | TypeFormatFlags.NoTruncation
+  | TypeFormatFlags.WriteTypeArgumentsOfSignature | TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+// A long-lived project and the configuration it was created from
+interface CachedProject {
+  project: Project;
+  configMtime: number;      // Modification time of the configuration file when it was loaded (0 without one)
+  fileMtimes: Map<string, number>; // File path -> modification time when the project last read it
+}
+
+/**
+ * ts-morph Projects shared by the TypeScript and JavaScript parsers, one per tsconfig.json or jsconfig.json.
+ * A file is parsed in the project of the nearest configuration above it, so imports resolve with that
+ * configuration's compiler options (`paths`, `baseUrl`, project references, ...). Projects are kept between
+ * parses and files are re-read in place when they change.
+ */
+export class TsProjectCache {
+  // Configuration file path ('' for files without one) -> project, least recently used first
+  private projects = new Map<string, CachedProject>();
+
+  /**
+   * Get the up-to-date source file of a file in the project of its nearest configuration
+   * @param filePath Absolute path of the file
+   * @returns The source file
+   */
+  getSourceFile(filePath: string): SourceFile {
+    const cached = this.getProject(findConfigFile(path.dirname(filePath)));
+
+    let sourceFile = cached.project.getSourceFile(filePath);
+    if (sourceFile) {
+      // Also covers a file first loaded as an import of another one
+      refreshIfChanged(cached, sourceFile);
+    } else {
+      sourceFile = cached.project.addSourceFileAtPath(filePath);
+      cached.fileMtimes.set(filePath, getMtime(filePath));
+    }
+
+    // The types written for the file come from its imports, which may have been loaded by an earlier parse
+    for (const dependency of sourceFile.getReferencedSourceFiles()) {
+      if (!dependency.isInNodeModules() && !dependency.isFromExternalLibrary()) {
+        refreshIfChanged(cached, dependency);
+      }
+    }
+
+    return sourceFile;
+  }
+
+  /**
+   * Get the project of a configuration file, creating it or recreating it if the file changed
+   * @param configPath Path of the configuration file, or '' for files without one
+   */
+  private getProject(configPath: string): CachedProject {
+    const configMtime = configPath ? fs.statSync(configPath).mtimeMs : 0;
+
+    let cached = this.projects.get(configPath);
+    this.projects.delete(configPath);
+    if (!cached || cached.configMtime !== configMtime) {
+      cached = { project: createProject(configPath), configMtime, fileMtimes: new Map() };
+    }
+
+    // Reinsert as the most recently used, then drop the least recently used ones
+    this.projects.set(configPath, cached);
+    for (const key of this.projects.keys()) {
+      if (this.projects.size <= MAX_PROJECTS) {
+        break;
+      }
+      this.projects.delete(key);
+    }
+
+    return cached;
+  }
+}
+
+/**
+ * Re-read a file of a project if it changed since the project last read it
+ * @param cached The project
+ * @param sourceFile The file
+ */
+function refreshIfChanged(cached: CachedProject, sourceFile: SourceFile): void {
+  const filePath = sourceFile.getFilePath();
+  const mtime = getMtime(filePath);
+
+  if (cached.fileMtimes.get(filePath) !== mtime) {
+    // Removes the file from the project if it was deleted
+    sourceFile.refreshFromFileSystemSync();
+    cached.fileMtimes.set(filePath, mtime);
+  }
+}
+
+/**
+ * Get the modification time of a file
+ * @returns The time, or -1 if the file does not exist
+ */
+function getMtime(filePath: string): number {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return -1;
+  }
+}
+
+/**
+ * Find the configuration file that applies to a directory
+ * @param dir Directory to start from
+ * @returns Path of the nearest tsconfig.json or jsconfig.json, or '' if there is none
+ */
+function findConfigFile(dir: string): string {
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const configPath = path.join(dir, name);
+      if (fs.existsSync(configPath)) {
+        return configPath;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return '';
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Create a project that loads files on demand
+ * @param configPath Path of the configuration file, or '' for the default options
+ */
+function createProject(configPath: string): Project {
+  if (!configPath) {
+    return new Project({ compilerOptions: DEFAULT_COMPILER_OPTIONS });
+  }
+
+  try {
+    return new Project({
+      tsConfigFilePath: configPath,
+      skipAddingFilesFromTsConfig: true,
+      compilerOptions: COMPILER_OPTIONS,
+      resolutionHost: createReferenceResolutionHost(configPath)
+    });
+  } catch (error) {
+    console.error(`Could not load ${configPath}, parsing with the default options:`, (error as Error).message);
+    return new Project({ compilerOptions: DEFAULT_COMPILER_OPTIONS });
+  }
+}
+
+/**
+ * Create a module resolution host that resolves imports of referenced projects to their sources
+ * instead of their (possibly not yet built) declaration files, as the compiler does in a build
+ * with project references
+ * @param configPath Path of the configuration file
+ * @returns The resolution host factory, or undefined if the configuration has no references
+ */
+function createReferenceResolutionHost(configPath: string): ResolutionHostFactory | undefined {
+  const sources = getReferencedSources(configPath);
+  if (sources.size === 0) {
+    return undefined;
+  }
+
+  // Directories of the declaration files, so that resolution looks into them before they are built
+  const outputDirs = new Set<string>();
+  for (const declaration of sources.keys()) {
+    for (let dir = path.dirname(declaration); !outputDirs.has(dir) && dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      outputDirs.add(dir);
+    }
+  }
+
+  return (moduleResolutionHost, getCompilerOptions) => {
+    // The declaration files need not exist
+    const host: ts.ModuleResolutionHost = {
+      fileExists: fileName => sources.has(toRealPath(fileName)) || moduleResolutionHost.fileExists(fileName),
+      readFile: fileName => moduleResolutionHost.readFile(fileName),
+      directoryExists: dirName => outputDirs.has(toRealPath(dirName)) || moduleResolutionHost.directoryExists?.(dirName) !== false,
+      realpath: moduleResolutionHost.realpath && (fileName => moduleResolutionHost.realpath!(fileName)),
+      getCurrentDirectory: moduleResolutionHost.getCurrentDirectory && (() => moduleResolutionHost.getCurrentDirectory!()),
+      getDirectories: moduleResolutionHost.getDirectories && (dirName => moduleResolutionHost.getDirectories!(dirName))
+    };
+
+    return {
+      resolveModuleNames: (moduleNames, containingFile) => moduleNames.map(moduleName => {
+        const { resolvedModule } = ts.resolveModuleName(moduleName, containingFile, getCompilerOptions(), host);
+        const source = resolvedModule && sources.get(toRealPath(resolvedModule.resolvedFileName));
+        if (!resolvedModule || !source) {
+          return resolvedModule;
+        }
+
+        return {
+          ...resolvedModule,
+          resolvedFileName: source,
+          extension: path.extname(source) as ts.Extension,
+          isExternalLibraryImport: false
+        };
+      })
+    };
+  };
+}
+
+/**
+ * Map the declaration files the projects referenced by a configuration emit to the sources they are built from
+ * @param configPath Path of the configuration file
+ * @returns Absolute path of each declaration file -> source file
+ */
+function getReferencedSources(configPath: string): Map<string, string> {
+  const sources = new Map<string, string>();
+  const parseHost: ts.ParseConfigFileHost = { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} };
+  const config = ts.getParsedCommandLineOfConfigFile(configPath, undefined, parseHost);
+
+  for (const reference of config?.projectReferences || []) {
+    const referenced = ts.getParsedCommandLineOfConfigFile(ts.resolveProjectReferencePath(reference), undefined, parseHost);
+    for (const fileName of referenced?.fileNames || []) {
+      const declaration = ts.getOutputFileNames(referenced!, fileName, !ts.sys.useCaseSensitiveFileNames)
+        .find(output => output.endsWith('.d.ts'));
+      if (declaration && !fileName.endsWith('.d.ts')) {
+        sources.set(toRealPath(declaration), path.resolve(fileName));
+      }
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Resolve the symbolic links in a path that may not exist yet (e.g. an unbuilt declaration file
+ * reached through a workspace package's link in node_modules)
+ * @param fileName Path to resolve
+ * @returns The real path of the nearest existing ancestor, followed by the rest of the path
+ */
+function toRealPath(fileName: string): string {
+  const resolved = path.resolve(fileName);
+  try {
+    return fs.realpathSync(resolved);
+  } catch {
+    const parent = path.dirname(resolved);
+    return parent === resolved ? resolved : path.join(toRealPath(parent), path.basename(resolved));
+  }
+}
+
+/**
+ * Write a type as it would be spelled at a declaration: names in scope there (including imports
+ * through `paths` aliases) are kept, types from other modules are written without their module
+ * @param type Type to write
+ * @param enclosingNode Declaration the type belongs to
+ */
+export function getTypeText(type: Type, enclosingNode: Node): string {
+  const flags = Node.isTypeAliasDeclaration(enclosingNode) ? TYPE_FORMAT_FLAGS | TypeFormatFlags.InTypeAlias : TYPE_FORMAT_FLAGS;
+  return type.getText(enclosingNode, flags);
+}
+
+/**
+ * Projects shared by the parsers of this thread
+ */
+export const tsProjects = new TsProjectCache();
@@ -1,16 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
+import { SourceFile, SyntaxKind, Node } from 'ts-morph';
 import { 
   FileDocResponse, FunctionDoc, ClassDoc, InterfaceDoc, 
   TypeAliasDoc, RouteDoc, MethodDoc, PropertyDoc, ErrorResponse 
 } from '../types';
-import { FileParser } from './index';
+import { FileParser, ParserCapabilities } from './index';
+import { getNodeLocation } from './sourceLocation';
+import { getTypeText, tsProjects } from './tsProjects';
 
 /**
  * Parser for TypeScript files
  */
 export class TypeScriptParser implements FileParser {
+  readonly name = 'typescript';
+  readonly version = '3';
+  readonly capabilities: ParserCapabilities = {
+    extensions: ['ts', 'tsx'],
+    symbolKinds: ['function', 'class', 'method', 'property', 'interface', 'type', 'route']
+  };
+
   /**
    * Check if this parser supports the given file
    * @param filePath Path to the file
@@ -36,21 +45,18 @@ export class TypeScriptParser implements FileParser {
     }
 
     try {
-      // Create a ts-morph Project
-      const project = new Project();
-      
-      // Add the file to the project
-      const sourceFile = project.addSourceFileAtPath(filePath);
+      // Load the file into the long-lived project of its tsconfig.json or jsconfig.json
+      const sourceFile = tsProjects.getSourceFile(filePath);
       
-      // Parse the file
-      const result: FileDocResponse = {
+      // Parse the file, releasing the node wrappers afterwards since the project outlives this parse
+      const result: FileDocResponse = sourceFile.getProject().forgetNodesCreatedInBlock(() => ({
         filePath,
         functions: this.extractFunctions(sourceFile),
         classes: this.extractClasses(sourceFile),
         interfaces: this.extractInterfaces(sourceFile),
         typeAliases: this.extractTypeAliases(sourceFile),
         routes: this.extractRoutes(sourceFile)
-      };
+      }));
 
       // Clean up empty arrays
       Object.keys(result).forEach(key => {
@@ -85,7 +91,7 @@ export class TypeScriptParser implements FileParser {
       const params = func.getParameters().map(param => param.getName());
       
       // Get return type
-      const returnType = func.getReturnType().getText();
+      const returnType = getTypeText(func.getReturnType(), func);
       
       // Get JSDoc description if available
       const jsDocs = func.getJsDocs();
@@ -103,7 +109,8 @@ export class TypeScriptParser implements FileParser {
         params,
         returnType,
         description,
-        exported
+        exported,
+        location: getNodeLocation(func, func.getNameNode())
       });
     }
     
@@ -137,7 +144,7 @@ export class TypeScriptParser implements FileParser {
       const methods: MethodDoc[] = cls.getMethods().map(method => {
         const methodName = method.getName();
         const params = method.getParameters().map(param => param.getName());
-        const returnType = method.getReturnType().getText();
+        const returnType = getTypeText(method.getReturnType(), method);
         
         // Get JSDoc for method
         const methodJsDocs = method.getJsDocs();
@@ -162,14 +169,15 @@ export class TypeScriptParser implements FileParser {
           params,
           returnType,
           description: methodDescription,
-          visibility
+          visibility,
+          location: getNodeLocation(method, method.getNameNode())
         };
       });
       
       // Extract properties
       const properties: PropertyDoc[] = cls.getProperties().map(prop => {
         const propName = prop.getName();
-        const propType = prop.getType().getText();
+        const propType = getTypeText(prop.getType(), prop);
         
         // Get JSDoc for property
         const propJsDocs = prop.getJsDocs();
@@ -193,7 +201,8 @@ export class TypeScriptParser implements FileParser {
           name: propName,
           type: propType,
           description: propDescription,
-          visibility
+          visibility,
+          location: getNodeLocation(prop, prop.getNameNode())
         };
       });
       
@@ -206,7 +215,8 @@ export class TypeScriptParser implements FileParser {
         exported,
         methods,
         properties,
-        isComponent
+        isComponent,
+        location: getNodeLocation(cls, cls.getNameNode())
       });
     }
     
@@ -259,7 +269,7 @@ export class TypeScriptParser implements FileParser {
       // Extract properties
       const properties: PropertyDoc[] = iface.getProperties().map(prop => {
         const propName = prop.getName();
-        const propType = prop.getType().getText();
+        const propType = getTypeText(prop.getType(), prop);
         
         // Get JSDoc for property
         const propJsDocs = prop.getJsDocs();
@@ -272,7 +282,8 @@ export class TypeScriptParser implements FileParser {
         return {
           name: propName,
           type: propType,
-          description: propDescription
+          description: propDescription,
+          location: getNodeLocation(prop, prop.getNameNode())
         };
       });
       
@@ -280,7 +291,7 @@ export class TypeScriptParser implements FileParser {
       const methods: MethodDoc[] = iface.getMethods().map(method => {
         const methodName = method.getName();
         const params = method.getParameters().map(param => param.getName());
-        const returnType = method.getReturnType().getText();
+        const returnType = getTypeText(method.getReturnType(), method);
         
         // Get JSDoc for method
         const methodJsDocs = method.getJsDocs();
@@ -294,7 +305,8 @@ export class TypeScriptParser implements FileParser {
           name: methodName,
           params,
           returnType,
-          description: methodDescription
+          description: methodDescription,
+          location: getNodeLocation(method, method.getNameNode())
         };
       });
       
@@ -303,7 +315,8 @@ export class TypeScriptParser implements FileParser {
         description,
         exported,
         properties,
-        methods
+        methods,
+        location: getNodeLocation(iface, iface.getNameNode())
       });
     }
     
@@ -321,7 +334,7 @@ export class TypeScriptParser implements FileParser {
     
     for (const typeAlias of typeAliasDeclarations) {
       const name = typeAlias.getName();
-      const type = typeAlias.getType().getText();
+      const type = getTypeText(typeAlias.getType(), typeAlias);
       
       // Get JSDoc description if available
       const jsDocs = typeAlias.getJsDocs();
@@ -338,7 +351,8 @@ export class TypeScriptParser implements FileParser {
         name,
         type,
         description,
-        exported
+        exported,
+        location: getNodeLocation(typeAlias, typeAlias.getNameNode())
       });
     }
     
@@ -386,7 +400,8 @@ export class TypeScriptParser implements FileParser {
                   method: methodName.toUpperCase(),
                   path,
                   handler,
-                  description: `${methodName.toUpperCase()} ${path}`
+                  description: `${methodName.toUpperCase()} ${path}`,
+                  location: getNodeLocation(node, pathArg)
                 });
               }
             }
@@ -406,7 +421,8 @@ export class TypeScriptParser implements FileParser {
           method: 'ANY', // NextJS handlers can handle any method by default
           path: apiPath,
           handler: 'handler',
-          description: `API route for ${apiPath}`
+          description: `API route for ${apiPath}`,
+          location: getNodeLocation(node, node.getNameNode())
         });
       }
     });
@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import type { Workspace } from './workspace';
+import { getDocForFile } from '../tools/getDocForFile';
+import { CONFIG_FILE_NAME } from '../config/mcpConfig';
+import { PACKAGE_MANIFEST_NAMES } from '../config/packages';
+import { IGNORE_FILE_NAMES } from '../config/ignoreFiles';
+import { isExcludedDirectory, isProjectFile, listProjectFiles } from '../config/projectFiles';
+
+/**
+ * Options for the file watcher
+ */
+export interface FileWatcherOptions {
+  debounceMs?: number;    // Quiet period before a burst of events is processed (default: 200)
+  maxDelayMs?: number;    // Longest an event waits during a continuous burst (default: 2000)
+}
+
+// Default debounce settings
+const DEFAULT_DEBOUNCE_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 2000;
+
+// Files whose changes alter which files belong to the project
+const SCAN_RULE_FILE_NAMES = new Set([CONFIG_FILE_NAME, ...IGNORE_FILE_NAMES]);
+
+/**
+ * Keeps the symbol registry of a workspace current by watching the project for file changes.
+ *
+ * Every directory that can contain project files gets its own watcher, so excluded
+ * trees such as node_modules cost nothing. Events are collected until the project
+ * has been quiet for a short while (a `git checkout` produces hundreds of them) and
+ * then only the affected files are re-parsed through getDocForFile.
+ */
+export class FileWatcher {
+  private baseDir: string;
+  private debounceMs: number;
+  private maxDelayMs: number;
+  private watchers = new Map<string, fs.FSWatcher>();  // Directory -> watcher
+  private pending = new Set<string>();                  // Paths with unprocessed events
+  private timer?: NodeJS.Timeout;
+  private firstPendingAt = 0;
+  private processing: Promise<void> = Promise.resolve();
+  private active = false;
+  private needsReconcile = false;   // Check tracked files against the disk and the scan rules
+  private needsDiscovery = false;   // Look for files the scan rules now include
+
+  /**
+   * @param workspace Workspace whose root is watched and whose registry is updated
+   * @param options Debounce settings
+   */
+  constructor(private workspace: Workspace, options: FileWatcherOptions = {}) {
+    this.baseDir = workspace.root;
+    this.debounceMs = options.debounceMs !== undefined ? options.debounceMs : DEFAULT_DEBOUNCE_MS;
+    this.maxDelayMs = options.maxDelayMs !== undefined ? options.maxDelayMs : DEFAULT_MAX_DELAY_MS;
+  }
+
+  /**
+   * Start watching the project
+   * @returns Whether watching could be started (callers fall back to polling otherwise)
+   */
+  start(): boolean {
+    if (this.active) {
+      return true;
+    }
+
+    try {
+      this.watchTree(this.baseDir);
+    } catch (error) {
+      console.error('Could not start file watcher, falling back to polling:', (error as Error).message);
+      this.closeWatchers();
+      return false;
+    }
+
+    this.active = true;
+
+    // Catch up with changes made while the server was not running
+    this.needsReconcile = true;
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Stop watching; pending events are discarded
+   */
+  stop(): void {
+    this.active = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+    this.closeWatchers();
+  }
+
+  /**
+   * Whether the watcher is running
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Process pending events now instead of waiting for the debounce period.
+   * While another process writes the registry, events are kept until this process takes it over.
+   * @returns Resolves once every event received so far has been applied to the registry
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const hasWork = this.pending.size > 0 || this.needsReconcile || this.needsDiscovery;
+    if (hasWork && !this.workspace.registry.isReadOnly()) {
+      const paths = Array.from(this.pending);
+      const reconcile = this.needsReconcile;
+      const discover = this.needsDiscovery;
+      this.pending.clear();
+      this.needsReconcile = false;
+      this.needsDiscovery = false;
+
+      this.processing = this.processing
+        .then(() => this.workspace.registry.batch(() => this.processBatch(paths, reconcile, discover)))
+        .catch(error => console.error('Error applying file changes:', error));
+    }
+
+    return this.processing;
+  }
+
+  /**
+   * Record an event and (re)start the debounce timer
+   * @param changedPath Absolute path reported by a directory watcher
+   */
+  private enqueue(changedPath: string): void {
+    if (!this.active) {
+      return;
+    }
+
+    const fileName = path.basename(changedPath);
+    if (SCAN_RULE_FILE_NAMES.has(fileName)) {
+      this.needsReconcile = true;
+      this.needsDiscovery = true;
+    } else {
+      // A changed manifest can move files to another package or version, which reconciling picks up
+      if (PACKAGE_MANIFEST_NAMES.has(fileName)) {
+        this.workspace.packages.invalidate();
+        this.needsReconcile = true;
+      }
+      this.pending.add(changedPath);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Arrange for pending events to be processed once the project is quiet
+   */
+  private schedule(): void {
+    const now = Date.now();
+    if (!this.timer) {
+      this.firstPendingAt = now;
+    } else {
+      clearTimeout(this.timer);
+    }
+
+    // Don't let a continuous stream of events postpone processing forever
+    const delay = Math.max(0, Math.min(this.debounceMs, this.firstPendingAt + this.maxDelayMs - now));
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Apply a batch of events to the registry
+   * @param paths Paths with events
+   * @param reconcile Whether to check every tracked file
+   * @param discover Whether to search the whole project for newly included files
+   */
+  private async processBatch(paths: string[], reconcile: boolean, discover: boolean): Promise<void> {
+    const { registry, config } = this.workspace;
+    const filesToParse = new Set<string>();
+    const filesToRebuild = new Set<string>();   // Parsed even if they look unchanged
+
+    if (reconcile) {
+      registry.cleanupDeletedFiles();
+      for (const filePath of registry.getExcludedTrackedFiles()) {
+        registry.forgetFile(filePath);
+      }
+      (await registry.getFilesNeedingRefresh()).forEach(file => filesToParse.add(file));
+
+      // The persisted registry was lost: parse everything again
+      if (registry.isRebuildNeeded()) {
+        (await registry.fullScan(this.baseDir)).forEach(file => filesToRebuild.add(file));
+      }
+    }
+
+    if (discover) {
+      // The scan rules changed: stop watching newly excluded directories and start watching newly included ones
+      for (const watchedDir of Array.from(this.watchers.keys())) {
+        if (this.isExcluded(watchedDir)) {
+          this.unwatchTree(watchedDir);
+        }
+      }
+      this.watchTree(this.baseDir);
+      (await listProjectFiles(config)).forEach(file => filesToParse.add(file));
+    }
+
+    for (const changedPath of paths) {
+      const stats = tryStat(changedPath);
+
+      if (stats?.isDirectory()) {
+        // A directory appeared (created, renamed or checked out): watch it and pick up its files
+        if (!this.isExcluded(changedPath)) {
+          try {
+            this.watchTree(changedPath);
+          } catch (error) {
+            console.error(`Could not watch ${changedPath}:`, (error as Error).message);
+          }
+          (await listProjectFiles(config, { baseDir: changedPath })).forEach(file => filesToParse.add(file));
+        }
+      } else if (stats) {
+        filesToParse.add(changedPath);
+      } else {
+        // Deleted or renamed away: drop the file, or everything tracked below the directory
+        this.unwatchTree(changedPath);
+        const prefix = changedPath + path.sep;
+        for (const filePath of registry.getTrackedFiles()) {
+          if (filePath === changedPath || filePath.startsWith(prefix)) {
+            registry.removeFileSymbols(filePath);
+          }
+        }
+      }
+    }
+
+    for (const filePath of new Set([...filesToRebuild, ...filesToParse])) {
+      if (isProjectFile(filePath, config) && (filesToRebuild.has(filePath) || registry.fileNeedsRefresh(filePath))) {
+        await getDocForFile({ file: filePath }, { workspace: this.workspace });
+        await yieldToEventLoop();
+      }
+    }
+  }
+
+  /**
+   * Watch a directory and every non-excluded directory below it
+   * @param dirPath Absolute directory path
+   */
+  private watchTree(dirPath: string): void {
+    if (this.isExcluded(dirPath)) {
+      return;
+    }
+
+    if (!this.watchers.has(dirPath)) {
+      const watcher = fs.watch(dirPath, { persistent: false }, (_eventType, fileName) => {
+        this.enqueue(fileName ? path.join(dirPath, fileName.toString()) : dirPath);
+      });
+      watcher.on('error', () => {
+        // The directory was most likely removed; its parent reports that
+        watcher.close();
+        this.watchers.delete(dirPath);
+      });
+      this.watchers.set(dirPath, watcher);
+    }
+
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        this.watchTree(path.join(dirPath, entry.name));
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory and everything below it
+   * @param dirPath Absolute directory path
+   */
+  private unwatchTree(dirPath: string): void {
+    const prefix = dirPath + path.sep;
+    for (const [watchedDir, watcher] of this.watchers) {
+      if (watchedDir === dirPath || watchedDir.startsWith(prefix)) {
+        watcher.close();
+        this.watchers.delete(watchedDir);
+      }
+    }
+  }
+
+  /**
+   * Whether nothing below a directory can be part of the project
+   */
+  private isExcluded(dirPath: string): boolean {
+    return isExcludedDirectory(dirPath, this.workspace.config.getConfig(), this.baseDir);
+  }
+
+  private closeWatchers(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+}
+
+/**
+ * Stat a path, returning undefined if it does not exist
+ */
+function tryStat(filePath: string): fs.Stats | undefined {
+  try {
+    return fs.statSync(filePath);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,110 @@
+// SymbolType is only read when a migration runs: this module is loaded while symbolRegistry is still initializing
+import { FileTrackingInfo, RegistryState, SymbolType } from './symbolRegistry';
+
+/**
+ * Version of the persisted registry layout.
+ * Bump it and add a migration below whenever SymbolInfo, FileTrackingInfo or RegistryState change shape.
+ */
+export const REGISTRY_SCHEMA_VERSION = 5;
+
+/**
+ * Step upgrading a persisted registry from one schema version to the next
+ */
+interface Migration {
+  from: number;           // Version the migration upgrades from (to from + 1)
+  description: string;    // What changed, for the log
+  migrate(state: RegistryState): RegistryState;
+}
+
+/**
+ * Error thrown when a registry was written by a newer version of the server
+ */
+export class UnsupportedRegistryVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`registry schema version ${version} is newer than the supported version ${REGISTRY_SCHEMA_VERSION}`);
+    this.name = 'UnsupportedRegistryVersionError';
+  }
+}
+
+// Ordered migrations; migrations[i] upgrades version i + 1
+const migrations: Migration[] = [
+  {
+    from: 1,
+    description: 'drop malformed symbols and complete file tracking entries',
+    migrate: state => {
+      const symbolTypes = new Set<string>(Object.values(SymbolType));
+      return {
+        ...state,
+        // Unversioned registries could hold symbols of removed types or without a name or file
+        symbols: state.symbols.filter(symbol =>
+          symbol &&
+          typeof symbol.symbol === 'string' &&
+          typeof symbol.file === 'string' &&
+          symbolTypes.has(symbol.type)
+        ),
+        // Missing timestamps are set to 0 so the file is re-parsed on the next refresh
+        files: state.files
+          .filter(file => file && typeof file.path === 'string')
+          .map(file => ({
+            path: file.path,
+            lastParsed: typeof file.lastParsed === 'number' ? file.lastParsed : 0,
+            lastModified: typeof file.lastModified === 'number' ? file.lastModified : 0,
+            exists: file.exists !== false
+          } as FileTrackingInfo)),
+        lastFullRefresh: typeof state.lastFullRefresh === 'number' ? state.lastFullRefresh : 0
+      };
+    }
+  },
+  {
+    from: 2,
+    description: 'add content size and hash to file tracking entries',
+    // The content hash is unknown until the file is next read; until then changes are detected by modification time
+    migrate: state => ({
+      ...state,
+      files: state.files.map(file => ({ ...file, size: file.size ?? -1, hash: file.hash ?? '' }))
+    })
+  },
+  {
+    from: 3,
+    description: 'record the package of tracked files',
+    // Files recorded outside any package that are in fact inside one are re-parsed, which tags their symbols
+    migrate: state => ({
+      ...state,
+      files: state.files.map(file => ({ ...file, package: file.package ?? '' }))
+    })
+  },
+  {
+    from: 4,
+    description: 'give symbols stable ids and qualified names',
+    // Both are derived from the file path relative to the workspace root, which the registry does not record,
+    // so every file is re-parsed on the next refresh; until then its symbols are found by name only
+    migrate: state => ({
+      ...state,
+      files: state.files.map(file => ({ ...file, lastParsed: 0 }))
+    })
+  }
+];
+
+/**
+ * Upgrade a persisted registry to the current schema version.
+ * Registries without a version predate versioning and count as version 1.
+ * @param state Registry state as loaded
+ * @returns The upgraded state
+ * @throws UnsupportedRegistryVersionError if the registry is newer than this server
+ */
+export function migrateRegistryState(state: RegistryState): RegistryState {
+  let version = state.version ?? 1;
+  if (version > REGISTRY_SCHEMA_VERSION) {
+    throw new UnsupportedRegistryVersionError(version);
+  }
+
+  let migrated = state;
+  while (version < REGISTRY_SCHEMA_VERSION) {
+    const migration = migrations[version - 1];
+    console.error(`Migrating symbol registry from schema version ${version}: ${migration.description}`);
+    migrated = migration.migrate(migrated);
+    version++;
+  }
+
+  return { ...migrated, version };
+}
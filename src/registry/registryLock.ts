@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// File name of the lock next to the persisted registry
+const LOCK_FILE_NAME = '.symbol-registry.lock';
+
+/**
+ * How long a lease lasts without being renewed; the owner renews it every few seconds,
+ * so only a process that died (or hung) lets it run out
+ */
+export const LEASE_TIMEOUT_MS = 60000;
+
+/**
+ * Contents of the lock file: the process that writes the registry
+ */
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: number;     // When the lease was acquired (ms since epoch)
+  token: string;          // Identifies the lease, so a process can tell its own lease from a successor's
+}
+
+/**
+ * Lease on the registry of a directory, so only one server process writes it at a time.
+ *
+ * The lease is a lock file created exclusively. Its owner renews it by touching the file;
+ * other processes take it over once the owner has exited, or has not renewed it for
+ * LEASE_TIMEOUT_MS (e.g. on another host sharing the directory).
+ */
+export class RegistryLock {
+  private readonly lockPath: string;
+  private readonly token = crypto.randomBytes(8).toString('hex');
+  private held = false;
+  private unlocked = false;   // The lock file could not be created; the registry is written without a lease
+
+  /**
+   * @param registryDir Directory holding the registry
+   */
+  constructor(registryDir: string) {
+    this.lockPath = path.join(registryDir, LOCK_FILE_NAME);
+  }
+
+  /**
+   * Acquire the lease unless another live process holds it
+   * @returns Whether this process now holds the lease
+   */
+  tryAcquire(): boolean {
+    if (this.held) {
+      return this.renew();
+    }
+
+    // A second attempt follows removing a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now(), token: this.token };
+        fs.writeFileSync(this.lockPath, JSON.stringify(owner), { flag: 'wx' });
+        this.held = true;
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          // Without a lock file (e.g. a read-only directory) there is nothing to coordinate on
+          if (!this.unlocked) {
+            console.error(`Could not create registry lock ${this.lockPath}, writing without it:`, (error as Error).message);
+          }
+          this.held = true;
+          this.unlocked = true;
+          return true;
+        }
+      }
+
+      if (!this.removeIfStale()) {
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Renew the lease
+   * @returns Whether this process still holds it (false once another process took it over)
+   */
+  renew(): boolean {
+    if (!this.held) {
+      return false;
+    }
+    if (this.unlocked) {
+      return true;
+    }
+
+    if (this.readOwner()?.token !== this.token) {
+      this.held = false;
+      return false;
+    }
+
+    try {
+      const now = new Date();
+      fs.utimesSync(this.lockPath, now, now);
+    } catch (error) {
+      console.error(`Could not renew registry lock ${this.lockPath}:`, (error as Error).message);
+    }
+    return true;
+  }
+
+  /**
+   * Give up the lease, if this process holds it
+   */
+  release(): void {
+    if (this.held && !this.unlocked && this.readOwner()?.token === this.token) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+    this.held = false;
+  }
+
+  /**
+   * Whether this process holds the lease
+   */
+  isHeld(): boolean {
+    return this.held;
+  }
+
+  /**
+   * Get the process holding the lease
+   * @returns The owner, or undefined if the lock file does not exist or cannot be read
+   */
+  readOwner(): LockOwner | undefined {
+    try {
+      const owner = JSON.parse(fs.readFileSync(this.lockPath, 'utf8'));
+      return owner && typeof owner === 'object' && typeof owner.token === 'string' ? owner : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove the lock file if its owner is gone
+   * @returns Whether the lock is free now
+   */
+  private removeIfStale(): boolean {
+    const stats = fs.statSync(this.lockPath, { throwIfNoEntry: false });
+    if (!stats) {
+      return true;  // Released in the meantime
+    }
+
+    // A lock file that cannot be parsed is being written right now, unless it is old
+    const owner = this.readOwner();
+    const expired = Date.now() - stats.mtimeMs > LEASE_TIMEOUT_MS;
+    const ownerDied = owner !== undefined && owner.hostname === os.hostname() && !isProcessAlive(owner.pid);
+    if (!expired && !ownerDied) {
+      return false;
+    }
+
+    // Only remove the lock that was examined, not one a competing process has just created
+    if (this.readOwner()?.token !== owner?.token) {
+      return false;
+    }
+    fs.rmSync(this.lockPath, { force: true });
+    console.error(`Taking over the registry lock of process ${owner ? owner.pid : 'unknown'}, which ${ownerDied ? 'has exited' : 'stopped renewing it'}`);
+    return true;
+  }
+}
+
+/**
+ * Whether a process of this host is running
+ * @param pid Process id
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import type { FileTrackingInfo, RegistryState, SymbolInfo, SymbolType } from '../symbolRegistry';
+
+/**
+ * Filter applied by a store when searching symbols
+ */
+export interface SymbolFilter {
+  term: string;               // Text to match against symbol names
+  exactMatch: boolean;        // Require the name to equal the term (case-sensitive) instead of containing it
+  matchDescription?: boolean; // Also accept symbols whose description contains the term
+  type?: SymbolType;          // Only symbols of this type
+  file?: string;              // Only symbols whose file path contains this text
+  package?: string;           // Only symbols of the package with this name
+  includePrivate: boolean;    // Include private symbols (private visibility or a name starting with _ or #)
+}
+
+/**
+ * Storage backend of the symbol registry.
+ *
+ * A store holds the symbols and the file tracking information and persists them.
+ * All lookups return symbols in registration order. Changes made between
+ * beginBatch() and endBatch() may be persisted together when the batch ends.
+ */
+export interface SymbolStore {
+  /**
+   * Short identifier of the backend (e.g. "json"), used in reports
+   */
+  readonly name: string;
+
+  /**
+   * Replace the symbols of a file; symbols with the same file, type, parent and name are merged
+   * @param filePath Absolute file path
+   * @param symbols New symbols of the file
+   */
+  replaceFileSymbols(filePath: string, symbols: SymbolInfo[]): void;
+
+  /**
+   * Add a symbol, or merge it into the registered symbol with the same file, type, parent and name
+   * @param symbol Symbol information
+   */
+  upsertSymbol(symbol: SymbolInfo): void;
+
+  /**
+   * Remove every symbol of a file
+   * @param filePath Absolute file path
+   * @returns Whether the file had any symbols
+   */
+  removeFileSymbols(filePath: string): boolean;
+
+  /**
+   * Find the symbols matching a filter
+   * @param filter Search filter
+   * @returns Matching symbols, in registration order
+   */
+  findSymbols(filter: SymbolFilter): SymbolInfo[];
+
+  /**
+   * Find a symbol by its stable id
+   * @param id Stable id
+   */
+  getSymbolById(id: string): SymbolInfo | undefined;
+
+  /**
+   * Exact-match lookups, each returning symbols in registration order
+   */
+  getFileSymbols(filePath: string): SymbolInfo[];
+  getSymbolsByName(name: string): SymbolInfo[];
+  getSymbolsByQualifiedName(qualifiedName: string): SymbolInfo[];
+  getSymbolsByNameIgnoreCase(name: string): SymbolInfo[];
+  getSymbolsByType(type: SymbolType): SymbolInfo[];
+  getSymbolsByParent(parentSymbol: string): SymbolInfo[];
+  getAllSymbols(): SymbolInfo[];
+
+  /**
+   * Get the number of stored symbols
+   */
+  getSymbolCount(): number;
+
+  /**
+   * Get the tracking information of a file
+   * @param filePath Absolute file path
+   */
+  getFile(filePath: string): FileTrackingInfo | undefined;
+
+  /**
+   * Add or replace the tracking information of a file
+   * @param file Tracking information
+   */
+  setFile(file: FileTrackingInfo): void;
+
+  /**
+   * Stop tracking a file (its symbols are not touched)
+   * @param filePath Absolute file path
+   */
+  deleteFile(filePath: string): void;
+
+  /**
+   * Get the tracking information of all files
+   */
+  getFiles(): FileTrackingInfo[];
+
+  /**
+   * Get a stored metadata value (e.g. when the last full scan happened)
+   * @param key Metadata key
+   */
+  getMetadata(key: string): string | undefined;
+
+  /**
+   * Store a metadata value
+   * @param key Metadata key
+   * @param value Value to store
+   */
+  setMetadata(key: string, value: string): void;
+
+  /**
+   * Add the contents of a registry exported by another store
+   * @param state Registry state
+   */
+  importState(state: RegistryState): void;
+
+  /**
+   * Start a batch of changes
+   */
+  beginBatch(): void;
+
+  /**
+   * End the batch started last; the changes are persisted once the outermost batch ends
+   */
+  endBatch(): void;
+
+  /**
+   * Persist the changes made outside a batch
+   */
+  save(): void;
+
+  /**
+   * Persist every pending change now, even inside a batch (e.g. before the process exits)
+   */
+  flush(): void;
+
+  /**
+   * Whether another process changed the persisted registry since this store read it or last wrote it
+   */
+  hasExternalChanges(): boolean;
+
+  /**
+   * Release the store's resources; changes not persisted yet are discarded
+   */
+  close(): void;
+
+  /**
+   * Remove all symbols, files and metadata
+   */
+  clear(): void;
+}
+
+/**
+ * Result of opening a store
+ */
+export interface OpenedStore {
+  store: SymbolStore;
+  recovered: boolean;         // The persisted data was unreadable and has been quarantined; the registry must be rebuilt
+}
+
+/**
+ * Whether a symbol counts as private for searches
+ * @param symbol Symbol information
+ */
+export function isPrivateSymbol(symbol: SymbolInfo): boolean {
+  return symbol.metadata?.visibility === 'private' ||
+    symbol.symbol.startsWith('_') ||
+    symbol.symbol.startsWith('#');
+}
+
+/**
+ * Whether a symbol passes the parts of a filter other than the search term
+ * @param symbol Symbol information
+ * @param filter Search filter
+ */
+export function matchesSymbolFilter(symbol: SymbolInfo, filter: SymbolFilter): boolean {
+  return (!filter.type || symbol.type === filter.type) &&
+    (!filter.file || symbol.file.includes(filter.file)) &&
+    (!filter.package || symbol.package === filter.package) &&
+    (filter.includePrivate || !isPrivateSymbol(symbol));
+}
+
+/**
+ * Key identifying a symbol; registering a symbol with the same key updates it
+ * @param symbol Symbol information
+ */
+export function identityKey(symbol: SymbolInfo): string {
+  return [symbol.file, symbol.type, symbol.parentSymbol || '', symbol.symbol].join('\0');
+}
+
+/**
+ * Move an unreadable registry file aside so it is neither loaded nor overwritten
+ * @param filePath Path of the file
+ * @param reason Why the file could not be read
+ */
+export function quarantineFile(filePath: string, reason: string): void {
+  const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+  try {
+    fs.renameSync(filePath, quarantinePath);
+    console.error(`Symbol registry ${filePath} is corrupt (${reason}); moved to ${quarantinePath}, rebuilding`);
+  } catch (error) {
+    console.error(`Symbol registry ${filePath} is corrupt (${reason}) and could not be moved aside:`, (error as Error).message);
+  }
+}
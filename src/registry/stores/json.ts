@@ -0,0 +1,457 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type { FileTrackingInfo, RegistryState, SymbolInfo, SymbolType } from '../symbolRegistry';
+import { ConfigManager } from '../../config/mcpConfig';
+import { OpenedStore, SymbolFilter, SymbolStore, identityKey, matchesSymbolFilter, quarantineFile } from './index';
+import { REGISTRY_SCHEMA_VERSION, migrateRegistryState } from '../migrations';
+
+/**
+ * Result of loading the persisted registry
+ */
+export interface LoadedRegistry {
+  state: RegistryState;
+  recovered: boolean;     // The file was unreadable and has been quarantined; the registry must be rebuilt
+}
+
+// File names of the persisted registry, plain and gzip-compressed
+const REGISTRY_FILE_NAME = '.symbol-registry.json';
+const COMPRESSED_SUFFIX = '.gz';
+
+/**
+ * Get the path the registry is stored at
+ * @param baseDir Directory holding the registry
+ * @param compressed Whether the gzip-compressed file is meant
+ */
+export function getRegistryFilePath(baseDir: string, compressed: boolean): string {
+  const filePath = path.join(baseDir, REGISTRY_FILE_NAME);
+  return compressed ? filePath + COMPRESSED_SUFFIX : filePath;
+}
+
+/**
+ * Create an empty registry state
+ */
+export function emptyRegistryState(): RegistryState {
+  return { version: REGISTRY_SCHEMA_VERSION, symbols: [], files: [], lastFullRefresh: 0 };
+}
+
+/**
+ * Get a value that changes whenever the persisted registry is replaced (in either format)
+ * @param baseDir Directory holding the registry
+ */
+export function getRegistryFileStamp(baseDir: string): string {
+  return [false, true]
+    .map(isCompressed => fs.statSync(getRegistryFilePath(baseDir, isCompressed), { throwIfNoEntry: false }))
+    .map(stats => stats ? `${stats.ino}:${stats.size}:${stats.mtimeMs}` : '-')
+    .join('/');
+}
+
+/**
+ * Load the persisted registry.
+ * The file in the configured format is preferred, so switching compression on or off keeps the registry.
+ * Files written with an older schema version are migrated to the current one.
+ * An unreadable file (or one written by a newer server) is moved aside (quarantined) instead of being overwritten,
+ * and the caller is told to rebuild.
+ * @param baseDir Directory holding the registry
+ * @param compressed Whether the registry is configured to be compressed
+ * @param readOnly Whether another process owns the registry; an unreadable file is then left in place and read as empty
+ */
+export function loadRegistryFile(baseDir: string, compressed: boolean, readOnly: boolean = false): LoadedRegistry {
+  const candidates = [compressed, !compressed]
+    .map(isCompressed => ({ isCompressed, filePath: getRegistryFilePath(baseDir, isCompressed) }))
+    .filter(candidate => fs.existsSync(candidate.filePath));
+
+  if (candidates.length === 0) {
+    return { state: emptyRegistryState(), recovered: false };
+  }
+
+  const { isCompressed, filePath } = candidates[0];
+  try {
+    const data = fs.readFileSync(filePath);
+    const text = isCompressed ? zlib.gunzipSync(data).toString('utf8') : data.toString('utf8');
+    const state = JSON.parse(text);
+
+    if (!state || typeof state !== 'object' || !Array.isArray(state.symbols) || !Array.isArray(state.files)) {
+      throw new Error('missing "symbols" or "files" array');
+    }
+
+    return { state: migrateRegistryState(state), recovered: false };
+  } catch (error) {
+    if (readOnly) {
+      console.error(`Could not read symbol registry ${filePath}:`, (error as Error).message);
+      return { state: emptyRegistryState(), recovered: false };
+    }
+    quarantineFile(filePath, (error as Error).message);
+    return { state: emptyRegistryState(), recovered: true };
+  }
+}
+
+/**
+ * Write the registry atomically: the data goes to a temporary file that then replaces the registry,
+ * so a crash mid-write leaves the previous version intact
+ * @param baseDir Directory holding the registry
+ * @param state Registry state to store
+ * @param compressed Whether to gzip the file
+ */
+export function saveRegistryFile(baseDir: string, state: RegistryState, compressed: boolean): void {
+  const filePath = getRegistryFilePath(baseDir, compressed);
+  const json = JSON.stringify(state);
+  const data = compressed ? zlib.gzipSync(json) : json;
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  // Remove the file in the other format so a stale copy is never loaded
+  fs.rmSync(getRegistryFilePath(baseDir, !compressed), { force: true });
+}
+
+/**
+ * Index from a key (name, file, ...) to the ids of the symbols with that key
+ */
+type SymbolIndex<K> = Map<K, Set<number>>;
+
+function addToIndex<K>(index: SymbolIndex<K>, key: K, id: number): void {
+  let ids = index.get(key);
+  if (!ids) {
+    ids = new Set();
+    index.set(key, ids);
+  }
+  ids.add(id);
+}
+
+function removeFromIndex<K>(index: SymbolIndex<K>, key: K, id: number): void {
+  const ids = index.get(key);
+  if (ids) {
+    ids.delete(id);
+    if (ids.size === 0) {
+      index.delete(key);
+    }
+  }
+}
+
+// Metadata key mapped to the top-level lastFullRefresh field of the file
+const LAST_FULL_REFRESH_KEY = 'lastFullRefresh';
+
+/**
+ * Store keeping the whole registry in memory, indexed by name, file, type and parent,
+ * and persisting it as one JSON file (optionally gzip-compressed)
+ */
+export class JsonSymbolStore implements SymbolStore {
+  readonly name = 'json';
+
+  // Symbols by id; ids only grow, so iterating the map yields symbols in registration order
+  private symbols = new Map<number, SymbolInfo>();
+  private nextSymbolId = 0;
+  private symbolIds = new Map<string, number>();      // Identity key -> id
+  private byName: SymbolIndex<string> = new Map();
+  private byLowerName: SymbolIndex<string> = new Map();
+  private byFile: SymbolIndex<string> = new Map();
+  private byType: SymbolIndex<SymbolType> = new Map();
+  private byParent: SymbolIndex<string> = new Map();
+  private byStableId = new Map<string, number>();
+  private byQualifiedName: SymbolIndex<string> = new Map();
+  private files = new Map<string, FileTrackingInfo>();  // Absolute path -> tracking info
+  private metadata = new Map<string, string>();
+  private batchDepth = 0;
+  private dirty = false;
+  private fileStamp = '';   // Stamp of the registry file as last read or written
+
+  /**
+   * @param baseDir Directory holding the registry
+   * @param project Configuration of the project, which says whether to compress the file
+   */
+  constructor(private baseDir: string, private project: ConfigManager) {}
+
+  /**
+   * Load the registry file of a directory
+   * @param baseDir Directory holding the registry
+   * @param project Configuration of the project
+   * @param readOnly Whether another process owns the registry
+   */
+  static open(baseDir: string, project: ConfigManager, readOnly: boolean = false): OpenedStore {
+    // Stamp first: a file replaced while it is being read then counts as changed
+    const fileStamp = getRegistryFileStamp(baseDir);
+    const { state, recovered } = loadRegistryFile(baseDir, project.getConfig().registry.compress, readOnly);
+    const store = new JsonSymbolStore(baseDir, project);
+    store.importState(state);
+    store.fileStamp = fileStamp;
+    return { store, recovered };
+  }
+
+  replaceFileSymbols(filePath: string, symbols: SymbolInfo[]): void {
+    this.removeFileSymbols(filePath);
+    symbols.forEach(symbol => this.upsertSymbol(symbol));
+  }
+
+  upsertSymbol(symbol: SymbolInfo): void {
+    const key = identityKey(symbol);
+    const existingId = this.symbolIds.get(key);
+
+    if (existingId !== undefined) {
+      // Update existing symbol; the identity keys are unchanged, but the stable id and qualified name may not be
+      const existing = this.symbols.get(existingId)!;
+      const merged = { ...existing, ...symbol };
+      this.unindexNames(existing, existingId);
+      this.symbols.set(existingId, merged);
+      this.indexNames(merged, existingId);
+      return;
+    }
+
+    const id = this.nextSymbolId++;
+    this.symbols.set(id, symbol);
+    this.symbolIds.set(key, id);
+    addToIndex(this.byName, symbol.symbol, id);
+    addToIndex(this.byLowerName, symbol.symbol.toLowerCase(), id);
+    addToIndex(this.byFile, symbol.file, id);
+    addToIndex(this.byType, symbol.type, id);
+    if (symbol.parentSymbol) {
+      addToIndex(this.byParent, symbol.parentSymbol, id);
+    }
+    this.indexNames(symbol, id);
+  }
+
+  removeFileSymbols(filePath: string): boolean {
+    const ids = this.byFile.get(filePath);
+    if (!ids) {
+      return false;
+    }
+
+    Array.from(ids).forEach(id => this.deleteSymbol(id));
+    return true;
+  }
+
+  findSymbols(filter: SymbolFilter): SymbolInfo[] {
+    const lowerTerm = filter.term.toLowerCase();
+
+    // Narrow the candidates with the name indexes; only substring search has to look at every name
+    let ids: number[] = [];
+    if (filter.exactMatch) {
+      ids = Array.from(this.byName.get(filter.term) || []);
+    } else {
+      for (const [lowerName, nameIds] of this.byLowerName) {
+        if (lowerName.includes(lowerTerm)) {
+          ids.push(...nameIds);
+        }
+      }
+    }
+
+    if (filter.matchDescription && lowerTerm !== '') {
+      const matched = new Set(ids);
+      for (const [id, symbol] of this.symbols) {
+        if (!matched.has(id) && symbol.description?.toLowerCase().includes(lowerTerm)) {
+          ids.push(id);
+        }
+      }
+    }
+
+    return this.resolve(ids).filter(symbol => matchesSymbolFilter(symbol, filter));
+  }
+
+  getSymbolById(id: string): SymbolInfo | undefined {
+    const symbolId = this.byStableId.get(id);
+    return symbolId !== undefined ? this.symbols.get(symbolId) : undefined;
+  }
+
+  getFileSymbols(filePath: string): SymbolInfo[] {
+    return this.resolve(this.byFile.get(filePath));
+  }
+
+  getSymbolsByName(name: string): SymbolInfo[] {
+    return this.resolve(this.byName.get(name));
+  }
+
+  getSymbolsByNameIgnoreCase(name: string): SymbolInfo[] {
+    return this.resolve(this.byLowerName.get(name.toLowerCase()));
+  }
+
+  getSymbolsByQualifiedName(qualifiedName: string): SymbolInfo[] {
+    return this.resolve(this.byQualifiedName.get(qualifiedName));
+  }
+
+  getSymbolsByType(type: SymbolType): SymbolInfo[] {
+    return this.resolve(this.byType.get(type));
+  }
+
+  getSymbolsByParent(parentSymbol: string): SymbolInfo[] {
+    return this.resolve(this.byParent.get(parentSymbol));
+  }
+
+  getAllSymbols(): SymbolInfo[] {
+    return Array.from(this.symbols.values());
+  }
+
+  getSymbolCount(): number {
+    return this.symbols.size;
+  }
+
+  getFile(filePath: string): FileTrackingInfo | undefined {
+    return this.files.get(filePath);
+  }
+
+  setFile(file: FileTrackingInfo): void {
+    this.files.set(file.path, file);
+  }
+
+  deleteFile(filePath: string): void {
+    this.files.delete(filePath);
+  }
+
+  getFiles(): FileTrackingInfo[] {
+    return Array.from(this.files.values());
+  }
+
+  getMetadata(key: string): string | undefined {
+    return this.metadata.get(key);
+  }
+
+  setMetadata(key: string, value: string): void {
+    this.metadata.set(key, value);
+  }
+
+  importState(state: RegistryState): void {
+    state.symbols.forEach(symbol => this.upsertSymbol(symbol));
+    state.files.forEach(file => this.files.set(file.path, file));
+    Object.entries(state.metadata || {}).forEach(([key, value]) => this.metadata.set(key, value));
+    if (state.lastFullRefresh && state.lastFullRefresh > 0) {
+      this.metadata.set(LAST_FULL_REFRESH_KEY, String(state.lastFullRefresh));
+    }
+  }
+
+  beginBatch(): void {
+    this.batchDepth++;
+  }
+
+  endBatch(): void {
+    this.batchDepth--;
+    if (this.batchDepth === 0 && this.dirty) {
+      this.write();
+    }
+  }
+
+  save(): void {
+    if (this.batchDepth > 0) {
+      this.dirty = true;
+      return;
+    }
+    this.write();
+  }
+
+  flush(): void {
+    if (this.dirty) {
+      this.write();
+    }
+  }
+
+  hasExternalChanges(): boolean {
+    return getRegistryFileStamp(this.baseDir) !== this.fileStamp;
+  }
+
+  close(): void {
+    // Everything is in memory; there is nothing to release
+  }
+
+  clear(): void {
+    this.symbols.clear();
+    this.symbolIds.clear();
+    this.byName.clear();
+    this.byLowerName.clear();
+    this.byFile.clear();
+    this.byType.clear();
+    this.byParent.clear();
+    this.byStableId.clear();
+    this.byQualifiedName.clear();
+    this.files.clear();
+    this.metadata.clear();
+    this.save();
+  }
+
+  /**
+   * Remove a symbol from the storage and the indexes
+   * @param id Symbol id
+   */
+  private deleteSymbol(id: number): void {
+    const symbol = this.symbols.get(id);
+    if (!symbol) {
+      return;
+    }
+
+    this.symbols.delete(id);
+    this.symbolIds.delete(identityKey(symbol));
+    removeFromIndex(this.byName, symbol.symbol, id);
+    removeFromIndex(this.byLowerName, symbol.symbol.toLowerCase(), id);
+    removeFromIndex(this.byFile, symbol.file, id);
+    removeFromIndex(this.byType, symbol.type, id);
+    if (symbol.parentSymbol) {
+      removeFromIndex(this.byParent, symbol.parentSymbol, id);
+    }
+    this.unindexNames(symbol, id);
+  }
+
+  /**
+   * Index a symbol by its stable id and qualified name, which symbols from older registries lack
+   * @param symbol Symbol information
+   * @param id Symbol id
+   */
+  private indexNames(symbol: SymbolInfo, id: number): void {
+    if (symbol.id) {
+      this.byStableId.set(symbol.id, id);
+    }
+    if (symbol.qualifiedName) {
+      addToIndex(this.byQualifiedName, symbol.qualifiedName, id);
+    }
+  }
+
+  /**
+   * Remove a symbol from the stable id and qualified name indexes
+   * @param symbol Symbol information
+   * @param id Symbol id
+   */
+  private unindexNames(symbol: SymbolInfo, id: number): void {
+    if (symbol.id && this.byStableId.get(symbol.id) === id) {
+      this.byStableId.delete(symbol.id);
+    }
+    if (symbol.qualifiedName) {
+      removeFromIndex(this.byQualifiedName, symbol.qualifiedName, id);
+    }
+  }
+
+  /**
+   * Resolve a set of ids to symbols, in registration order
+   * @param ids Symbol ids (undefined when an index has no entry)
+   */
+  private resolve(ids: Iterable<number> | undefined): SymbolInfo[] {
+    if (!ids) {
+      return [];
+    }
+    return Array.from(ids).sort((a, b) => a - b).map(id => this.symbols.get(id)!);
+  }
+
+  /**
+   * Write the registry file
+   */
+  private write(): void {
+    this.dirty = false;
+    const metadata = Object.fromEntries(this.metadata);
+    const lastFullRefresh = parseInt(metadata[LAST_FULL_REFRESH_KEY] || '0', 10);
+    delete metadata[LAST_FULL_REFRESH_KEY];
+
+    try {
+      saveRegistryFile(this.baseDir, {
+        version: REGISTRY_SCHEMA_VERSION,
+        symbols: this.getAllSymbols(),
+        files: this.getFiles(),
+        lastFullRefresh,
+        metadata
+      }, this.project.getConfig().registry.compress);
+      this.fileStamp = getRegistryFileStamp(this.baseDir);
+    } catch (error) {
+      console.error('Error persisting symbol registry:', error);
+    }
+  }
+}
@@ -0,0 +1,450 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { FileTrackingInfo, RegistryState, SymbolInfo, SymbolType } from '../symbolRegistry';
+import { OpenedStore, SymbolFilter, SymbolStore, isPrivateSymbol, quarantineFile } from './index';
+import { REGISTRY_SCHEMA_VERSION, migrateRegistryState } from '../migrations';
+
+// File name of the database
+const DATABASE_FILE_NAME = '.symbol-registry.db';
+
+// Shortest term the trigram full-text index can match; shorter terms are matched with instr()
+const MIN_FTS_TERM_LENGTH = 3;
+
+// How long to wait for another process's transaction before giving up with SQLITE_BUSY
+const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Tables, indexes and the full-text index over names and descriptions
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS symbols (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    lower_name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    file TEXT NOT NULL,
+    parent TEXT NOT NULL DEFAULT '',
+    private INTEGER NOT NULL,
+    description TEXT,
+    lower_description TEXT,
+    data TEXT NOT NULL,
+    UNIQUE (file, type, parent, name)
+  );
+  CREATE INDEX IF NOT EXISTS symbols_name ON symbols (name);
+  CREATE INDEX IF NOT EXISTS symbols_lower_name ON symbols (lower_name);
+  CREATE INDEX IF NOT EXISTS symbols_type ON symbols (type);
+  CREATE INDEX IF NOT EXISTS symbols_parent ON symbols (parent);
+  CREATE INDEX IF NOT EXISTS symbols_stable_id ON symbols (json_extract(data, '$.id'));
+  CREATE INDEX IF NOT EXISTS symbols_qualified_name ON symbols (json_extract(data, '$.qualifiedName'));
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS symbols_fts USING fts5(
+    name, description, content='symbols', content_rowid='id', tokenize='trigram'
+  );
+  CREATE TRIGGER IF NOT EXISTS symbols_fts_insert AFTER INSERT ON symbols BEGIN
+    INSERT INTO symbols_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+  END;
+  CREATE TRIGGER IF NOT EXISTS symbols_fts_delete AFTER DELETE ON symbols BEGIN
+    INSERT INTO symbols_fts (symbols_fts, rowid, name, description) VALUES ('delete', old.id, old.name, old.description);
+  END;
+  CREATE TRIGGER IF NOT EXISTS symbols_fts_update AFTER UPDATE ON symbols BEGIN
+    INSERT INTO symbols_fts (symbols_fts, rowid, name, description) VALUES ('delete', old.id, old.name, old.description);
+    INSERT INTO symbols_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+  END;
+
+  CREATE TABLE IF NOT EXISTS files (
+    path TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * Get the path of the database
+ * @param baseDir Directory holding the registry
+ */
+export function getDatabasePath(baseDir: string): string {
+  return path.join(baseDir, DATABASE_FILE_NAME);
+}
+
+/**
+ * Quote a term as an FTS5 string, so operators in it are matched literally
+ */
+function quoteFtsTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Prepare the statements a store runs for every change and lookup
+ * @param db Database whose schema exists
+ */
+function prepareStatements(db: Database.Database) {
+  return {
+    findIdentity: db.prepare('SELECT id, data FROM symbols WHERE file = ? AND type = ? AND parent = ? AND name = ?'),
+    updateSymbol: db.prepare('UPDATE symbols SET private = ?, description = ?, lower_description = ?, data = ? WHERE id = ?'),
+    insertSymbol: db.prepare(`INSERT INTO symbols (name, lower_name, type, file, parent, private, description, lower_description, data)
+                              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`),
+    deleteFileSymbols: db.prepare('DELETE FROM symbols WHERE file = ?'),
+    symbolById: db.prepare(`SELECT data FROM symbols WHERE json_extract(data, '$.id') = ? ORDER BY id LIMIT 1`),
+    symbolsByFile: db.prepare('SELECT data FROM symbols WHERE file = ? ORDER BY id'),
+    symbolsByName: db.prepare('SELECT data FROM symbols WHERE name = ? ORDER BY id'),
+    symbolsByLowerName: db.prepare('SELECT data FROM symbols WHERE lower_name = ? ORDER BY id'),
+    symbolsByQualifiedName: db.prepare(`SELECT data FROM symbols WHERE json_extract(data, '$.qualifiedName') = ? ORDER BY id`),
+    symbolsByType: db.prepare('SELECT data FROM symbols WHERE type = ? ORDER BY id'),
+    symbolsByParent: db.prepare('SELECT data FROM symbols WHERE parent = ? ORDER BY id'),
+    allSymbols: db.prepare('SELECT data FROM symbols ORDER BY id'),
+    symbolCount: db.prepare('SELECT count(*) AS count FROM symbols'),
+    file: db.prepare('SELECT data FROM files WHERE path = ?'),
+    setFile: db.prepare('INSERT INTO files (path, data) VALUES (?, ?) ON CONFLICT (path) DO UPDATE SET data = excluded.data'),
+    deleteFile: db.prepare('DELETE FROM files WHERE path = ?'),
+    allFiles: db.prepare('SELECT data FROM files'),
+    metadata: db.prepare('SELECT value FROM metadata WHERE key = ?'),
+    allMetadata: db.prepare('SELECT key, value FROM metadata'),
+    setMetadata: db.prepare('INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+  };
+}
+
+/**
+ * Store keeping the registry in an embedded SQLite database.
+ * Nothing is loaded up front: every lookup and search runs as a query, with a
+ * trigram full-text index over names and descriptions for substring searches.
+ */
+export class SqliteSymbolStore implements SymbolStore {
+  readonly name = 'sqlite';
+
+  private batchDepth = 0;
+  private dataVersion: number;    // Changes when another connection commits
+  private statements: ReturnType<typeof prepareStatements>;
+  private searches = new Map<string, Database.Statement>();  // Prepared findSymbols queries, by SQL
+
+  constructor(private db: Database.Database) {
+    this.statements = prepareStatements(db);
+    this.dataVersion = this.readDataVersion();
+  }
+
+  /**
+   * Open (or create) the database of a directory
+   * @param baseDir Directory holding the registry
+   * @param readOnly Whether another process owns the registry; an unreadable database is then left in place
+   * @returns The store; isNew tells whether the database was just created
+   */
+  static open(baseDir: string, readOnly: boolean = false): OpenedStore & { isNew: boolean } {
+    const databasePath = getDatabasePath(baseDir);
+    const existed = fs.existsSync(databasePath);
+
+    try {
+      const store = new SqliteSymbolStore(openDatabase(databasePath));
+      store.upgrade(!existed);
+      return { store, recovered: false, isNew: !existed };
+    } catch (error) {
+      // A database locked by another process is not corrupt
+      if (!existed || readOnly || (error as { code?: string }).code === 'SQLITE_BUSY') {
+        throw error;
+      }
+
+      // An unreadable database is moved aside together with its journal files
+      quarantineFile(databasePath, (error as Error).message);
+      for (const suffix of ['-wal', '-shm']) {
+        fs.rmSync(databasePath + suffix, { force: true });
+      }
+      const store = new SqliteSymbolStore(openDatabase(databasePath));
+      store.upgrade(true);
+      return { store, recovered: true, isNew: true };
+    }
+  }
+
+  replaceFileSymbols(filePath: string, symbols: SymbolInfo[]): void {
+    this.inTransaction(() => {
+      this.removeFileSymbols(filePath);
+      symbols.forEach(symbol => this.upsertSymbol(symbol));
+    });
+  }
+
+  upsertSymbol(symbol: SymbolInfo): void {
+    const existing = this.statements.findIdentity
+      .get(symbol.file, symbol.type, symbol.parentSymbol || '', symbol.symbol) as { id: number; data: string } | undefined;
+
+    if (existing) {
+      // Update in place so the symbol keeps its position in registration order
+      const merged: SymbolInfo = { ...JSON.parse(existing.data), ...symbol };
+      this.statements.updateSymbol.run(...this.describedColumns(merged), JSON.stringify(merged), existing.id);
+      return;
+    }
+
+    this.statements.insertSymbol.run(
+      symbol.symbol,
+      symbol.symbol.toLowerCase(),
+      symbol.type,
+      symbol.file,
+      symbol.parentSymbol || '',
+      ...this.describedColumns(symbol),
+      JSON.stringify(symbol)
+    );
+  }
+
+  removeFileSymbols(filePath: string): boolean {
+    return this.statements.deleteFileSymbols.run(filePath).changes > 0;
+  }
+
+  findSymbols(filter: SymbolFilter): SymbolInfo[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    // Name (and optionally description) match
+    const matches: string[] = [];
+    if (filter.exactMatch) {
+      matches.push('name = ?');
+      params.push(filter.term);
+    } else if (filter.term !== '') {
+      matches.push(this.containsCondition('name', 'lower_name', filter.term, params));
+    }
+    if (filter.matchDescription && filter.term !== '') {
+      matches.push(this.containsCondition('description', 'lower_description', filter.term, params));
+    }
+    if (matches.length > 0) {
+      conditions.push(`(${matches.join(' OR ')})`);
+    }
+
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.file) {
+      conditions.push('instr(file, ?) > 0');
+      params.push(filter.file);
+    }
+    if (filter.package) {
+      conditions.push(`json_extract(data, '$.package') = ?`);
+      params.push(filter.package);
+    }
+    if (!filter.includePrivate) {
+      conditions.push('private = 0');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sql = `SELECT data FROM symbols ${where} ORDER BY id`;
+    let statement = this.searches.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.searches.set(sql, statement);
+    }
+    return this.querySymbols(statement, params);
+  }
+
+  getSymbolById(id: string): SymbolInfo | undefined {
+    return this.querySymbols(this.statements.symbolById, [id])[0];
+  }
+
+  getFileSymbols(filePath: string): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByFile, [filePath]);
+  }
+
+  getSymbolsByName(name: string): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByName, [name]);
+  }
+
+  getSymbolsByNameIgnoreCase(name: string): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByLowerName, [name.toLowerCase()]);
+  }
+
+  getSymbolsByQualifiedName(qualifiedName: string): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByQualifiedName, [qualifiedName]);
+  }
+
+  getSymbolsByType(type: SymbolType): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByType, [type]);
+  }
+
+  getSymbolsByParent(parentSymbol: string): SymbolInfo[] {
+    return this.querySymbols(this.statements.symbolsByParent, [parentSymbol]);
+  }
+
+  getAllSymbols(): SymbolInfo[] {
+    return this.querySymbols(this.statements.allSymbols, []);
+  }
+
+  getSymbolCount(): number {
+    return (this.statements.symbolCount.get() as { count: number }).count;
+  }
+
+  getFile(filePath: string): FileTrackingInfo | undefined {
+    const row = this.statements.file.get(filePath) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  setFile(file: FileTrackingInfo): void {
+    this.statements.setFile.run(file.path, JSON.stringify(file));
+  }
+
+  deleteFile(filePath: string): void {
+    this.statements.deleteFile.run(filePath);
+  }
+
+  getFiles(): FileTrackingInfo[] {
+    return (this.statements.allFiles.all() as { data: string }[]).map(row => JSON.parse(row.data));
+  }
+
+  getMetadata(key: string): string | undefined {
+    const row = this.statements.metadata.get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMetadata(key: string, value: string): void {
+    this.statements.setMetadata.run(key, value);
+  }
+
+  importState(state: RegistryState): void {
+    this.inTransaction(() => {
+      state.symbols.forEach(symbol => this.upsertSymbol(symbol));
+      state.files.forEach(file => this.setFile(file));
+      Object.entries(state.metadata || {}).forEach(([key, value]) => this.setMetadata(key, value));
+      if (state.lastFullRefresh && state.lastFullRefresh > 0) {
+        this.setMetadata('lastFullRefresh', String(state.lastFullRefresh));
+      }
+    });
+  }
+
+  beginBatch(): void {
+    if (this.batchDepth++ === 0) {
+      this.db.exec('BEGIN');
+    }
+  }
+
+  endBatch(): void {
+    if (--this.batchDepth === 0) {
+      this.db.exec('COMMIT');
+    }
+  }
+
+  save(): void {
+    // Every change outside a batch is committed by SQLite right away
+  }
+
+  flush(): void {
+    if (this.batchDepth > 0) {
+      this.db.exec('COMMIT');
+      this.db.exec('BEGIN');
+    }
+  }
+
+  hasExternalChanges(): boolean {
+    return this.readDataVersion() !== this.dataVersion;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  clear(): void {
+    this.inTransaction(() => {
+      this.db.exec('DELETE FROM symbols; DELETE FROM files; DELETE FROM metadata;');
+    });
+  }
+
+  /**
+   * Bring the stored registry to the current schema version, kept in the database's user_version.
+   * Older contents are exported, migrated and imported again.
+   * @param isNew Whether the database was just created
+   * @throws UnsupportedRegistryVersionError if the database was written by a newer server
+   */
+  private upgrade(isNew: boolean): void {
+    // Databases from before versioning have user_version 0
+    const version = isNew ? REGISTRY_SCHEMA_VERSION : (this.db.pragma('user_version', { simple: true }) as number) || 1;
+
+    if (version !== REGISTRY_SCHEMA_VERSION) {
+      const metadata = Object.fromEntries(
+        (this.statements.allMetadata.all() as { key: string; value: string }[])
+          .map(row => [row.key, row.value])
+      );
+      const state = migrateRegistryState({
+        version,
+        symbols: this.getAllSymbols(),
+        files: this.getFiles(),
+        lastFullRefresh: 0,
+        metadata
+      });
+
+      this.inTransaction(() => {
+        this.clear();
+        this.importState(state);
+      });
+    }
+
+    // Setting it writes to the database, which waits for any other process's transaction
+    if (isNew || version !== REGISTRY_SCHEMA_VERSION) {
+      this.db.pragma(`user_version = ${REGISTRY_SCHEMA_VERSION}`);
+    }
+  }
+
+  /**
+   * Read SQLite's data_version, which changes when another connection commits
+   */
+  private readDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  /**
+   * Build a condition matching rows whose column contains a term, ignoring case
+   * @param column Column of the full-text index
+   * @param lowerColumn Lower-cased copy of the column
+   * @param term Search term
+   * @param params Query parameters to append to
+   */
+  private containsCondition(column: string, lowerColumn: string, term: string, params: unknown[]): string {
+    if (Array.from(term).length >= MIN_FTS_TERM_LENGTH) {
+      params.push(`${column} : ${quoteFtsTerm(term)}`);
+      return 'id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?)';
+    }
+
+    params.push(term.toLowerCase());
+    return `instr(${lowerColumn}, ?) > 0`;
+  }
+
+  /**
+   * Columns derived from a symbol that may change when it is updated
+   */
+  private describedColumns(symbol: SymbolInfo): [number, string | null, string | null] {
+    return [
+      isPrivateSymbol(symbol) ? 1 : 0,
+      symbol.description ?? null,
+      symbol.description?.toLowerCase() ?? null
+    ];
+  }
+
+  /**
+   * Run a query returning symbol rows
+   */
+  private querySymbols(statement: Database.Statement, params: unknown[]): SymbolInfo[] {
+    return (statement.all(...params) as { data: string }[]).map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Run several changes atomically: if the work throws, none of its changes are kept.
+   * Inside an open batch (or another transaction) the work runs in a savepoint, so
+   * rolling it back leaves the rest of the batch alone.
+   */
+  private inTransaction(work: () => void): void {
+    this.db.transaction(work)();
+  }
+}
+
+/**
+ * Open a database and make sure the schema exists
+ * @param databasePath Path of the database file
+ */
+function openDatabase(databasePath: string): Database.Database {
+  const db = new Database(databasePath);
+  try {
+    db.pragma('journal_mode = WAL');
+    db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    db.exec(SCHEMA);
+    return db;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
@@ -1,7 +1,17 @@
 import * as path from 'path';
 import * as fs from 'fs';
-import * as glob from 'glob';
-import { FileDocResponse } from '../types';
+import * as crypto from 'crypto';
+import { FileDocResponse, SourceLocation } from '../types';
+import { JsonSchema } from '../schema';
+import { isProjectFile, listProjectFiles } from '../config/projectFiles';
+import { ConfigManager } from '../config/mcpConfig';
+import { getPackageKey, PackageResolver } from '../config/packages';
+import { parserRegistry } from '../parsers';
+import { ParsedContent, hashContent } from '../parsers/fileContent';
+import { OpenedStore, SymbolFilter, SymbolStore, identityKey, matchesSymbolFilter } from './stores';
+import { JsonSymbolStore, loadRegistryFile } from './stores/json';
+import { SqliteSymbolStore } from './stores/sqlite';
+import { RegistryLock } from './registryLock';
 
 /**
  * Symbol type enum
@@ -22,8 +32,11 @@ export enum SymbolType {
  */
 export interface FileTrackingInfo {
   path: string;           // Absolute file path
-  lastParsed: number;     // Timestamp when the file was last parsed
-  lastModified: number;   // Last modified timestamp of the file
+  lastParsed: number;     // Timestamp when the file was last parsed (0 if it has not been parsed yet)
+  lastModified: number;   // Modification time (mtimeMs) of the parsed content
+  size: number;           // Size in bytes of the parsed content
+  hash: string;           // Hash of the parsed content, in git's blob id format ('' if unknown)
+  package: string;        // Package the file belonged to when parsed, as name@version ('' outside any package)
   exists: boolean;        // Whether the file still exists
 }
 
@@ -38,13 +51,60 @@ export interface SymbolInfo {
   signature?: string;     // Function signature
   exported?: boolean;     // Whether the symbol is exported
   parentSymbol?: string;  // Parent symbol (e.g., class name for methods)
-  location?: {            // Optional location information
-    line: number;
-    column: number;
-  };
+  id?: string;            // Stable id, derived from the file (relative to the workspace root), type, parent and name
+  qualifiedName?: string; // Fully-qualified name: path#Class.method, or module.Class.method for Python
+  location?: SourceLocation; // Ranges of the declaration and of its name (1-based)
   metadata?: Record<string, any>;  // Additional metadata specific to symbol type
+  package?: string;       // Name of the package (package.json or pyproject.toml) the file belongs to
+  packageVersion?: string; // Version of that package
+  root?: string;          // Workspace root the symbol belongs to (set on tool results, not stored)
 }
 
+// Schema of a SourceRange
+const sourceRangeProperties: Record<string, JsonSchema> = {
+  line: { type: 'integer', minimum: 1 },
+  column: { type: 'integer', minimum: 1 },
+  endLine: { type: 'integer', minimum: 1 },
+  endColumn: { type: 'integer', minimum: 1 }
+};
+
+/**
+ * JSON Schema describing a SourceLocation
+ */
+export const sourceLocationSchema: JsonSchema = {
+  type: 'object',
+  description: 'Range of the declaration (1-based lines and columns, end just past the last character), with the range of its name identifier in name',
+  properties: {
+    ...sourceRangeProperties,
+    name: { type: 'object', properties: sourceRangeProperties, required: ['line', 'column', 'endLine', 'endColumn'] }
+  },
+  required: ['line', 'column', 'endLine', 'endColumn', 'name']
+};
+
+/**
+ * JSON Schema describing a SymbolInfo as returned by the tools
+ */
+export const symbolInfoSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string', description: 'Symbol name' },
+    type: { type: 'string', enum: Object.values(SymbolType), description: 'Type of symbol' },
+    file: { type: 'string', description: 'Absolute path of the source file' },
+    description: { type: 'string', description: 'Description or JSDoc' },
+    signature: { type: 'string', description: 'Function signature or type annotation' },
+    exported: { type: 'boolean', description: 'Whether the symbol is exported' },
+    parentSymbol: { type: 'string', description: 'Parent symbol (e.g. class name for methods)' },
+    id: { type: 'string', description: 'Stable id of the symbol, accepted wherever a symbol name is' },
+    qualifiedName: { type: 'string', description: 'Fully-qualified name: path#Class.method, or module.Class.method for Python' },
+    location: sourceLocationSchema,
+    metadata: { type: 'object', description: 'Additional metadata specific to the symbol type' },
+    package: { type: 'string', description: 'Package the symbol belongs to (from package.json or pyproject.toml)' },
+    packageVersion: { type: 'string', description: 'Version of the package' },
+    root: { type: 'string', description: 'Workspace root the symbol belongs to' }
+  },
+  required: ['symbol', 'type', 'file']
+};
+
 /**
  * Symbol search query interface
  */
@@ -53,7 +113,9 @@ export interface SymbolSearchQuery {
   type?: SymbolType;      // Optional filter by symbol type
   file?: string;          // Optional filter by file path
   exactMatch?: boolean;   // Whether to require exact match (default: false)
+  matchDescription?: boolean; // Whether symbols whose description contains the term also match (default: false)
   includePrivate?: boolean; // Whether to include private symbols (default: false)
+  package?: string;       // Optional filter by package name
   limit?: number;         // Maximum number of results (default: 20)
 }
 
@@ -68,79 +130,334 @@ export interface SymbolSearchResult {
  * Registry state interface
  */
 export interface RegistryState {
+  version?: number;       // Schema version the state was written with (missing before versioning, i.e. version 1)
   symbols: SymbolInfo[];
   files: FileTrackingInfo[];
   lastFullRefresh: number;
+  metadata?: Record<string, string>;  // Additional values kept by the store
 }
 
+// Store metadata key holding the versions of the parsers that produced the stored symbols
+const PARSER_VERSIONS_KEY = 'parserVersions';
+
+// Store metadata key holding the git commit the registry was last built from
+const INDEXED_COMMIT_KEY = 'indexedCommit';
+
+// Version assumed for parsers the registry has no recorded version for
+const INITIAL_PARSER_VERSION = '1';
+
+// How often the lease on the persisted registry is renewed, or checked by processes without it
+const LEASE_CHECK_INTERVAL_MS = 1000;
+
+// Stable ids are the first hex digits of a hash of the symbol's identity
+const SYMBOL_ID_LENGTH = 16;
+const SYMBOL_ID_PATTERN = new RegExp(`^[0-9a-f]{${SYMBOL_ID_LENGTH}}$`);
+
+/**
+ * Listener called when the symbols of a file change
+ */
+export type FileSymbolsListener = (filePath: string) => void;
+
 /**
- * Registry for code symbols found across the project
+ * Registry for code symbols found across the project.
+ *
+ * Several server processes may share the persisted registry (e.g. two editors on one
+ * repository). The process holding the registry's lease writes it; the others use it
+ * read-only, reload it when the owner writes it, and take over when the owner exits.
  */
 export class SymbolRegistry {
   // Private state
-  private symbols: SymbolInfo[] = [];
-  private files: FileTrackingInfo[] = [];
-  private lastFullRefresh: number = 0;
+  private openedStore?: SymbolStore;
+  private listeners: FileSymbolsListener[] = [];
+  private rebuildNeeded = false;    // The persisted registry was lost or outdated and needs a full scan
+  private lock?: RegistryLock;
+  private readOnly = false;         // Another process holds the lease; changes are neither made nor persisted
+  private ownerFileStamps?: Map<string, string>;  // While read-only: the tracked files as last loaded
+  private leaseTimer?: NodeJS.Timeout;
+  private openBatches = 0;
+  private closing = false;          // close() was called while batches were open; the last one to end closes the registry
+  private closed = false;
   
   /**
-   * Initialize the registry from a persisted state
-   * @param state The persisted registry state
+   * @param project Configuration of the project the registry covers
+   * @param openStore Opens the storage backend; called on first use, so startup does not load the registry
+   * @param packages Finds the package each file belongs to
+   * @param openLock Creates the lease on the persisted registry; called right before the store is opened
    */
-  initializeFromState(state: RegistryState): void {
-    if (state.symbols && state.symbols.length > 0) {
-      this.symbols = state.symbols;
+  constructor(
+    private project: ConfigManager,
+    private openStore: (readOnly: boolean) => OpenedStore,
+    private packages: PackageResolver,
+    private openLock: () => RegistryLock
+  ) {}
+  
+  /**
+   * The storage backend, opened on first use
+   */
+  private get store(): SymbolStore {
+    if (this.closed) {
+      // Reopening would take the lease again for a registry the server no longer uses
+      throw new Error('Symbol registry is closed');
+    }
+    if (!this.openedStore) {
+      // Settle who writes before reading, so the owner never loads a registry that is about to be replaced
+      this.lock = this.openLock();
+      this.readOnly = !this.lock.tryAcquire();
+      if (this.readOnly) {
+        console.error(`Symbol registry is written by process ${this.lock.readOwner()?.pid ?? 'unknown'}; using it read-only`);
+      }
+      
+      this.openedStore = this.openAndPrepare();
+      this.ownerFileStamps = this.readOnly ? getFileStamps(this.openedStore) : undefined;
+      this.leaseTimer = setInterval(() => this.checkLease(), LEASE_CHECK_INTERVAL_MS);
+      this.leaseTimer.unref();
+    }
+    return this.openedStore;
+  }
+  
+  /**
+   * Open the storage backend and, when this process writes it, bring it up to date with the parsers
+   */
+  private openAndPrepare(): SymbolStore {
+    const { store, recovered } = this.openStore(this.readOnly);
+    if (recovered) {
+      this.rebuildNeeded = true;
+    }
+    if (!this.readOnly) {
+      this.markOutdatedParserResults(store);
+    }
+    return store;
+  }
+  
+  /**
+   * Renew the lease on the persisted registry. Without the lease, reload the registry
+   * if its owner wrote it, and take the lease over once the owner is gone.
+   */
+  checkLease(): void {
+    if (!this.openedStore || !this.lock) {
+      return;
+    }
+    
+    if (!this.readOnly) {
+      if (!this.lock.renew()) {
+        // Another process decided the lease had run out; its registry wins over unsaved changes
+        console.error('Another process took over the symbol registry; using it read-only');
+        this.readOnly = true;
+        this.reload();
+      }
+    } else if (this.lock.tryAcquire()) {
+      console.error('Took over the symbol registry from the process that wrote it');
+      this.readOnly = false;
+      this.reload();
+    } else if (this.openedStore.hasExternalChanges()) {
+      this.reload();
     }
+  }
+  
+  /**
+   * Open the storage backend again, e.g. after its owner wrote it, and tell listeners
+   * about the files the owner changed
+   */
+  private reload(): void {
+    const previous = this.openedStore!;
+    const before = this.ownerFileStamps ?? getFileStamps(previous);
+    
+    this.openedStore = this.openAndPrepare();
     
-    if (state.files && state.files.length > 0) {
-      this.files = state.files;
+    // Batches in progress end on the new store; the previous one is discarded with anything it did not persist
+    for (let i = 0; i < this.openBatches; i++) {
+      this.openedStore.beginBatch();
     }
+    previous.close();
     
-    if (state.lastFullRefresh && state.lastFullRefresh > 0) {
-      this.lastFullRefresh = state.lastFullRefresh;
+    const after = getFileStamps(this.openedStore);
+    this.ownerFileStamps = this.readOnly ? after : undefined;
+    for (const filePath of new Set([...before.keys(), ...after.keys()])) {
+      if (before.get(filePath) !== after.get(filePath)) {
+        this.emitFileSymbolsChanged(filePath);
+      }
+    }
+  }
+  
+  /**
+   * Whether another process holds the lease on the persisted registry; this process then only reads it,
+   * and changes (parsed files, removed files, scans) are left to the owner
+   */
+  isReadOnly(): boolean {
+    // Opening the store is what acquires the lease
+    void this.store;
+    return this.readOnly;
+  }
+  
+  /**
+   * Re-check the parser versions after the parsers changed (e.g. plugins were added to mcpconfig.json),
+   * so that files whose parser changed are re-parsed by the next refresh
+   */
+  checkParserVersions(): void {
+    if (this.openedStore && !this.readOnly) {
+      this.markOutdatedParserResults(this.openedStore);
     }
   }
   
+  /**
+   * Mark the files parsed by parsers whose version changed since the registry was written,
+   * or by parsers it has no version for, as unparsed, so the next refresh re-parses them
+   * @param store The freshly opened store
+   */
+  private markOutdatedParserResults(store: SymbolStore): void {
+    const current = parserRegistry.getParserVersions(this.project.getBaseDir());
+    if (Object.keys(current).length === 0) {
+      // Parsers are not registered yet, so there is nothing to compare against
+      return;
+    }
+    
+    // Registries from before parser versions were recorded were produced by the first version of every parser;
+    // parsers added since (plugins) take over files another parser produced
+    const recordedJson = store.getMetadata(PARSER_VERSIONS_KEY);
+    const recorded = parseParserVersions(recordedJson);
+    const isOutdated = (name: string) => (recordedJson ? recorded[name] : INITIAL_PARSER_VERSION) !== current[name];
+    
+    const outdated = Object.keys(current).some(isOutdated)
+      ? store.getFiles().filter(file => {
+          const parser = parserRegistry.getParserForFile(file.path);
+          return parser !== undefined && isOutdated(parser.name);
+        })
+      : [];
+    
+    const versions = JSON.stringify({ ...recorded, ...current });
+    if (outdated.length === 0 && versions === recordedJson) {
+      return;
+    }
+    
+    store.beginBatch();
+    try {
+      // Their symbols stay until then, so queries in the meantime still find them
+      for (const file of outdated) {
+        store.setFile({ ...file, lastParsed: 0 });
+      }
+      store.setMetadata(PARSER_VERSIONS_KEY, versions);
+      store.save();
+    } finally {
+      store.endBatch();
+    }
+    
+    if (outdated.length > 0) {
+      console.error(`Parser versions changed; re-parsing ${outdated.length} file(s)`);
+    }
+  }
+  
+  /**
+   * Get the name of the storage backend in use (e.g. "json" or "sqlite")
+   */
+  getStoreName(): string {
+    return this.store.name;
+  }
+  
+  /**
+   * Get the git commit the registry was last built from
+   * @returns Commit hash, or undefined if no full or git-based refresh recorded one
+   */
+  getIndexedCommit(): string | undefined {
+    return this.store.getMetadata(INDEXED_COMMIT_KEY);
+  }
+  
+  /**
+   * Record the git commit the registry now reflects
+   * @param commit Commit hash
+   */
+  setIndexedCommit(commit: string): void {
+    if (this.isReadOnly()) {
+      return;
+    }
+    this.store.setMetadata(INDEXED_COMMIT_KEY, commit);
+    this.persistToDisk();
+  }
+  
+  /**
+   * Subscribe to changes of the symbols registered for a file
+   * @param listener Called with the absolute file path after its symbols changed
+   * @returns Function that removes the listener
+   */
+  onFileSymbolsChanged(listener: FileSymbolsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Notify listeners that a file's symbols changed
+   * @param filePath Absolute file path
+   */
+  private emitFileSymbolsChanged(filePath: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(filePath);
+      } catch (error) {
+        console.error('Error in symbol change listener:', error);
+      }
+    }
+  }
+  
+  /**
+   * Initialize the registry from a persisted state
+   * @param state The persisted registry state
+   */
+  initializeFromState(state: RegistryState): void {
+    if (this.isReadOnly()) {
+      return;
+    }
+    this.store.importState(state);
+    this.persistToDisk();
+  }
+  
   /**
    * Track a file in the registry
    * @param filePath Path to the file
    * @param exists Whether the file exists
+   * @param parsed Whether the file has just been parsed; otherwise it is only recorded as needing parsing
+   * @param content The content that was parsed, as read before parsing; the file is not read again, so an edit
+   *   made since is still detected. Without it the content is unknown and the next refresh compares modification times.
    */
-  trackFile(filePath: string, exists: boolean = true): void {
+  trackFile(filePath: string, exists: boolean = true, parsed: boolean = true, content?: ParsedContent): void {
+    if (this.isReadOnly()) {
+      return;
+    }
     const absolutePath = path.resolve(filePath);
     
     // Check if file already exists in tracking
-    const existingIndex = this.files.findIndex(f => f.path === absolutePath);
+    const existing = this.store.getFile(absolutePath);
     
-    const now = Date.now();
-    let lastModified = now;
+    let lastModified = 0;
+    let size = -1;
+    let hash = '';
+    let packageKey = '';
     
-    // Get file's last modified time if it exists
-    if (exists && fs.existsSync(absolutePath)) {
-      const stats = fs.statSync(absolutePath);
-      lastModified = stats.mtimeMs;
+    // Remember what the parsed content looked like, so later changes can be detected
+    if (exists && parsed) {
+      if (content) {
+        ({ lastModified, size, hash } = content);
+      }
+      packageKey = getPackageKey(this.packages.resolve(absolutePath));
     }
     
-    if (existingIndex >= 0) {
-      // Update existing file tracking
-      this.files[existingIndex] = {
-        ...this.files[existingIndex],
-        lastParsed: now,
-        lastModified,
-        exists
-      };
-    } else {
-      // Add new file tracking
-      this.files.push({
-        path: absolutePath,
-        lastParsed: now,
-        lastModified,
-        exists
-      });
-    }
+    this.store.setFile({
+      ...existing,
+      path: absolutePath,
+      lastParsed: exists && parsed ? Date.now() : 0,
+      lastModified,
+      size,
+      hash,
+      package: packageKey,
+      exists
+    });
   }
   
   /**
-   * Check if a file needs to be re-parsed
+   * Check if a file needs to be re-parsed.
+   * The file is only read when its size or modification time differs from the parsed content,
+   * and it needs re-parsing only when its content actually differs, or when it now belongs to
+   * another package (or package version) than its symbols are tagged with.
    * @param filePath Path to the file
    * @returns Whether the file needs to be re-parsed
    */
@@ -152,41 +469,68 @@ export class SymbolRegistry {
       return false; // File doesn't exist, can't refresh
     }
     
-    // Get file stats
+    // Find file in tracking
+    const fileInfo = this.store.getFile(absolutePath);
+    
+    if (!fileInfo || fileInfo.lastParsed === 0) {
+      return true; // File not parsed yet, needs parsing
+    }
+    
+    if (!fileInfo.exists) {
+      return true; // Deleted and restored (e.g. by a checkout); its symbols were removed
+    }
+    
+    if (fileInfo.package !== getPackageKey(this.packages.resolve(absolutePath))) {
+      return true; // Moved to another package, or the package's manifest changed
+    }
+    
+    // Unchanged stat data means unchanged content
     const stats = fs.statSync(absolutePath);
-    const fileModified = stats.mtimeMs;
+    if (stats.size === fileInfo.size && stats.mtimeMs === fileInfo.lastModified) {
+      return false;
+    }
     
-    // Find file in tracking
-    const fileInfo = this.files.find(f => f.path === absolutePath);
+    // Compare the content; registries from before content hashing only have the parse time to go by
+    const content = fs.readFileSync(absolutePath);
+    const hash = hashContent(content);
+    const changed = fileInfo.hash ? hash !== fileInfo.hash : stats.mtimeMs > fileInfo.lastParsed;
     
-    if (!fileInfo) {
-      return true; // File not tracked yet, needs parsing
+    if (!changed && !this.readOnly) {
+      // Only touched: remember the new stat data so the file is not read again
+      this.store.setFile({ ...fileInfo, lastModified: stats.mtimeMs, size: content.length, hash });
+      this.persistToDisk();
     }
     
-    // Check if file has been modified since last parse
-    return fileModified > fileInfo.lastParsed;
+    return changed;
   }
   
   /**
    * Clean up symbols for deleted files
    */
   cleanupDeletedFiles(): void {
+    if (this.isReadOnly()) {
+      return;
+    }
+    
     // Find files that no longer exist
-    const deletedFiles = this.files.filter(f => !fs.existsSync(f.path));
+    const deletedFiles = this.store.getFiles().filter(f => !fs.existsSync(f.path));
     
     // Remove symbols for deleted files
+    const newlyDeleted: string[] = [];
     for (const file of deletedFiles) {
-      this.symbols = this.symbols.filter(s => s.file !== file.path);
+      this.store.removeFileSymbols(file.path);
       
       // Mark file as not existing
-      const fileIndex = this.files.findIndex(f => f.path === file.path);
-      if (fileIndex >= 0) {
-        this.files[fileIndex].exists = false;
+      if (file.exists) {
+        newlyDeleted.push(file.path);
+        this.store.setFile({ ...file, exists: false });
       }
     }
     
     // Persist changes
     this.persistToDisk();
+    
+    newlyDeleted.forEach(filePath => this.emitFileSymbolsChanged(filePath));
   }
   
   /**
@@ -194,69 +538,121 @@ export class SymbolRegistry {
    * @param symbol Symbol information
    */
   registerSymbol(symbol: SymbolInfo): void {
-    // Check if symbol already exists to avoid duplicates
-    const existingIndex = this.symbols.findIndex(s => 
-      s.symbol === symbol.symbol && 
-      s.type === symbol.type && 
-      s.file === symbol.file &&
-      s.parentSymbol === symbol.parentSymbol
-    );
-    
-    if (existingIndex >= 0) {
-      // Update existing symbol
-      this.symbols[existingIndex] = {
-        ...this.symbols[existingIndex],
-        ...symbol
-      };
-    } else {
-      // Add new symbol
-      this.symbols.push(symbol);
+    if (this.isReadOnly()) {
+      return;
     }
+    this.store.upsertSymbol(symbol);
     
     // Persist the updated registry to disk
     this.persistToDisk();
   }
   
   /**
-   * Persist the symbol registry to disk
+   * Persist the symbol registry to disk (deferred by the store while a batch is open)
    */
   private persistToDisk(): void {
+    this.store.save();
+  }
+  
+  /**
+   * Run work that changes many files, persisting the registry once when it is done instead of after every change.
+   * Batches may overlap (e.g. a refresh and the file watcher); the registry is persisted when the last one ends.
+   * @param work The changes to make
+   * @returns The result of the work
+   */
+  async batch<T>(work: () => Promise<T>): Promise<T> {
+    this.store.beginBatch();
+    this.openBatches++;
     try {
-      const state: RegistryState = {
-        symbols: this.symbols,
-        files: this.files,
-        lastFullRefresh: this.lastFullRefresh
-      };
-      
-      fs.writeFileSync(REGISTRY_FILE_PATH, JSON.stringify(state, null, 2), 'utf8');
-    } catch (error) {
-      console.error('Error persisting symbol registry:', error);
+      return await work();
+    } finally {
+      this.openBatches--;
+      this.store.endBatch();
+      if (this.closing && this.openBatches === 0) {
+        this.close();
+      }
+    }
+  }
+  
+  /**
+   * Write pending changes to disk immediately (e.g. before the process exits)
+   */
+  flush(): void {
+    this.openedStore?.flush();
+  }
+  
+  /**
+   * Write pending changes, close the store and give up the lease (e.g. before the process exits or the root is dropped).
+   * While batches are open, only the changes so far are written; the last batch to end closes the registry.
+   * A closed registry cannot be used again.
+   */
+  close(): void {
+    if (this.openBatches > 0) {
+      this.closing = true;
+      this.openedStore?.flush();
+      return;
     }
+    this.closed = true;
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = undefined;
+    }
+    if (this.openedStore) {
+      this.openedStore.flush();
+      this.openedStore.close();
+      this.openedStore = undefined;
+    }
+    this.lock?.release();
+    this.lock = undefined;
+  }
+  
+  /**
+   * Mark the registry as lost, so the next refresh performs a full scan
+   */
+  markRebuildNeeded(): void {
+    this.rebuildNeeded = true;
+  }
+  
+  /**
+   * Whether the persisted registry was lost (or built by outdated parsers) and a full scan has not happened since
+   */
+  isRebuildNeeded(): boolean {
+    // Opening the store is what finds out whether a rebuild is needed
+    void this.store;
+    return this.rebuildNeeded;
   }
   
   /**
    * Register symbols from a parsed file document
    * @param fileDoc Parsed file documentation
+   * @param content The content the parser was given (see trackFile)
    */
-  registerFileSymbols(fileDoc: FileDocResponse): void {
+  registerFileSymbols(fileDoc: FileDocResponse, content?: ParsedContent): void {
+    if (this.isReadOnly()) {
+      return;
+    }
     const filePath = fileDoc.filePath;
     
     // Track this file
-    this.trackFile(filePath);
+    this.trackFile(filePath, true, true, content);
+    
+    // Remember the previous symbols so listeners are only told about real changes
+    const previousSymbols = JSON.stringify(this.getFileSymbols(filePath));
     
-    // Remove any existing symbols for this file before adding new ones
-    this.symbols = this.symbols.filter(s => s.file !== filePath);
+    // Collect the new symbols; they replace all previous symbols of the file
+    const symbols: SymbolInfo[] = [];
     
     // Register functions
     if (fileDoc.functions) {
       for (const func of fileDoc.functions) {
-        this.registerSymbol({
+        symbols.push({
           symbol: func.name,
           type: SymbolType.FUNCTION,
           file: filePath,
           description: func.description,
           signature: `(${func.params.join(', ')})${func.returnType ? `: ${func.returnType}` : ''}`,
-          exported: func.exported
+          exported: func.exported,
+          location: func.location
         });
       }
     }
@@ -265,12 +661,13 @@ export class SymbolRegistry {
     if (fileDoc.classes) {
       for (const cls of fileDoc.classes) {
         // Register the class itself
-        this.registerSymbol({
+        symbols.push({
           symbol: cls.name,
           type: SymbolType.CLASS,
           file: filePath,
           description: cls.description,
           exported: cls.exported,
+          location: cls.location,
           metadata: {
             isComponent: cls.isComponent
           }
@@ -278,7 +675,7 @@ export class SymbolRegistry {
         
         // Register methods
         for (const method of cls.methods) {
-          this.registerSymbol({
+          symbols.push({
             symbol: method.name,
             type: SymbolType.METHOD,
             file: filePath,
@@ -286,6 +683,7 @@ export class SymbolRegistry {
             signature: `(${method.params.join(', ')})${method.returnType ? `: ${method.returnType}` : ''}`,
             parentSymbol: cls.name,
             exported: cls.exported,
+            location: method.location,
             metadata: {
               visibility: method.visibility || 'public'
             }
@@ -294,7 +692,7 @@ export class SymbolRegistry {
         
         // Register properties
         for (const prop of cls.properties) {
-          this.registerSymbol({
+          symbols.push({
             symbol: prop.name,
             type: SymbolType.PROPERTY,
             file: filePath,
@@ -302,6 +700,7 @@ export class SymbolRegistry {
             signature: prop.type ? `: ${prop.type}` : '',
             parentSymbol: cls.name,
             exported: cls.exported,
+            location: prop.location,
             metadata: {
               visibility: prop.visibility || 'public'
             }
@@ -314,37 +713,40 @@ export class SymbolRegistry {
     if (fileDoc.interfaces) {
       for (const iface of fileDoc.interfaces) {
         // Register the interface itself
-        this.registerSymbol({
+        symbols.push({
           symbol: iface.name,
           type: SymbolType.INTERFACE,
           file: filePath,
           description: iface.description,
-          exported: iface.exported
+          exported: iface.exported,
+          location: iface.location
         });
         
         // Register properties
         for (const prop of iface.properties) {
-          this.registerSymbol({
+          symbols.push({
             symbol: prop.name,
             type: SymbolType.PROPERTY,
             file: filePath,
             description: prop.description,
             signature: prop.type ? `: ${prop.type}` : '',
             parentSymbol: iface.name,
-            exported: iface.exported
+            exported: iface.exported,
+            location: prop.location
           });
         }
         
         // Register methods
         for (const method of iface.methods) {
-          this.registerSymbol({
+          symbols.push({
             symbol: method.name,
             type: SymbolType.METHOD,
             file: filePath,
             description: method.description,
             signature: `(${method.params.join(', ')})${method.returnType ? `: ${method.returnType}` : ''}`,
             parentSymbol: iface.name,
-            exported: iface.exported
+            exported: iface.exported,
+            location: method.location
           });
         }
       }
@@ -353,13 +755,14 @@ export class SymbolRegistry {
     // Register type aliases
     if (fileDoc.typeAliases) {
       for (const typeAlias of fileDoc.typeAliases) {
-        this.registerSymbol({
+        symbols.push({
           symbol: typeAlias.name,
           type: SymbolType.TYPE,
           file: filePath,
           description: typeAlias.description,
           signature: `: ${typeAlias.type}`,
-          exported: typeAlias.exported
+          exported: typeAlias.exported,
+          location: typeAlias.location
         });
       }
     }
@@ -368,11 +771,12 @@ export class SymbolRegistry {
     if (fileDoc.routes) {
       for (const route of fileDoc.routes) {
         const routeSymbol = `${route.method} ${route.path}`;
-        this.registerSymbol({
+        symbols.push({
           symbol: routeSymbol,
           type: SymbolType.ROUTE,
           file: filePath,
           description: route.description,
+          location: route.location,
           metadata: {
             method: route.method,
             path: route.path,
@@ -381,6 +785,27 @@ export class SymbolRegistry {
         });
       }
     }
+    
+    // Tag the symbols with the package the file belongs to
+    const pkg = this.packages.resolve(filePath);
+    if (pkg) {
+      for (const symbol of symbols) {
+        symbol.package = pkg.name;
+        if (pkg.version !== undefined) {
+          symbol.packageVersion = pkg.version;
+        }
+      }
+    }
+    
+    this.identifySymbols(filePath, symbols);
+    
+    // Store and persist the whole file's symbols at once
+    this.store.replaceFileSymbols(filePath, symbols);
+    this.persistToDisk();
+    
+    if (JSON.stringify(this.getFileSymbols(filePath)) !== previousSymbols) {
+      this.emitFileSymbolsChanged(filePath);
+    }
   }
   
   /**
@@ -394,67 +819,40 @@ export class SymbolRegistry {
       type,
       file,
       exactMatch = false,
+      matchDescription = false,
       includePrivate = false,
+      package: packageName,
       limit = 20
     } = query;
     
-    let results = this.symbols.filter(symbol => {
-      // Filter by type if specified
-      if (type && symbol.type !== type) {
-        return false;
-      }
-      
-      // Filter by file if specified
-      if (file && !symbol.file.includes(file)) {
-        return false;
-      }
-      
-      // Filter private symbols if not included
-      if (!includePrivate && 
-          (symbol.metadata?.visibility === 'private' || 
-           symbol.symbol.startsWith('_') || 
-           symbol.symbol.startsWith('#'))) {
-        return false;
-      }
-      
-      // Match by symbol name
-      if (exactMatch) {
-        return symbol.symbol === searchTerm;
-      } else {
-        return symbol.symbol.toLowerCase().includes(searchTerm.toLowerCase());
+    // Filtering happens in the store, which can use its indexes
+    const filter: SymbolFilter = {
+      term: searchTerm,
+      exactMatch,
+      matchDescription,
+      type,
+      file,
+      package: packageName,
+      includePrivate
+    };
+    let results = this.store.findSymbols(filter);
+    
+    // Ids and qualified names name symbols too; without exactMatch, `Class.part` also finds the matching members
+    if (isSymbolReference(searchTerm)) {
+      const found = new Set(results.map(identityKey));
+      const referenced = exactMatch
+        ? this.resolveSymbol(searchTerm)
+        : [...this.resolveSymbol(searchTerm), ...this.findMembers(searchTerm)];
+      for (const symbol of referenced) {
+        if (!found.has(identityKey(symbol)) && matchesSymbolFilter(symbol, filter)) {
+          found.add(identityKey(symbol));
+          results.push(symbol);
+        }
       }
-    });
+    }
     
     // Sort results by relevance (exact matches first, then by symbol type priority)
-    results.sort((a, b) => {
-      // Exact matches come first
-      const aExactMatch = a.symbol === searchTerm;
-      const bExactMatch = b.symbol === searchTerm;
-      
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
-      
-      // Exported symbols come before non-exported
-      if (a.exported && !b.exported) return -1;
-      if (!a.exported && b.exported) return 1;
-      
-      // Sort by symbol type priority (functions, classes, routes take precedence)
-      const typePriority = {
-        [SymbolType.FUNCTION]: 1,
-        [SymbolType.CLASS]: 2,
-        [SymbolType.ROUTE]: 3,
-        [SymbolType.METHOD]: 4,
-        [SymbolType.INTERFACE]: 5,
-        [SymbolType.TYPE]: 6,
-        [SymbolType.PROPERTY]: 7,
-        [SymbolType.VARIABLE]: 8
-      };
-      
-      const aPriority = typePriority[a.type] || 999;
-      const bPriority = typePriority[b.type] || 999;
-      
-      return aPriority - bPriority;
-    });
+    results.sort(compareSearchRelevance(searchTerm));
     
     // Limit the number of results
     if (limit > 0 && results.length > limit) {
@@ -464,12 +862,211 @@ export class SymbolRegistry {
     return { results };
   }
   
+  /**
+   * Find the symbols a reference names. A reference is a stable id, a fully-qualified name
+   * (`src/user.ts#UserService.getUserById`, or `services.user.UserService.get_user` for Python),
+   * the end of one (`UserService.getUserById`, `user.ts#UserService`), or a plain name.
+   * @param reference Symbol reference
+   * @returns Matching symbols, in registration order
+   */
+  resolveSymbol(reference: string): SymbolInfo[] {
+    if (SYMBOL_ID_PATTERN.test(reference)) {
+      const symbol = this.store.getSymbolById(reference);
+      if (symbol) {
+        return [symbol];
+      }
+    }
+    
+    // Accept absolute paths in front of the #
+    const hash = reference.indexOf('#');
+    if (hash > 0 && path.isAbsolute(reference.substring(0, hash))) {
+      reference = toPosixPath(path.relative(this.project.getBaseDir(), reference.substring(0, hash))) + reference.substring(hash);
+    }
+    
+    const qualified = this.store.getSymbolsByQualifiedName(reference);
+    if (qualified.length > 0) {
+      return qualified;
+    }
+    
+    // Names may contain dots themselves (e.g. routes), so the whole reference is tried as a name as well
+    const matches = this.store.getSymbolsByName(reference);
+    const separator = Math.max(reference.lastIndexOf('.'), reference.lastIndexOf('#'));
+    if (separator > 0) {
+      const suffixes = ['#', '.', '/'].map(prefix => prefix + reference);
+      matches.push(...this.store.getSymbolsByName(reference.substring(separator + 1)).filter(symbol =>
+        suffixes.some(suffix => symbol.qualifiedName?.endsWith(suffix)) ||
+        (!symbol.qualifiedName && `${symbol.parentSymbol}.${symbol.symbol}` === reference)
+      ));
+    }
+    return matches;
+  }
+  
+  /**
+   * Find the members of the symbols named by the part of a reference before its last dot or #,
+   * whose names contain the part after it (e.g. `UserService.get` finds `UserService.getUserById`)
+   * @param reference Partial reference
+   * @returns Matching members, in registration order per parent
+   */
+  private findMembers(reference: string): SymbolInfo[] {
+    const separator = Math.max(reference.lastIndexOf('.'), reference.lastIndexOf('#'));
+    if (separator <= 0) {
+      return [];
+    }
+    
+    const part = reference.substring(separator + 1).toLowerCase();
+    return this.resolveSymbol(reference.substring(0, separator))
+      .flatMap(parent => this.getMemberSymbols(parent))
+      .filter(member => member.symbol.toLowerCase().includes(part));
+  }
+  
+  /**
+   * Get the symbol with a stable id
+   * @param id Stable id
+   */
+  getSymbolById(id: string): SymbolInfo | undefined {
+    return this.store.getSymbolById(id);
+  }
+  
+  /**
+   * Get the class or interface a member belongs to
+   * @param symbol Member symbol
+   * @returns The parent, which is defined in the same file, if the symbol has one
+   */
+  getParentSymbol(symbol: SymbolInfo): SymbolInfo | undefined {
+    if (!symbol.parentSymbol) {
+      return undefined;
+    }
+    return this.store.getFileSymbols(symbol.file).find(candidate =>
+      candidate.symbol === symbol.parentSymbol &&
+      !candidate.parentSymbol &&
+      (candidate.type === SymbolType.CLASS || candidate.type === SymbolType.INTERFACE)
+    );
+  }
+  
+  /**
+   * Get the members (methods, properties) of a class or interface
+   * @param symbol Class or interface
+   * @returns Its members, in registration order
+   */
+  getMemberSymbols(symbol: SymbolInfo): SymbolInfo[] {
+    return this.store.getSymbolsByParent(symbol.symbol).filter(member => member.file === symbol.file);
+  }
+  
+  /**
+   * Give the symbols of a file their stable id and fully-qualified name
+   * @param filePath Absolute path of the file
+   * @param symbols Symbols found in the file
+   */
+  private identifySymbols(filePath: string, symbols: SymbolInfo[]): void {
+    const relativePath = toPosixPath(path.relative(this.project.getBaseDir(), filePath));
+    const moduleName = parserRegistry.getParserForFile(filePath)?.name === 'python'
+      ? this.getPythonModuleName(filePath)
+      : undefined;
+    
+    for (const symbol of symbols) {
+      const memberPath = symbol.parentSymbol ? `${symbol.parentSymbol}.${symbol.symbol}` : symbol.symbol;
+      symbol.qualifiedName = moduleName !== undefined ? `${moduleName}.${memberPath}` : `${relativePath}#${memberPath}`;
+      symbol.id = crypto.createHash('sha1')
+        .update([relativePath, symbol.type, symbol.parentSymbol || '', symbol.symbol].join('\0'))
+        .digest('hex')
+        .substring(0, SYMBOL_ID_LENGTH);
+    }
+  }
+  
+  /**
+   * Get the dotted module name of a Python file: its path relative to the directory of its
+   * pyproject.toml (or the workspace root), without a leading src/, the extension or `__init__`
+   * @param filePath Absolute path of the file
+   */
+  private getPythonModuleName(filePath: string): string {
+    const pkg = this.packages.resolve(filePath);
+    const baseDir = pkg?.manifest === 'pyproject.toml' ? pkg.directory : this.project.getBaseDir();
+    const parts = toPosixPath(path.relative(baseDir, filePath)).replace(/\.pyi?$/, '').split('/');
+    
+    if (parts.length > 1 && parts[0] === 'src') {
+      parts.shift();
+    }
+    if (parts.length > 1 && parts[parts.length - 1] === '__init__') {
+      parts.pop();
+    }
+    return parts.join('.');
+  }
+  
   /**
    * Get all registered symbols
    * @returns Array of symbol information
    */
   getAllSymbols(): SymbolInfo[] {
-    return [...this.symbols];
+    return this.store.getAllSymbols();
+  }
+  
+  /**
+   * Get the symbols registered for a file
+   * @param filePath Path to the file
+   * @returns Symbols defined in the file, in registration order
+   */
+  getFileSymbols(filePath: string): SymbolInfo[] {
+    return this.store.getFileSymbols(path.resolve(filePath));
+  }
+  
+  /**
+   * Get the symbols with an exact name
+   * @param name Symbol name (case-sensitive)
+   * @returns Matching symbols, in registration order
+   */
+  getSymbolsByName(name: string): SymbolInfo[] {
+    return this.store.getSymbolsByName(name);
+  }
+  
+  /**
+   * Get the symbols with a name, ignoring case
+   * @param name Symbol name
+   * @returns Matching symbols, in registration order
+   */
+  getSymbolsByNameIgnoreCase(name: string): SymbolInfo[] {
+    return this.store.getSymbolsByNameIgnoreCase(name);
+  }
+  
+  /**
+   * Get the symbols of a type
+   * @param type Symbol type
+   * @returns Matching symbols, in registration order
+   */
+  getSymbolsByType(type: SymbolType): SymbolInfo[] {
+    return this.store.getSymbolsByType(type);
+  }
+  
+  /**
+   * Get the members (methods, properties) of a class or interface
+   * @param parentSymbol Name of the parent symbol
+   * @returns Matching symbols from every file, in registration order
+   */
+  getSymbolsByParent(parentSymbol: string): SymbolInfo[] {
+    return this.store.getSymbolsByParent(parentSymbol);
+  }
+  
+  /**
+   * Get the paths of all tracked files that still exist
+   * @returns Absolute file paths
+   */
+  getTrackedFiles(): string[] {
+    return this.store.getFiles().filter(f => f.exists).map(f => f.path);
+  }
+  
+  /**
+   * Check whether a file is tracked and still exists
+   * @param filePath Path to the file
+   */
+  isTrackedFile(filePath: string): boolean {
+    return this.store.getFile(path.resolve(filePath))?.exists === true;
+  }
+  
+  /**
+   * Get the number of registered symbols
+   * @returns Symbol count
+   */
+  getSymbolCount(): number {
+    return this.store.getSymbolCount();
   }
   
   /**
@@ -477,29 +1074,66 @@ export class SymbolRegistry {
    * @returns Array of file paths that need refreshing
    */
   async getFilesNeedingRefresh(): Promise<string[]> {
-    return this.files
-      .filter(f => f.exists && this.fileNeedsRefresh(f.path))
+    return this.store.getFiles()
+      .filter(f => f.exists && isProjectFile(f.path, this.project) && this.fileNeedsRefresh(f.path))
+      .map(f => f.path);
+  }
+  
+  /**
+   * Get tracked files that mcpconfig.json no longer includes
+   * @returns Absolute file paths
+   */
+  getExcludedTrackedFiles(): string[] {
+    return this.store.getFiles()
+      .filter(f => !isProjectFile(f.path, this.project))
       .map(f => f.path);
   }
   
+  /**
+   * Stop tracking a file and remove its symbols
+   * @param filePath Path to the file
+   */
+  forgetFile(filePath: string): void {
+    if (this.isReadOnly()) {
+      return;
+    }
+    const absolutePath = path.resolve(filePath);
+    const hadSymbols = this.store.removeFileSymbols(absolutePath);
+    this.store.deleteFile(absolutePath);
+    
+    // Persist changes
+    this.persistToDisk();
+    
+    if (hadSymbols) {
+      this.emitFileSymbolsChanged(absolutePath);
+    }
+  }
+  
   /**
    * Remove all symbols for a specific file
    * @param filePath Path to the file
    */
   removeFileSymbols(filePath: string): void {
+    if (this.isReadOnly()) {
+      return;
+    }
     const absolutePath = path.resolve(filePath);
-    this.symbols = this.symbols.filter(s => s.file !== absolutePath);
+    const hadSymbols = this.store.removeFileSymbols(absolutePath);
     
     // Mark file as no longer existing if it doesn't exist
     if (!fs.existsSync(absolutePath)) {
-      const fileIndex = this.files.findIndex(f => f.path === absolutePath);
-      if (fileIndex >= 0) {
-        this.files[fileIndex].exists = false;
+      const fileInfo = this.store.getFile(absolutePath);
+      if (fileInfo) {
+        this.store.setFile({ ...fileInfo, exists: false });
       }
     }
     
     // Persist changes
     this.persistToDisk();
+    
+    if (hadSymbols) {
+      this.emitFileSymbolsChanged(absolutePath);
+    }
   }
   
   /**
@@ -518,21 +1152,22 @@ export class SymbolRegistry {
   /**
    * Perform a full scan of the codebase to discover all files
    * @param baseDir Base directory to scan
-   * @param patterns File patterns to include (default: all TypeScript and JavaScript files)
+   * @param patterns File patterns to include (default: every extension included by mcpconfig.json)
+   * @param signal Optional signal that aborts the directory walk
    */
-  async fullScan(baseDir: string = process.cwd(), patterns: string[] = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx']): Promise<string[]> {
-    const foundFiles: string[] = [];
-    
-    for (const pattern of patterns) {
-      const files = await glob.glob(pattern, { cwd: baseDir, absolute: true });
-      foundFiles.push(...files);
+  async fullScan(baseDir: string = this.project.getBaseDir(), patterns?: string[], signal?: AbortSignal): Promise<string[]> {
+    // Only files allowed by mcpconfig.json are discovered
+    const foundFiles = await listProjectFiles(this.project, { baseDir, patterns, signal });
+    if (this.isReadOnly()) {
+      return foundFiles;
     }
+    this.rebuildNeeded = false;
     
     // Mark these files as needing parsing
     for (const file of foundFiles) {
       // Only track if we haven't seen this file before
-      if (!this.files.some(f => f.path === file)) {
-        this.trackFile(file, true);
+      if (!this.store.getFile(file)) {
+        this.trackFile(file, true, false);
       }
     }
     
@@ -543,43 +1178,123 @@ export class SymbolRegistry {
    * Clear all registered symbols
    */
   clear(): void {
-    this.symbols = [];
-    this.files = [];
-    this.lastFullRefresh = 0;
-    this.persistToDisk();
+    if (this.isReadOnly()) {
+      return;
+    }
+    this.store.clear();
+    
+    // Keep recording the parser versions, otherwise the next start would treat the registry as outdated
+    const current = parserRegistry.getParserVersions(this.project.getBaseDir());
+    if (Object.keys(current).length > 0) {
+      this.store.setMetadata(PARSER_VERSIONS_KEY, JSON.stringify(current));
+      this.persistToDisk();
+    }
   }
 }
 
-// File path for persistence
-const REGISTRY_FILE_PATH = path.join(process.cwd(), '.symbol-registry.json');
+/**
+ * Get a value per tracked file that changes whenever the file is parsed, removed or added
+ * @param store Store to read
+ * @returns Absolute file path -> stamp
+ */
+function getFileStamps(store: SymbolStore): Map<string, string> {
+  return new Map(store.getFiles().map(file => [file.path, `${file.lastParsed}:${file.hash}:${file.exists}`]));
+}
 
 /**
- * Load registry state from disk if available
+ * Read the parser versions recorded in the store metadata
+ * @param recordedJson Recorded value, if any
+ * @returns Parser name -> version; empty when nothing or something unreadable was recorded
  */
-function loadRegistryFromDisk(): RegistryState {
+function parseParserVersions(recordedJson: string | undefined): Record<string, string> {
+  if (!recordedJson) {
+    return {};
+  }
   try {
-    if (fs.existsSync(REGISTRY_FILE_PATH)) {
-      const data = fs.readFileSync(REGISTRY_FILE_PATH, 'utf8');
-      return JSON.parse(data);
-    }
-  } catch (error) {
-    console.error('Error loading symbol registry:', error);
+    const recorded = JSON.parse(recordedJson);
+    return recorded && typeof recorded === 'object' && !Array.isArray(recorded) ? recorded : {};
+  } catch {
+    // Corrupt versions leave every parser without a recorded version, so every file is re-parsed
+    return {};
   }
-  return { symbols: [], files: [], lastFullRefresh: 0 };
 }
 
 /**
- * Create and initialize the registry from persisted state
+ * Whether a search term may be a stable id or a qualified name rather than just part of a name
+ * @param term Search term
+ */
+function isSymbolReference(term: string): boolean {
+  return SYMBOL_ID_PATTERN.test(term) || /[.#]/.test(term);
+}
+
+/**
+ * Convert a relative path to forward slashes, as used in qualified names
+ */
+function toPosixPath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Build a comparator ordering search results by relevance: exact matches first, then exported symbols,
+ * then by symbol type (functions, classes and routes take precedence)
+ * @param searchTerm The search term
  */
-function createAndInitializeRegistry(): SymbolRegistry {
-  const registry = new SymbolRegistry();
-  const persistedState = loadRegistryFromDisk();
+export function compareSearchRelevance(searchTerm: string): (a: SymbolInfo, b: SymbolInfo) => number {
+  const typePriority = {
+    [SymbolType.FUNCTION]: 1,
+    [SymbolType.CLASS]: 2,
+    [SymbolType.ROUTE]: 3,
+    [SymbolType.METHOD]: 4,
+    [SymbolType.INTERFACE]: 5,
+    [SymbolType.TYPE]: 6,
+    [SymbolType.PROPERTY]: 7,
+    [SymbolType.VARIABLE]: 8
+  };
+
+  // A symbol matches exactly when the term is its name, qualified name or id
+  const isExactMatch = (symbol: SymbolInfo) =>
+    symbol.symbol === searchTerm || symbol.qualifiedName === searchTerm || symbol.id === searchTerm;
+
+  return (a, b) => {
+    // Exact matches come first
+    const aExactMatch = isExactMatch(a);
+    const bExactMatch = isExactMatch(b);
+    
+    if (aExactMatch && !bExactMatch) return -1;
+    if (!aExactMatch && bExactMatch) return 1;
+    
+    // Exported symbols come before non-exported
+    if (a.exported && !b.exported) return -1;
+    if (!a.exported && b.exported) return 1;
+    
+    const aPriority = typePriority[a.type] || 999;
+    const bPriority = typePriority[b.type] || 999;
+    
+    return aPriority - bPriority;
+  };
+}
+
+/**
+ * Open the storage backend selected in a project's mcpconfig.json
+ * @param baseDir Directory holding the registry
+ * @param project Configuration of the project
+ * @param readOnly Whether another process owns the registry
+ */
+export function openConfiguredStore(baseDir: string, project: ConfigManager, readOnly: boolean = false): OpenedStore {
+  const settings = project.getConfig().registry;
+  if (settings.backend !== 'sqlite') {
+    return JsonSymbolStore.open(baseDir, project, readOnly);
+  }
+
+  const { store, recovered, isNew } = SqliteSymbolStore.open(baseDir, readOnly);
   
-  registry.initializeFromState(persistedState);
-  registry.cleanupDeletedFiles();
+  // Carry an existing JSON registry over when switching to SQLite (left to the owner of the registry)
+  if (isNew && !recovered && !readOnly) {
+    const { state } = loadRegistryFile(baseDir, settings.compress);
+    if (state.symbols.length > 0 || state.files.length > 0) {
+      store.importState(state);
+    }
+  }
   
-  return registry;
+  return { store, recovered };
 }
-
-// Create a singleton instance of the registry and load persisted state
-export const symbolRegistry = createAndInitializeRegistry();
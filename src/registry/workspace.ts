@@ -0,0 +1,509 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { ConfigManager } from '../config/mcpConfig';
+import { PackageResolver } from '../config/packages';
+import { JsonSchema } from '../schema';
+import { disablePlugins } from '../parsers/plugins';
+import { ParserPool } from '../parsers/parserPool';
+import {
+  compareSearchRelevance,
+  FileSymbolsListener,
+  openConfiguredStore,
+  SymbolInfo,
+  SymbolRegistry,
+  SymbolSearchQuery,
+  SymbolSearchResult
+} from './symbolRegistry';
+import { FileWatcher } from './fileWatcher';
+import { RegistryLock } from './registryLock';
+
+/**
+ * Environment variable naming the workspace root
+ */
+export const WORKSPACE_ROOT_ENV = 'MCP_DEVDOCS_ROOT';
+
+/**
+ * Where the workspace root came from
+ */
+export type WorkspaceRootSource = 'option' | 'environment' | 'client' | 'cwd';
+
+// Directory under the user's cache directory holding per-project registries
+const CACHE_DIR_NAME = 'mcp-devdocs';
+
+// Candidates listed when a symbol reference is ambiguous
+const MAX_CANDIDATES = 20;
+
+/**
+ * Options the server applies to the workspaces it adds
+ */
+export interface WorkspaceOptions {
+  allowPlugins?: boolean;   // Load the parser plugins mcpconfig.json lists, for roots from --root or MCP_DEVDOCS_ROOT only
+  parserScript?: string;    // Worker script of the parser pools (default: the compiled parseWorker.js)
+}
+
+/**
+ * A symbol an ambiguous reference may name
+ */
+export interface SymbolCandidate {
+  symbol: string;
+  type: string;
+  id?: string;            // Stable id, which names the symbol unambiguously
+  qualifiedName?: string; // Fully-qualified name
+  file: string;
+  root: string;           // Workspace root of the symbol
+}
+
+/**
+ * JSON Schema for the candidates listed with an ambiguous reference
+ */
+export const symbolCandidatesSchema: JsonSchema = {
+  type: 'array',
+  description: 'Symbols the reference may name, when it names more than one; pass one of their ids or qualified names instead',
+  items: {
+    type: 'object',
+    properties: {
+      symbol: { type: 'string' },
+      type: { type: 'string' },
+      id: { type: 'string' },
+      qualifiedName: { type: 'string' },
+      file: { type: 'string' },
+      root: { type: 'string' }
+    },
+    required: ['symbol', 'type', 'file', 'root']
+  }
+};
+
+/**
+ * Outcome of resolving a reference to a single symbol
+ */
+export type SymbolResolution =
+  | { symbol: SymbolInfo }
+  | { error: string; candidates?: SymbolCandidate[] };
+
+/**
+ * Get the cache directory of a project: `$XDG_CACHE_HOME/mcp-devdocs/<name>-<hash of the path>`
+ * (`~/.cache` when XDG_CACHE_HOME is not set)
+ * @param root Absolute path of the project root
+ */
+export function getCacheDir(root: string): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  const key = crypto.createHash('sha1').update(root).digest('hex').substring(0, 12);
+  return path.join(cacheHome, CACHE_DIR_NAME, `${path.basename(root) || 'root'}-${key}`);
+}
+
+/**
+ * Convert a root URI sent by the client to a directory path
+ * @param uri Root URI (only file: URIs are supported)
+ * @returns The path, or undefined if the URI does not name a local directory
+ */
+export function rootFromUri(uri: string): string | undefined {
+  try {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One project root the server works on, with its own configuration, packages, registry and watcher
+ */
+export class Workspace {
+  readonly config: ConfigManager;
+  readonly packages: PackageResolver;
+  readonly registry: SymbolRegistry;
+  readonly watcher: FileWatcher;
+  readonly parsers: ParserPool;
+  private readonly pluginsAllowed: boolean;
+  private loadedPlugins = '[]';     // Plugin list (as JSON) the parser plugins were loaded from
+  private pluginsLoaded = Promise.resolve();
+
+  /**
+   * @param root Absolute path of the project root
+   * @param source Where the root came from
+   * @param options Options of the server
+   */
+  constructor(readonly root: string, readonly source: WorkspaceRootSource, options: WorkspaceOptions = {}) {
+    this.config = new ConfigManager(root);
+    this.packages = new PackageResolver(root);
+    this.registry = new SymbolRegistry(
+      this.config,
+      readOnly => openConfiguredStore(this.getRegistryDir(), this.config, readOnly),
+      this.packages,
+      () => new RegistryLock(this.getRegistryDir())
+    );
+    this.watcher = new FileWatcher(this);
+    this.parsers = new ParserPool(root, options.parserScript);
+    // Roots a client announces, or an mcpconfig.json in them, must not be able to run code in the server
+    this.pluginsAllowed = !!options.allowPlugins && (source === 'option' || source === 'environment');
+  }
+
+  /**
+   * Get the directory the symbol registry is stored in, creating it if needed
+   */
+  getRegistryDir(): string {
+    if (this.config.getConfig().registry.location !== 'cache') {
+      return this.root;
+    }
+
+    const cacheDir = getCacheDir(this.root);
+    fs.mkdirSync(cacheDir, { recursive: true });
+    return cacheDir;
+  }
+
+  /**
+   * Load the parser plugins mcpconfig.json lists, if they changed since they were last loaded.
+   * They are loaded in the parser workers, and only if the server was started with --allow-plugins
+   * and the root given with --root or MCP_DEVDOCS_ROOT.
+   * Files whose parser changes with them are re-parsed by the next refresh.
+   */
+  async syncPlugins(): Promise<void> {
+    const { plugins } = this.config.getConfig().parsing;
+    const key = JSON.stringify(plugins);
+    if (key !== this.loadedPlugins) {
+      this.loadedPlugins = key;
+      this.pluginsLoaded = this.loadPlugins(plugins);
+    }
+    await this.pluginsLoaded;
+  }
+
+  /**
+   * Load the parser plugins of the root, reporting the ones that could not be loaded
+   * @param plugins Plugin entries from mcpconfig.json
+   */
+  private async loadPlugins(plugins: string[]): Promise<void> {
+    const statuses = this.pluginsAllowed
+      ? await this.parsers.loadPlugins(plugins)
+      : disablePlugins(this.root, plugins,
+        `Parser plugins are disabled; start the server with --allow-plugins and give this root with --root or ${WORKSPACE_ROOT_ENV}`);
+
+    for (const status of statuses) {
+      if (status.error) {
+        console.error(`Could not load parser plugin ${status.plugin}:`, status.error);
+      }
+    }
+    this.registry.checkParserVersions();
+  }
+
+  /**
+   * Whether a path lies inside the workspace root
+   * @param filePath Absolute path
+   */
+  contains(filePath: string): boolean {
+    const relativePath = path.relative(this.root, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+  }
+
+  /**
+   * Stop watching and parsing, write pending registry changes and give up the registry's lease
+   */
+  close(): void {
+    this.watcher.stop();
+    this.parsers.close();
+    this.registry.close();
+  }
+}
+
+/**
+ * The projects the server works on.
+ *
+ * Roots are given with --root or MCP_DEVDOCS_ROOT, or taken from the roots the
+ * client announces, falling back to the working directory. They are settled before
+ * a registry is first used, since a root determines where its registry is stored.
+ * Client roots follow roots/list_changed afterwards; explicit roots never change.
+ * Over HTTP several clients announce roots; the workspaces are the union of them all.
+ */
+export class WorkspaceManager {
+  private workspaces = new Map<string, Workspace>();  // Root -> workspace
+  private clientRoots = new Map<object, Set<string>>(); // Client (session) -> the roots it announced
+  private listeners: FileSymbolsListener[] = [];
+  private watching = false;
+  private settled = false;
+  private resolveSettled!: () => void;
+  private settledPromise = new Promise<void>(resolve => { this.resolveSettled = resolve; });
+
+  /**
+   * @param options Options of the server
+   */
+  constructor(private options: WorkspaceOptions = {}) {}
+
+  /**
+   * Change the options applied to the workspaces added from now on
+   * @param options Options to change
+   */
+  configure(options: WorkspaceOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Get every workspace, in the order the roots were added (the working directory if none were)
+   */
+  getAll(): Workspace[] {
+    if (this.workspaces.size === 0) {
+      this.add(process.cwd(), 'cwd');
+    }
+    return Array.from(this.workspaces.values());
+  }
+
+  /**
+   * Get the first workspace, which relative paths and unqualified resources refer to
+   */
+  getPrimary(): Workspace {
+    return this.getAll()[0];
+  }
+
+  /**
+   * Whether any root was given explicitly with --root or MCP_DEVDOCS_ROOT
+   */
+  hasExplicitRoots(): boolean {
+    return Array.from(this.workspaces.values()).some(w => w.source === 'option' || w.source === 'environment');
+  }
+
+  /**
+   * Add a workspace root
+   * @param root Path of the project root (relative paths are resolved against the working directory)
+   * @param source Where the root came from
+   * @returns The workspace, which is the existing one if the root was already added
+   * @throws Error if the path is not a directory
+   */
+  add(root: string, source: WorkspaceRootSource): Workspace {
+    const absoluteRoot = path.resolve(root);
+    const existing = this.workspaces.get(absoluteRoot);
+    if (existing) {
+      return existing;
+    }
+    if (!fs.statSync(absoluteRoot, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`Workspace root ${absoluteRoot} is not a directory`);
+    }
+
+    const workspace = new Workspace(absoluteRoot, source, this.options);
+    workspace.registry.onFileSymbolsChanged(filePath => {
+      for (const listener of this.listeners) {
+        listener(filePath);
+      }
+    });
+    this.workspaces.set(absoluteRoot, workspace);
+
+    if (this.watching) {
+      workspace.watcher.start();
+    }
+    return workspace;
+  }
+
+  /**
+   * Remove a workspace root, stopping its watcher and writing its registry
+   * @param root Absolute path of the project root
+   */
+  remove(root: string): void {
+    const workspace = this.workspaces.get(root);
+    if (workspace) {
+      this.workspaces.delete(root);
+      workspace.close();
+    }
+  }
+
+  /**
+   * Replace the roots announced by one client; roots of other clients and from other sources are kept
+   * @param client The client (e.g. its session's protocol handler)
+   * @param roots Paths of the client's roots
+   * @returns The roots that could not be added, with the reason
+   */
+  setClientRoots(client: object, roots: string[]): string[] {
+    this.clientRoots.set(client, new Set(roots.map(root => path.resolve(root))));
+    return this.applyClientRoots();
+  }
+
+  /**
+   * Drop the roots of a client that went away; roots other clients announced too are kept
+   * @param client The client passed to setClientRoots
+   */
+  releaseClientRoots(client: object): void {
+    if (this.clientRoots.delete(client)) {
+      this.applyClientRoots();
+    }
+  }
+
+  /**
+   * Make the client workspaces the union of the roots every client announced
+   * @returns The roots that could not be added, with the reason
+   */
+  private applyClientRoots(): string[] {
+    const wanted = new Set<string>();
+    for (const roots of this.clientRoots.values()) {
+      roots.forEach(root => wanted.add(root));
+    }
+    const errors: string[] = [];
+
+    for (const workspace of Array.from(this.workspaces.values())) {
+      if ((workspace.source === 'client' || workspace.source === 'cwd') && !wanted.has(workspace.root)) {
+        this.remove(workspace.root);
+      }
+    }
+    for (const root of wanted) {
+      try {
+        this.add(root, 'client');
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Select the workspaces a tool call applies to
+   * @param root Root given by the caller; every workspace when omitted
+   * @throws Error if the root is not one of the workspace roots
+   */
+  select(root?: string): Workspace[] {
+    const all = this.getAll();
+    if (root === undefined) {
+      return all;
+    }
+
+    const workspace = this.workspaces.get(path.resolve(root));
+    if (!workspace) {
+      throw new Error(`Unknown workspace root ${root}; known roots: ${all.map(w => w.root).join(', ')}`);
+    }
+    return [workspace];
+  }
+
+  /**
+   * Find the workspace a file belongs to: the innermost root containing it, otherwise the primary workspace
+   * @param filePath Absolute file path
+   */
+  forFile(filePath: string): Workspace {
+    let best: Workspace | undefined;
+    for (const workspace of this.getAll()) {
+      if (workspace.contains(filePath) && (!best || workspace.root.length > best.root.length)) {
+        best = workspace;
+      }
+    }
+    return best || this.getPrimary();
+  }
+
+  /**
+   * Search the registries of the selected workspaces, tagging each result with its root
+   * @param query Search query; the limit applies to the merged results
+   * @param root Workspace root to search (default: every workspace)
+   * @returns Search results, ordered by relevance across workspaces
+   * @throws Error if the root is not one of the workspace roots
+   */
+  search(query: SymbolSearchQuery, root?: string): SymbolSearchResult {
+    const { limit = 20 } = query;
+    let results = this.select(root).flatMap(workspace =>
+      workspace.registry.search(query).results.map(symbol => ({ ...symbol, root: workspace.root }))
+    );
+
+    // The sort is stable, so ties keep the order of the workspaces
+    results.sort(compareSearchRelevance(query.query));
+    if (limit > 0 && results.length > limit) {
+      results = results.slice(0, limit);
+    }
+
+    return { results };
+  }
+
+  /**
+   * Find the one symbol a reference names, for tools that act on a single symbol.
+   * A reference matching several symbols (e.g. `save` for both `Foo.save` and `Bar.save`) is not
+   * guessed at: the candidates are returned with their qualified names and ids instead.
+   * @param query Reference and filters; the reference must match exactly
+   * @param root Workspace root to look in (default: every workspace)
+   * @returns The symbol, tagged with its root, or an error listing the candidates
+   * @throws Error if the root is not one of the workspace roots
+   */
+  resolve(query: Omit<SymbolSearchQuery, 'exactMatch' | 'limit'>, root?: string): SymbolResolution {
+    const { results } = this.search({ ...query, exactMatch: true, limit: 0 }, root);
+    if (results.length === 1) {
+      return { symbol: results[0] };
+    }
+    if (results.length === 0) {
+      return { error: `Symbol '${query.query}' not found` };
+    }
+
+    const listed = results.length > MAX_CANDIDATES ? ` (first ${MAX_CANDIDATES} listed)` : '';
+    return {
+      error: `Symbol '${query.query}' is ambiguous: ${results.length} symbols match${listed}; ` +
+        'pass the id or qualified name of one of the candidates, or narrow the lookup with type, file or package',
+      candidates: results.slice(0, MAX_CANDIDATES).map(symbol => ({
+        symbol: symbol.symbol,
+        type: symbol.type,
+        id: symbol.id,
+        qualifiedName: symbol.qualifiedName,
+        file: symbol.file,
+        root: symbol.root!
+      }))
+    };
+  }
+
+  /**
+   * Whether the roots are final
+   */
+  isSettled(): boolean {
+    return this.settled;
+  }
+
+  /**
+   * Keep the current roots (the working directory unless others were added)
+   */
+  settle(): void {
+    if (!this.settled) {
+      this.settled = true;
+      this.resolveSettled();
+    }
+  }
+
+  /**
+   * Wait until the roots are final
+   */
+  whenSettled(): Promise<void> {
+    return this.settledPromise;
+  }
+
+  /**
+   * Watch every workspace, including the ones added later
+   */
+  startWatching(): void {
+    this.watching = true;
+    for (const workspace of this.getAll()) {
+      workspace.watcher.start();
+    }
+  }
+
+  /**
+   * Stop watching every workspace
+   */
+  stopWatching(): void {
+    this.watching = false;
+    for (const workspace of this.workspaces.values()) {
+      workspace.watcher.stop();
+    }
+  }
+
+  /**
+   * Close every workspace, writing their registries and giving up their leases (before the process exits)
+   */
+  close(): void {
+    this.watching = false;
+    for (const workspace of this.workspaces.values()) {
+      workspace.close();
+    }
+  }
+
+  /**
+   * Subscribe to symbol changes in any workspace
+   * @param listener Called with the absolute path of each file whose symbols changed
+   * @returns A function that removes the listener
+   */
+  onFileSymbolsChanged(listener: FileSymbolsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+// Create a singleton set of workspaces for the process
+export const workspaces = new WorkspaceManager();
@@ -0,0 +1,129 @@
+/**
+ * Subset of JSON Schema used to describe tool inputs and results
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  default?: any;
+}
+
+/**
+ * A single validation failure
+ */
+export interface ValidationError {
+  field: string;          // Path of the offending field (e.g. "patterns[1]"), "" for the root value
+  message: string;        // What is wrong with it
+}
+
+/**
+ * Validate a value against a schema
+ * @param value Value to validate
+ * @param schema Schema to validate against
+ * @returns List of validation errors (empty if the value is valid)
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema): ValidationError[] {
+  const errors: ValidationError[] = [];
+  validateValue(value, schema, '', errors);
+  return errors;
+}
+
+/**
+ * Format validation errors as a single human-readable sentence
+ * @param errors Validation errors
+ * @returns Description of all errors
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors
+    .map(error => error.field ? `"${error.field}" ${error.message}` : error.message)
+    .join('; ');
+}
+
+/**
+ * Recursively validate a value, collecting errors
+ */
+function validateValue(value: any, schema: JsonSchema, field: string, errors: ValidationError[]): void {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(value, type))) {
+      errors.push({ field, message: `must be of type ${allowed.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ field, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters long` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(item, schema.items!, `${field}[${index}]`, errors));
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ field: joinField(field, key), message: 'is required' });
+      }
+    }
+
+    for (const key of Object.keys(value)) {
+      if (properties[key]) {
+        validateValue(value[key], properties[key], joinField(field, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: joinField(field, key), message: 'is not a recognized property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(value[key], schema.additionalProperties, joinField(field, key), errors);
+      }
+    }
+  }
+}
+
+/**
+ * Check a value against a single JSON Schema type name
+ */
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinField(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
@@ -0,0 +1,113 @@
+import { MCPServer, OutgoingMessage } from './mcpServer';
+
+/**
+ * Function that delivers one serialized message to the client
+ */
+export type MessageWriter = (line: string) => void;
+
+/**
+ * Runs incoming messages concurrently and writes their responses.
+ *
+ * Each response is serialized and handed to the writer as a single line, so
+ * responses of overlapping requests never interleave. JSON-RPC responses are
+ * written as soon as they are ready (the client correlates them by id); legacy
+ * responses carry no id and are therefore written in the order the requests arrived.
+ */
+export class RequestDispatcher {
+  private pending = new Set<Promise<void>>();
+  // Resolves once every previously dispatched message has been written (or skipped)
+  private orderedWrites: Promise<void> = Promise.resolve();
+
+  constructor(private server: MCPServer, private write: MessageWriter) {}
+
+  /**
+   * Number of messages still being processed
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Start processing one raw incoming message without waiting for it to finish
+   * @param text Raw message text
+   */
+  dispatch(text: string): void {
+    const previous = this.orderedWrites;
+    let release!: () => void;
+    this.orderedWrites = new Promise(resolve => { release = resolve; });
+
+    const task = this.process(text, previous)
+      .catch(error => {
+        console.error('Error processing MCP message:', error);
+      })
+      .finally(() => {
+        previous.then(release);
+        this.pending.delete(task);
+      });
+
+    this.pending.add(task);
+  }
+
+  /**
+   * Wait until every dispatched message has been processed
+   */
+  async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  /**
+   * Stop processing: give in-flight requests a grace period to finish,
+   * then cancel whatever is still running and wait for it to wind down
+   * @param graceMs How long to let in-flight requests run before cancelling them
+   */
+  async shutdown(graceMs: number): Promise<void> {
+    if (await this.drainWithin(graceMs)) {
+      return;
+    }
+
+    this.server.cancelAll('Server shutting down');
+    await this.drainWithin(graceMs);
+  }
+
+  /**
+   * Process a message and write its response
+   * @param text Raw message text
+   * @param previous Resolves when all earlier messages have been written
+   */
+  private async process(text: string, previous: Promise<void>): Promise<void> {
+    const response = await this.server.handleText(text);
+    if (response === null) {
+      return;
+    }
+
+    if (!isJsonRpcOutgoing(response)) {
+      await previous;
+    }
+
+    this.write(JSON.stringify(response));
+  }
+
+  /**
+   * Wait for pending messages, but no longer than the given time
+   * @returns Whether everything finished in time
+   */
+  private async drainWithin(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const finished = await Promise.race([this.drain().then(() => true), timeout]);
+    clearTimeout(timer);
+    return finished;
+  }
+}
+
+/**
+ * Check whether an outgoing message is a JSON-RPC response (or batch of them)
+ */
+function isJsonRpcOutgoing(message: OutgoingMessage): boolean {
+  return Array.isArray(message) || (message as Record<string, any>).jsonrpc === '2.0';
+}
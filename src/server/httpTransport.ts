@@ -0,0 +1,524 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { MCPServer } from './mcpServer';
+import { JsonRpcErrorCode, JsonRpcNotification, JsonRpcRequest, createError, isJsonRpcMessage, isJsonRpcRequest } from './protocol';
+
+/**
+ * Options for the streamable HTTP transport
+ */
+export interface HttpTransportOptions {
+  host?: string;          // Address to bind to (default: 127.0.0.1)
+  port?: number;          // Port to listen on (default: 3333)
+  path?: string;          // Endpoint path (default: /mcp)
+  token?: string;         // Bearer token required on every request (optional on loopback addresses)
+  sessionIdleTimeoutMs?: number; // Sessions without requests or open streams for this long are closed (default: 30 minutes)
+  maxSessions?: number;   // Most sessions kept at once; the longest-idle one makes room for a new one (default: 100)
+}
+
+/**
+ * State for one MCP session (one connected client)
+ */
+interface HttpSession {
+  id: string;
+  server: MCPServer;
+  streams: Set<http.ServerResponse>;  // Open GET streams receiving server notifications
+  activeRequests: number; // POST requests being processed
+  lastActivity: number;   // When the session last received a request or closed a stream
+}
+
+// Default bind settings
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3333;
+const DEFAULT_PATH = '/mcp';
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Session limits
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+// Header carrying the session id
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * Check whether a host name or address refers to the local machine
+ * @param host Host name or address
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Streamable HTTP transport (MCP 2025-03-26).
+ *
+ * POST delivers JSON-RPC messages and returns the responses, GET opens an SSE
+ * stream for server-initiated notifications, and DELETE ends the session. Every
+ * session gets its own protocol state but all of them share the same symbol registry.
+ * Sessions left idle expire, and their number is capped, since clients need not end them.
+ */
+export class HttpTransport {
+  private host: string;
+  private port: number;
+  private path: string;
+  private token?: string;
+  private sessionIdleTimeoutMs: number;
+  private maxSessions: number;
+  private sessions = new Map<string, HttpSession>();
+  private httpServer?: http.Server;
+  private expiryTimer?: NodeJS.Timeout;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.host = options.host || DEFAULT_HOST;
+    this.port = options.port !== undefined ? options.port : DEFAULT_PORT;
+    this.path = options.path || DEFAULT_PATH;
+    this.token = options.token;
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+    if (!isLoopbackHost(this.host) && !this.token) {
+      throw new Error(`Refusing to listen on non-loopback address ${this.host} without a bearer token`);
+    }
+  }
+
+  /**
+   * Start listening
+   * @returns The address the server is listening on
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    const httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, createError(null, JsonRpcErrorCode.INTERNAL_ERROR, 'Internal error', (error as Error).message));
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.port, this.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Check for expired sessions a few times per timeout
+    this.expiryTimer = setInterval(() => this.expireSessions(), Math.max(1000, this.sessionIdleTimeoutMs / 4));
+    this.expiryTimer.unref();
+
+    const address = httpServer.address();
+    const port = address && typeof address === 'object' ? address.port : this.port;
+    return { host: this.host, port };
+  }
+
+  /**
+   * Stop listening, cancel in-flight requests and close all open streams
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.expiryTimer);
+    this.expiryTimer = undefined;
+    for (const session of this.sessions.values()) {
+      this.closeSession(session);
+    }
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Route an HTTP request
+   */
+  private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.path) {
+      this.sendText(res, 404, 'Not Found');
+      return;
+    }
+
+    if (!this.isOriginAllowed(req)) {
+      this.sendText(res, 403, 'Forbidden origin');
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendText(res, 401, 'Unauthorized');
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST':
+        await this.handlePost(req, res);
+        break;
+      case 'GET':
+        this.handleGet(req, res);
+        break;
+      case 'DELETE':
+        this.handleDelete(req, res);
+        break;
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        this.sendText(res, 405, 'Method Not Allowed');
+    }
+  }
+
+  /**
+   * POST: deliver one JSON-RPC message or batch
+   */
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      if (!(error instanceof BodyTooLargeError)) {
+        throw error;
+      }
+      // Answer first and discard the rest of the body, so the client reads the 413 instead of a reset connection
+      res.setHeader('Connection', 'close');
+      this.sendText(res, 413, error.message);
+      req.resume();
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch (error) {
+      this.sendJson(res, 400, createError(null, JsonRpcErrorCode.PARSE_ERROR, 'Parse error', (error as Error).message));
+      return;
+    }
+
+    const messages = Array.isArray(message) ? message : [message];
+    const isInitialize = messages.some(m => isJsonRpcMessage(m) && isJsonRpcRequest(m) && m.method === 'initialize');
+
+    let session: HttpSession | undefined;
+    if (isInitialize) {
+      session = this.createSession();
+      if (!session) {
+        this.sendJson(res, 503, createError(null, JsonRpcErrorCode.INTERNAL_ERROR, 'Too many sessions', `Every one of the ${this.maxSessions} sessions is busy`));
+        return;
+      }
+    } else {
+      session = this.getSession(req, res);
+      if (!session) {
+        return;
+      }
+    }
+
+    session.activeRequests++;
+    try {
+      await this.respond(req, res, session, message, messages);
+    } finally {
+      session.activeRequests--;
+      session.lastActivity = Date.now();
+    }
+  }
+
+  /**
+   * Process the messages of a POST and send the response.
+   * The requests are cancelled if the client closes the connection before their responses are sent.
+   */
+  private async respond(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    session: HttpSession,
+    message: any,
+    messages: any[]
+  ): Promise<void> {
+    const disconnected = new AbortController();
+    const onClose = () => {
+      if (!res.writableFinished) {
+        disconnected.abort('Client closed the connection');
+      }
+    };
+    res.once('close', onClose);
+    const signal = disconnected.signal;
+
+    const hasRequests = messages.some(m => isJsonRpcMessage(m) && isJsonRpcRequest(m));
+    const wantsProgress = messages.some(m => m && m.params?._meta?.progressToken !== undefined);
+
+    // Stream the response when the client asked for progress, so notifications arrive before the result
+    if (hasRequests && wantsProgress && acceptsEventStream(req)) {
+      res.writeHead(200, { ...sseHeaders(), [SESSION_HEADER]: session.id });
+      const response = await session.server.handleMessage(message, notification => writeSseEvent(res, notification), signal);
+      if (response !== null) {
+        writeSseEvent(res, response);
+      }
+      res.end();
+      return;
+    }
+
+    const response = await session.server.handleMessage(message, undefined, signal);
+
+    if (!hasRequests) {
+      res.writeHead(202, { [SESSION_HEADER]: session.id });
+      res.end();
+      return;
+    }
+
+    if (response === null) {
+      // Every request was cancelled while running
+      res.writeHead(204, { [SESSION_HEADER]: session.id });
+      res.end();
+      return;
+    }
+
+    res.setHeader(SESSION_HEADER, session.id);
+    if (acceptsJson(req)) {
+      this.sendJson(res, 200, response);
+    } else {
+      res.writeHead(200, sseHeaders());
+      writeSseEvent(res, response);
+      res.end();
+    }
+  }
+
+  /**
+   * GET: open an SSE stream for server-initiated notifications
+   */
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!acceptsEventStream(req)) {
+      res.setHeader('Allow', 'POST, DELETE');
+      this.sendText(res, 405, 'Method Not Allowed');
+      return;
+    }
+
+    const session = this.getSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    res.writeHead(200, { ...sseHeaders(), [SESSION_HEADER]: session.id });
+    // Flush headers so the client knows the stream is open
+    res.write(': connected\n\n');
+
+    session.streams.add(res);
+    req.on('close', () => {
+      session.streams.delete(res);
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * DELETE: end the session
+   */
+  private handleDelete(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const session = this.getSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.closeSession(session);
+    res.writeHead(204);
+    res.end();
+  }
+
+  /**
+   * Create a new session with its own protocol state.
+   * At the session limit, the session idle for the longest time is closed to make room.
+   * @returns The session, or undefined if the limit is reached and every session is busy
+   */
+  private createSession(): HttpSession | undefined {
+    if (this.sessions.size >= this.maxSessions) {
+      const idle = Array.from(this.sessions.values()).filter(isIdle);
+      if (idle.length === 0) {
+        return undefined;
+      }
+      this.closeSession(idle.reduce((oldest, session) => session.lastActivity < oldest.lastActivity ? session : oldest));
+    }
+
+    const id = crypto.randomUUID();
+    const session: HttpSession = {
+      id,
+      server: new MCPServer({
+        legacy: false,
+        notify: notification => this.broadcast(session, notification)
+      }),
+      streams: new Set(),
+      activeRequests: 0,
+      lastActivity: Date.now()
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Close the sessions that have been idle for longer than the timeout
+   */
+  private expireSessions(): void {
+    const expiredBefore = Date.now() - this.sessionIdleTimeoutMs;
+    for (const session of Array.from(this.sessions.values())) {
+      if (isIdle(session) && session.lastActivity < expiredBefore) {
+        this.closeSession(session);
+      }
+    }
+  }
+
+  /**
+   * Look up the session named by the request's session header, answering with an error if there is none
+   */
+  private getSession(req: http.IncomingMessage, res: http.ServerResponse): HttpSession | undefined {
+    const header = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (!sessionId) {
+      this.sendJson(res, 400, createError(null, JsonRpcErrorCode.INVALID_REQUEST, 'Bad Request', 'Missing Mcp-Session-Id header'));
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendJson(res, 404, createError(null, JsonRpcErrorCode.INVALID_REQUEST, 'Session not found', `Unknown session ${sessionId}`));
+      return undefined;
+    }
+
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Cancel a session's work and close its streams
+   */
+  private closeSession(session: HttpSession): void {
+    session.server.cancelAll('Session closed');
+    session.server.dispose();
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+    this.sessions.delete(session.id);
+  }
+
+  /**
+   * Send a notification (or request) to every open stream of a session
+   */
+  private broadcast(session: HttpSession, notification: JsonRpcNotification | JsonRpcRequest): void {
+    for (const stream of session.streams) {
+      writeSseEvent(stream, notification);
+    }
+  }
+
+  /**
+   * Check the bearer token, if one is configured
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.token) {
+      return true;
+    }
+
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(match[1].trim());
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Reject cross-origin browser requests to a loopback server (DNS rebinding protection)
+   */
+  private isOriginAllowed(req: http.IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (!origin || !isLoopbackHost(this.host)) {
+      return true;
+    }
+
+    try {
+      return isLoopbackHost(new URL(origin).hostname.replace(/^\[|\]$/g, ''));
+    } catch {
+      return false;
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendText(res: http.ServerResponse, status: number, text: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(text);
+  }
+}
+
+/**
+ * Error thrown when a request body exceeds the size limit
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Whether a session has neither requests in progress nor open streams
+ */
+function isIdle(session: HttpSession): boolean {
+  return session.activeRequests === 0 && session.streams.size === 0;
+}
+
+/**
+ * Read a request body, enforcing the size limit.
+ * Past the limit, reading stops (without closing the connection, so a response can still be sent).
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Whether the client accepts a plain JSON response
+ */
+function acceptsJson(req: http.IncomingMessage): boolean {
+  const accept = req.headers.accept || '';
+  return accept === '' || accept.includes('application/json') || accept.includes('*/*');
+}
+
+/**
+ * Whether the client accepts an SSE stream
+ */
+function acceptsEventStream(req: http.IncomingMessage): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+function sseHeaders(): http.OutgoingHttpHeaders {
+  return {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  };
+}
+
+/**
+ * Write one JSON-RPC message as an SSE event
+ */
+function writeSseEvent(res: http.ServerResponse, message: any): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
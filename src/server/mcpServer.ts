@@ -0,0 +1,671 @@
+import { ErrorResponse, ToolContext } from '../types';
+import {
+  JsonRpcErrorCode, JsonRpcId, JsonRpcMessage, JsonRpcNotification, JsonRpcRequest, JsonRpcResponse,
+  SUPPORTED_PROTOCOL_VERSIONS, createError, createNotification, createRequest, createResult,
+  isJsonRpcMessage, isJsonRpcNotification, isJsonRpcRequest
+} from './protocol';
+import { getToolDefinition, toolDefinitions, validateToolInput } from './tools';
+import { formatValidationErrors } from '../schema';
+import { checkSubscription, isResourceAffectedByFile, listResourceTemplates, listResources, readResource } from './resources';
+import { rootFromUri, workspaces } from '../registry/workspace';
+
+/**
+ * Legacy request format: one `{ tool, input }` object per line
+ */
+export interface LegacyRequest {
+  tool: string;
+  input: Record<string, any>;
+}
+
+/**
+ * Function that delivers a server-initiated notification (or request) to the client
+ */
+export type NotificationSink = (notification: JsonRpcNotification | JsonRpcRequest) => void;
+
+/**
+ * Options controlling how the server interprets incoming messages
+ */
+export interface MCPServerOptions {
+  legacy?: boolean;       // Accept the legacy `{ tool, input }` line format (default: true)
+  notify?: NotificationSink; // Where server-initiated notifications are sent
+}
+
+/**
+ * Anything the server may write back for a single incoming line
+ */
+export type OutgoingMessage = JsonRpcResponse | JsonRpcResponse[] | Record<string, any>;
+
+// How long to wait for the client to answer a request sent by the server
+const CLIENT_REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Request sent to the client that is waiting for its response
+ */
+interface OutgoingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Server identity reported during initialization
+const SERVER_INFO = {
+  name: 'mcp-devdocs',
+  version: '1.0.0'
+};
+
+/**
+ * Protocol handler for the MCP server.
+ * Transport-agnostic: it receives raw message text and returns the message to send back, if any.
+ */
+export class MCPServer {
+  private legacy: boolean;
+  private notify?: NotificationSink;
+  private initialized: boolean = false;
+  private protocolVersion: string = SUPPORTED_PROTOCOL_VERSIONS[0];
+  // Set once the first well-formed message reveals which protocol the client speaks
+  private clientUsesJsonRpc: boolean | undefined;
+  // In-flight JSON-RPC requests by id, and in-flight legacy requests (which have no id)
+  private inFlight = new Map<JsonRpcId, AbortController>();
+  private legacyInFlight = new Set<AbortController>();
+  // Resource URIs the client subscribed to, and the registry listener feeding them
+  private subscriptions = new Set<string>();
+  private stopWatchingRegistry?: () => void;
+  // Requests sent to the client, by id
+  private outgoing = new Map<JsonRpcId, OutgoingRequest>();
+  private nextOutgoingId = 0;
+  private clientSupportsRoots = false;
+  private rootsRequest?: Promise<void>;
+
+  constructor(options: MCPServerOptions = {}) {
+    this.legacy = options.legacy !== false;
+    this.notify = options.notify;
+  }
+
+  /**
+   * Whether the client has completed the initialize handshake
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Release resources held by this server (registry listeners, subscriptions, the roots its client announced)
+   */
+  dispose(): void {
+    workspaces.releaseClientRoots(this);
+    this.subscriptions.clear();
+    for (const request of this.outgoing.values()) {
+      clearTimeout(request.timer);
+      request.reject(new Error('Server disposed'));
+    }
+    this.outgoing.clear();
+    if (this.stopWatchingRegistry) {
+      this.stopWatchingRegistry();
+      this.stopWatchingRegistry = undefined;
+    }
+  }
+
+  /**
+   * Send a notification to the client.
+   * Dropped if no sink is configured or the client speaks the legacy format, which has no notifications.
+   * @param method Notification method name
+   * @param params Optional notification parameters
+   * @param sink Where to send it instead of the default sink (e.g. the stream of the related request)
+   */
+  sendNotification(method: string, params?: Record<string, any>, sink?: NotificationSink): void {
+    const target = sink || this.notify;
+    if (!target || this.clientUsesJsonRpc !== true) {
+      return;
+    }
+    target(createNotification(method, params));
+  }
+
+  /**
+   * Send a request to the client and wait for its response
+   * @param method Request method name
+   * @param params Optional request parameters
+   * @returns The result sent by the client
+   * @throws Error if the client answers with an error, cannot be reached or does not answer in time
+   */
+  sendRequest(method: string, params?: Record<string, any>): Promise<any> {
+    if (!this.notify || this.clientUsesJsonRpc !== true) {
+      return Promise.reject(new Error('The client cannot receive requests'));
+    }
+
+    const id = `server-${++this.nextOutgoingId}`;
+    const sink = this.notify;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.outgoing.delete(id);
+        reject(new Error(`The client did not answer ${method} within ${CLIENT_REQUEST_TIMEOUT_MS} ms`));
+      }, CLIENT_REQUEST_TIMEOUT_MS);
+      this.outgoing.set(id, { resolve, reject, timer });
+      sink(createRequest(id, method, params));
+    });
+  }
+
+  /**
+   * Ids of the JSON-RPC requests currently being processed
+   */
+  getInFlightRequestIds(): JsonRpcId[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  /**
+   * Cancel an in-flight request. Its response will not be sent.
+   * @param id Id of the request to cancel
+   * @param reason Optional reason for the cancellation
+   * @returns Whether a request with that id was in flight
+   */
+  cancelRequest(id: JsonRpcId, reason?: string): boolean {
+    const controller = this.inFlight.get(id);
+    if (!controller) {
+      return false;
+    }
+    controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * Cancel every in-flight request, including legacy ones
+   * @param reason Optional reason for the cancellation
+   */
+  cancelAll(reason?: string): void {
+    for (const controller of this.inFlight.values()) {
+      controller.abort(reason);
+    }
+    for (const controller of this.legacyInFlight) {
+      controller.abort(reason);
+    }
+  }
+
+  /**
+   * Process one raw incoming message
+   * @param text Raw message text (a single line for stdio)
+   * @param notify Where notifications related to these requests (progress) go; defaults to the server's sink
+   * @returns The message to send back, or null if nothing should be sent
+   */
+  async handleText(text: string, notify?: NotificationSink): Promise<OutgoingMessage | null> {
+    let message: any;
+
+    try {
+      message = JSON.parse(text);
+    } catch (error) {
+      if (this.legacy && this.clientUsesJsonRpc !== true) {
+        const response: ErrorResponse = {
+          error: 'Invalid JSON',
+          details: (error as Error).message
+        };
+        return response;
+      }
+      return createError(null, JsonRpcErrorCode.PARSE_ERROR, 'Parse error', (error as Error).message);
+    }
+
+    return this.handleMessage(message, notify);
+  }
+
+  /**
+   * Process one parsed incoming message
+   * @param message Parsed JSON value
+   * @param notify Where notifications related to these requests (progress) go; defaults to the server's sink
+   * @param signal Cancels the message's requests when aborted (e.g. the client dropped the connection carrying them)
+   * @returns The message to send back, or null if nothing should be sent
+   */
+  async handleMessage(message: any, notify?: NotificationSink, signal?: AbortSignal): Promise<OutgoingMessage | null> {
+    // JSON-RPC batch
+    if (Array.isArray(message)) {
+      this.clientUsesJsonRpc = true;
+      if (message.length === 0) {
+        return createError(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request', 'Empty batch');
+      }
+
+      const responses: JsonRpcResponse[] = [];
+      for (const item of message) {
+        const response = await this.handleJsonRpcMessage(item, notify, signal);
+        if (response) {
+          responses.push(response);
+        }
+      }
+      return responses.length > 0 ? responses : null;
+    }
+
+    if (isJsonRpcMessage(message)) {
+      this.clientUsesJsonRpc = true;
+      return this.handleJsonRpcMessage(message, notify, signal);
+    }
+
+    if (this.legacy && this.clientUsesJsonRpc !== true) {
+      this.clientUsesJsonRpc = false;
+      return this.handleLegacyRequest(message);
+    }
+
+    return createError(
+      message && message.id !== undefined ? message.id : null,
+      JsonRpcErrorCode.INVALID_REQUEST,
+      'Invalid Request',
+      'Expected a JSON-RPC 2.0 message'
+    );
+  }
+
+  /**
+   * Process a single JSON-RPC request or notification
+   * @param message Candidate JSON-RPC message
+   * @param notify Where progress notifications for this request go
+   * @param signal Cancels the request when aborted, like notifications/cancelled
+   * @returns The response, or null for notifications and responses
+   */
+  private async handleJsonRpcMessage(message: any, notify?: NotificationSink, signal?: AbortSignal): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcMessage(message)) {
+      return createError(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request', 'Missing "jsonrpc": "2.0"');
+    }
+
+    if (isJsonRpcNotification(message)) {
+      this.handleNotification(message);
+      return null;
+    }
+
+    if (!isJsonRpcRequest(message)) {
+      // A response to a request we sent
+      this.handleResponse(message as JsonRpcResponse);
+      return null;
+    }
+
+    if (typeof message.method !== 'string') {
+      return createError(message.id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request', 'Missing or invalid "method" field');
+    }
+
+    if (message.params !== undefined && (typeof message.params !== 'object' || message.params === null)) {
+      return createError(message.id, JsonRpcErrorCode.INVALID_PARAMS, 'Invalid params', '"params" must be an object');
+    }
+
+    if (this.inFlight.has(message.id)) {
+      return createError(message.id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request', `A request with id ${JSON.stringify(message.id)} is already in progress`);
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(message.id, controller);
+    const cancel = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener('abort', cancel);
+
+    const context: ToolContext = { signal: controller.signal };
+    const progressToken = message.params?._meta?.progressToken;
+    if (typeof progressToken === 'string' || typeof progressToken === 'number') {
+      context.reportProgress = update => {
+        if (!controller.signal.aborted) {
+          this.sendNotification('notifications/progress', { progressToken, ...update }, notify);
+        }
+      };
+    }
+
+    let response: JsonRpcResponse;
+    try {
+      response = await this.handleRequest(message, context);
+    } catch (error) {
+      response = createError(message.id, JsonRpcErrorCode.INTERNAL_ERROR, 'Internal error', (error as Error).message);
+    } finally {
+      this.inFlight.delete(message.id);
+      signal?.removeEventListener('abort', cancel);
+    }
+
+    // Cancelled requests are never answered
+    return controller.signal.aborted ? null : response;
+  }
+
+  /**
+   * Route a JSON-RPC request to its method handler
+   * @param request The request
+   * @param context Context for the request (cancellation signal, progress reporting)
+   * @returns The response
+   */
+  private async handleRequest(request: JsonRpcRequest, context: ToolContext): Promise<JsonRpcResponse> {
+    const params = request.params || {};
+
+    switch (request.method) {
+      case 'initialize':
+        return createResult(request.id, this.initialize(params));
+      case 'ping':
+        return createResult(request.id, {});
+      case 'tools/list':
+        return createResult(request.id, {
+          tools: toolDefinitions.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            outputSchema: tool.outputSchema
+          }))
+        });
+      case 'tools/call':
+        await this.waitForWorkspace();
+        return this.callTool(request, context);
+      case 'resources/list':
+        await this.waitForWorkspace();
+        return createResult(request.id, listResources(typeof params.cursor === 'string' ? params.cursor : undefined));
+      case 'resources/templates/list':
+        return createResult(request.id, { resourceTemplates: listResourceTemplates() });
+      case 'resources/read':
+        await this.waitForWorkspace();
+        return this.readResource(request);
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return this.updateSubscription(request);
+      default:
+        return createError(request.id, JsonRpcErrorCode.METHOD_NOT_FOUND, 'Method not found', `Method "${request.method}" not supported`);
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC notification
+   * @param notification The notification
+   */
+  private handleNotification(notification: JsonRpcNotification): void {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        this.initialized = true;
+        this.adoptClientRoots();
+        break;
+      case 'notifications/roots/list_changed':
+        this.followClientRoots();
+        break;
+      case 'notifications/cancelled': {
+        const requestId = notification.params?.requestId;
+        if (typeof requestId === 'string' || typeof requestId === 'number') {
+          this.cancelRequest(requestId, notification.params?.reason);
+        }
+        break;
+      }
+      default:
+        // Unknown notifications are ignored, as required by the protocol
+        break;
+    }
+  }
+
+  /**
+   * Handle the initialize request and negotiate the protocol version
+   * @param params Initialize parameters sent by the client
+   * @returns The initialize result
+   */
+  private initialize(params: Record<string, any>): Record<string, any> {
+    const requested = params.protocolVersion;
+    this.clientSupportsRoots = !!params.capabilities?.roots;
+    this.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion: this.protocolVersion,
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: false
+        }
+      },
+      serverInfo: SERVER_INFO
+    };
+  }
+
+  /**
+   * Resolve the pending request a response from the client belongs to
+   * @param response The response
+   */
+  private handleResponse(response: JsonRpcResponse): void {
+    const request = response.id !== null ? this.outgoing.get(response.id) : undefined;
+    if (!request) {
+      return;
+    }
+
+    this.outgoing.delete(response.id!);
+    clearTimeout(request.timer);
+    if (response.error) {
+      request.reject(new Error(response.error.message));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  /**
+   * Use the client's roots as the workspaces, unless roots were given explicitly
+   */
+  private adoptClientRoots(): void {
+    if (workspaces.isSettled() || this.rootsRequest) {
+      return;
+    }
+    if (!this.clientSupportsRoots || !this.notify) {
+      workspaces.settle();
+      return;
+    }
+
+    this.rootsRequest = this.updateClientRoots().finally(() => workspaces.settle());
+  }
+
+  /**
+   * Add and drop workspaces after the client reported that its roots changed
+   */
+  private followClientRoots(): void {
+    if (!this.clientSupportsRoots || !this.notify || workspaces.hasExplicitRoots()) {
+      return;
+    }
+
+    // Queue behind a request still in flight, whose answer may already be outdated
+    this.rootsRequest = (this.rootsRequest || Promise.resolve()).then(() => this.updateClientRoots());
+  }
+
+  /**
+   * Ask the client for its roots and make them the workspace roots
+   */
+  private updateClientRoots(): Promise<void> {
+    return this.sendRequest('roots/list')
+      .then(result => {
+        const roots: string[] = (Array.isArray(result?.roots) ? result.roots : [])
+          .map((root: any) => typeof root?.uri === 'string' ? rootFromUri(root.uri) : undefined)
+          .filter((root: string | undefined): root is string => root !== undefined);
+
+        if (!workspaces.hasExplicitRoots()) {
+          for (const error of workspaces.setClientRoots(this, roots)) {
+            console.error('Could not use a client root:', error);
+          }
+        }
+      })
+      .catch(error => console.error('Could not use the client roots:', (error as Error).message));
+  }
+
+  /**
+   * Wait until the workspace roots are known, so registries are opened in the right place.
+   * If the client is not asked for its roots, the current roots (the working directory by default) are kept.
+   */
+  private async waitForWorkspace(): Promise<void> {
+    if (!this.rootsRequest) {
+      workspaces.settle();
+    }
+    await workspaces.whenSettled();
+    await this.rootsRequest;
+  }
+
+  /**
+   * Handle resources/read
+   * @param request The resources/read request
+   * @returns The response
+   */
+  private readResource(request: JsonRpcRequest): JsonRpcResponse {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string') {
+      return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, 'Invalid params', 'Missing or invalid "uri" field');
+    }
+
+    const contents = readResource(uri);
+    if (!contents) {
+      return createError(request.id, JsonRpcErrorCode.RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+    }
+    if ('error' in contents) {
+      return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, contents.error, { uri, candidates: contents.candidates });
+    }
+
+    return createResult(request.id, { contents: [contents] });
+  }
+
+  /**
+   * Handle resources/subscribe and resources/unsubscribe
+   * @param request The request
+   * @returns The response
+   */
+  private updateSubscription(request: JsonRpcRequest): JsonRpcResponse {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string') {
+      return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, 'Invalid params', 'Missing or invalid "uri" field');
+    }
+
+    if (request.method === 'resources/subscribe') {
+      const ambiguity = checkSubscription(uri);
+      if (ambiguity) {
+        return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, ambiguity.error, { uri, candidates: ambiguity.candidates });
+      }
+      this.subscriptions.add(uri);
+      if (!this.stopWatchingRegistry) {
+        this.stopWatchingRegistry = workspaces.onFileSymbolsChanged(filePath => this.notifyResourceUpdates(filePath));
+      }
+    } else {
+      this.subscriptions.delete(uri);
+    }
+
+    return createResult(request.id, {});
+  }
+
+  /**
+   * Tell the client which subscribed resources changed after a file was re-parsed
+   * @param filePath Absolute path of the file whose symbols changed
+   */
+  private notifyResourceUpdates(filePath: string): void {
+    for (const uri of this.subscriptions) {
+      if (isResourceAffectedByFile(uri, filePath)) {
+        this.sendNotification('notifications/resources/updated', { uri });
+      }
+    }
+  }
+
+  /**
+   * Handle tools/call by running the tool and wrapping its result as MCP content
+   * @param request The tools/call request
+   * @param context Context for the request (cancellation signal, progress reporting)
+   * @returns The response
+   */
+  private async callTool(request: JsonRpcRequest, context: ToolContext): Promise<JsonRpcResponse> {
+    const params = request.params || {};
+    const tool = typeof params.name === 'string' ? getToolDefinition(params.name) : undefined;
+
+    if (!tool) {
+      return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, 'Unknown tool', `Tool "${params.name}" not supported`);
+    }
+
+    const args = params.arguments === undefined ? {} : params.arguments;
+    const validationErrors = validateToolInput(tool, args);
+    if (validationErrors.length > 0) {
+      return createError(request.id, JsonRpcErrorCode.INVALID_PARAMS, 'Invalid arguments', {
+        tool: tool.name,
+        details: formatValidationErrors(validationErrors),
+        validationErrors
+      });
+    }
+
+    let result: any;
+    let isError = false;
+
+    try {
+      result = await tool.handler(args, context);
+      isError = isErrorResponse(result);
+    } catch (error) {
+      result = {
+        error: 'Tool execution failed',
+        details: (error as Error).message
+      };
+      isError = true;
+    }
+
+    const callResult: Record<string, any> = {
+      content: [{ type: 'text', text: JSON.stringify(result) }],
+      isError
+    };
+
+    // Clients that understand output schemas get the result as structured content too
+    if (!isError) {
+      callResult.structuredContent = result;
+    }
+
+    return createResult(request.id, callResult);
+  }
+
+  /**
+   * Process a request in the legacy `{ tool, input }` format
+   * @param request Parsed legacy request
+   * @returns The bare tool result or an error response, or null if the request was cancelled
+   */
+  private async handleLegacyRequest(request: LegacyRequest): Promise<Record<string, any> | null> {
+    // Validate the request
+    if (!request || !request.tool || typeof request.tool !== 'string') {
+      const response: ErrorResponse = {
+        error: 'Invalid request',
+        details: 'Missing or invalid "tool" field'
+      };
+      return response;
+    }
+
+    if (!request.input || typeof request.input !== 'object') {
+      const response: ErrorResponse = {
+        error: 'Invalid request',
+        details: 'Missing or invalid "input" field'
+      };
+      return response;
+    }
+
+    const tool = getToolDefinition(request.tool);
+    if (!tool) {
+      return {
+        error: 'Unknown tool',
+        details: `Tool "${request.tool}" not supported`
+      };
+    }
+
+    const validationErrors = validateToolInput(tool, request.input);
+    if (validationErrors.length > 0) {
+      const response: ErrorResponse = {
+        error: 'Invalid input',
+        details: formatValidationErrors(validationErrors),
+        validationErrors
+      };
+      return response;
+    }
+
+    await this.waitForWorkspace();
+
+    const controller = new AbortController();
+    this.legacyInFlight.add(controller);
+
+    let response: Record<string, any>;
+    try {
+      response = await tool.handler(request.input, { signal: controller.signal });
+    } catch (error) {
+      response = {
+        error: 'Tool execution failed',
+        details: (error as Error).message
+      };
+    } finally {
+      this.legacyInFlight.delete(controller);
+    }
+
+    return controller.signal.aborted ? null : response;
+  }
+}
+
+/**
+ * Check whether a tool result is an error response
+ * @param result Tool result
+ * @returns Whether the result only describes an error
+ */
+function isErrorResponse(result: any): result is ErrorResponse {
+  if (!result || typeof result !== 'object' || typeof result.error !== 'string') {
+    return false;
+  }
+  return Object.keys(result).every(key => key === 'error' || key === 'details' || key === 'validationErrors');
+}
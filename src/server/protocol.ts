@@ -0,0 +1,138 @@
+/**
+ * JSON-RPC 2.0 message shapes and helpers used by the MCP server
+ */
+
+/**
+ * Identifier correlating a request with its response
+ */
+export type JsonRpcId = string | number;
+
+/**
+ * A JSON-RPC request (has an id and expects a response)
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * A JSON-RPC notification (no id, never answered)
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Error object carried by a failed JSON-RPC response
+ */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * A JSON-RPC response (either result or error is set)
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+/**
+ * Any message that can travel over the wire
+ */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export enum JsonRpcErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  RESOURCE_NOT_FOUND = -32002   // MCP: resources/read on an unknown URI
+}
+
+/**
+ * MCP protocol revisions this server understands, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Check whether a parsed value is a JSON-RPC message
+ * @param message Parsed JSON value
+ * @returns Whether the value declares JSON-RPC 2.0
+ */
+export function isJsonRpcMessage(message: any): message is JsonRpcMessage {
+  return !!message && typeof message === 'object' && message.jsonrpc === '2.0';
+}
+
+/**
+ * Check whether a JSON-RPC message is a request (as opposed to a notification)
+ * @param message JSON-RPC message
+ * @returns Whether the message carries an id and a method
+ */
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined && message.id !== null;
+}
+
+/**
+ * Check whether a JSON-RPC message is a notification
+ * @param message JSON-RPC message
+ * @returns Whether the message has a method but no id
+ */
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message && message.id !== undefined && message.id !== null);
+}
+
+/**
+ * Build a successful response
+ * @param id Id of the request being answered
+ * @param result Result payload
+ */
+export function createResult(id: JsonRpcId, result: any): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * Build an error response
+ * @param id Id of the request being answered, or null if it could not be determined
+ * @param code JSON-RPC error code
+ * @param message Short error description
+ * @param data Optional additional error details
+ */
+export function createError(id: JsonRpcId | null, code: number, message: string, data?: any): JsonRpcResponse {
+  const error: JsonRpcError = { code, message };
+  if (data !== undefined) {
+    error.data = data;
+  }
+  return { jsonrpc: '2.0', id, error };
+}
+
+/**
+ * Build a request
+ * @param id Id correlating the response with the request
+ * @param method Request method name
+ * @param params Optional request parameters
+ */
+export function createRequest(id: JsonRpcId, method: string, params?: Record<string, any>): JsonRpcRequest {
+  return params ? { jsonrpc: '2.0', id, method, params } : { jsonrpc: '2.0', id, method };
+}
+
+/**
+ * Build a notification
+ * @param method Notification method name
+ * @param params Optional notification parameters
+ */
+export function createNotification(method: string, params?: Record<string, any>): JsonRpcNotification {
+  return params ? { jsonrpc: '2.0', method, params } : { jsonrpc: '2.0', method };
+}
@@ -0,0 +1,321 @@
+import * as path from 'path';
+import { SymbolType } from '../registry/symbolRegistry';
+import { SymbolCandidate, SymbolResolution, Workspace, workspaces } from '../registry/workspace';
+
+/**
+ * A resource as listed by resources/list
+ */
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * A resource template as listed by resources/templates/list
+ */
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Contents of a resource as returned by resources/read
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Why a resource URI does not name a single resource
+ */
+export interface ResourceError {
+  error: string;
+  candidates?: SymbolCandidate[]; // Symbols an ambiguous symbol URI matches
+}
+
+/**
+ * A parsed resource URI; root is set when the URI names a workspace with ?root=
+ */
+type ParsedResourceUri =
+  | { kind: 'file'; filePath: string; root?: string }
+  | { kind: 'routes'; root?: string }
+  | { kind: 'symbol'; qualifiedName: string; root?: string };
+
+// URI scheme and fixed URIs
+const SCHEME = 'symbols://';
+export const ROUTES_URI = `${SCHEME}routes`;
+
+// All resources are JSON documents
+const MIME_TYPE = 'application/json';
+
+// Number of resources returned per resources/list page
+const PAGE_SIZE = 500;
+
+/**
+ * Build the URI of a file outline resource
+ * @param filePath Absolute file path
+ * @param workspace Workspace the file belongs to (default: the workspace containing it)
+ * @returns URI such as symbols://file/src/index.ts, with ?root=<root> outside the primary workspace
+ */
+export function fileResourceUri(filePath: string, workspace: Workspace = workspaces.forFile(filePath)): string {
+  const relativePath = path.relative(workspace.root, filePath).split(path.sep).join('/');
+  const uri = `${SCHEME}file/${relativePath.split('/').map(encodeURIComponent).join('/')}`;
+  return workspace === workspaces.getPrimary() ? uri : `${uri}?root=${encodeURIComponent(workspace.root)}`;
+}
+
+/**
+ * Build the URI of a single symbol resource
+ * @param qualifiedName Qualified symbol name (e.g. "src/user.ts#UserService.getUserById" or "UserService.getUserById") or stable id
+ */
+export function symbolResourceUri(qualifiedName: string): string {
+  return `${SCHEME}symbol/${encodeURIComponent(qualifiedName)}`;
+}
+
+/**
+ * Parse a resource URI
+ * @param uri Resource URI
+ * @returns The parsed URI, or undefined if it is not a resource of this server
+ */
+function parseResourceUri(uri: string): ParsedResourceUri | undefined {
+  if (!uri.startsWith(SCHEME)) {
+    return undefined;
+  }
+
+  let rest = uri.substring(SCHEME.length);
+  let root: string | undefined;
+
+  try {
+    const queryStart = rest.indexOf('?');
+    if (queryStart >= 0) {
+      const query = new URLSearchParams(rest.substring(queryStart + 1));
+      root = query.get('root') ?? undefined;
+      rest = rest.substring(0, queryStart);
+    }
+
+    if (rest === 'routes') {
+      return { kind: 'routes', root };
+    }
+
+    if (rest.startsWith('file/') && rest.length > 'file/'.length) {
+      const relativePath = rest.substring('file/'.length).split('/').map(decodeURIComponent).join(path.sep);
+      return { kind: 'file', filePath: path.resolve(root || workspaces.getPrimary().root, relativePath), root };
+    }
+
+    if (rest.startsWith('symbol/') && rest.length > 'symbol/'.length) {
+      return { kind: 'symbol', qualifiedName: decodeURIComponent(rest.substring('symbol/'.length)), root };
+    }
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * List the resources exposed by the registries: the route list and one outline per tracked file
+ * @param cursor Opaque cursor returned by a previous call
+ * @returns One page of resources and the cursor for the next page, if any
+ */
+export function listResources(cursor?: string): { resources: ResourceDescriptor[]; nextCursor?: string } {
+  const all: ResourceDescriptor[] = [
+    {
+      uri: ROUTES_URI,
+      name: 'Routes',
+      description: 'All HTTP routes detected in the workspaces',
+      mimeType: MIME_TYPE
+    }
+  ];
+
+  // Files under nested roots are listed once, with the workspace that tracks them first
+  const listed = new Set<string>();
+  for (const workspace of workspaces.getAll()) {
+    const prefix = workspace === workspaces.getPrimary() ? '' : `${path.basename(workspace.root)}: `;
+    for (const filePath of workspace.registry.getTrackedFiles().sort()) {
+      if (!listed.has(filePath)) {
+        listed.add(filePath);
+        all.push({
+          uri: fileResourceUri(filePath, workspace),
+          name: prefix + path.relative(workspace.root, filePath),
+          description: 'Outline of the symbols defined in this file',
+          mimeType: MIME_TYPE
+        });
+      }
+    }
+  }
+
+  const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+  const resources = all.slice(offset, offset + PAGE_SIZE);
+  const nextOffset = offset + PAGE_SIZE;
+
+  return nextOffset < all.length
+    ? { resources, nextCursor: String(nextOffset) }
+    : { resources };
+}
+
+/**
+ * List the resource templates exposed by the registry
+ */
+export function listResourceTemplates(): ResourceTemplateDescriptor[] {
+  return [
+    {
+      uriTemplate: `${SCHEME}file/{path}`,
+      name: 'File outline',
+      description: 'Symbols defined in a file, by path relative to the workspace root (add ?root= for other roots than the first)',
+      mimeType: MIME_TYPE
+    },
+    {
+      uriTemplate: `${SCHEME}symbol/{qualifiedName}`,
+      name: 'Symbol',
+      description: 'A symbol and its members, by qualified name (path#Parent.member, Parent.member), name or stable id (add ?root= to look in one workspace only)',
+      mimeType: MIME_TYPE
+    }
+  ];
+}
+
+/**
+ * Read a resource
+ * @param uri Resource URI
+ * @returns The resource contents, an error listing the candidates if a symbol URI names several symbols,
+ *   or undefined if the resource does not exist
+ */
+export function readResource(uri: string): ResourceContents | ResourceError | undefined {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const selected = selectWorkspaces(parsed.root);
+  if (!selected) {
+    return undefined;
+  }
+
+  let content: any;
+
+  switch (parsed.kind) {
+    case 'file': {
+      const workspace = parsed.root ? selected[0] : workspaces.forFile(parsed.filePath);
+      if (!workspace.registry.isTrackedFile(parsed.filePath)) {
+        return undefined;
+      }
+      content = {
+        file: parsed.filePath,
+        root: workspace.root,
+        symbols: workspace.registry.getFileSymbols(parsed.filePath)
+      };
+      break;
+    }
+    case 'routes': {
+      content = {
+        routes: selected.flatMap(workspace => workspace.registry.getSymbolsByType(SymbolType.ROUTE)
+          .map(s => ({
+            method: s.metadata?.method,
+            path: s.metadata?.path,
+            handler: s.metadata?.handler,
+            file: s.file,
+            location: s.location,
+            root: workspace.root,
+            description: s.description
+          })))
+      };
+      break;
+    }
+    case 'symbol': {
+      const resolution = resolveSymbolResource(parsed.qualifiedName, parsed.root);
+      if ('error' in resolution) {
+        return resolution.candidates ? resolution : undefined;
+      }
+      const { symbol } = resolution;
+      const [workspace] = workspaces.select(symbol.root);
+      content = {
+        symbol,
+        members: workspace.registry.getMemberSymbols(symbol)
+      };
+      break;
+    }
+  }
+
+  return {
+    uri,
+    mimeType: MIME_TYPE,
+    text: JSON.stringify(content)
+  };
+}
+
+/**
+ * Check that a resource can be subscribed to: a symbol URI must not name several symbols.
+ * Resources that do not exist yet can be subscribed to, as they may appear later.
+ * @param uri Resource URI
+ * @returns An error listing the candidates if the URI is ambiguous
+ */
+export function checkSubscription(uri: string): ResourceError | undefined {
+  const parsed = parseResourceUri(uri);
+  if (!parsed || parsed.kind !== 'symbol' || !selectWorkspaces(parsed.root)) {
+    return undefined;
+  }
+
+  const resolution = resolveSymbolResource(parsed.qualifiedName, parsed.root);
+  return 'error' in resolution && resolution.candidates ? resolution : undefined;
+}
+
+/**
+ * Check whether a change to a file's symbols affects a resource
+ * @param uri Resource URI
+ * @param filePath Absolute path of the file whose symbols changed
+ */
+export function isResourceAffectedByFile(uri: string, filePath: string): boolean {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    return false;
+  }
+
+  const selected = selectWorkspaces(parsed.root);
+  if (!selected || !selected.some(workspace => workspace.contains(filePath))) {
+    return false;
+  }
+
+  switch (parsed.kind) {
+    case 'file':
+      return parsed.filePath === filePath;
+    case 'routes':
+      return true;
+    case 'symbol': {
+      // A symbol that can no longer be found may just have been removed from this file,
+      // and a change to one of several candidates may make the reference unambiguous
+      const resolution = resolveSymbolResource(parsed.qualifiedName, parsed.root);
+      if ('error' in resolution) {
+        return !resolution.candidates || resolution.candidates.some(candidate => candidate.file === filePath);
+      }
+      return resolution.symbol.file === filePath;
+    }
+  }
+}
+
+/**
+ * Get the workspaces a resource covers
+ * @param root Root named in the URI; every workspace when omitted
+ * @returns The workspaces, or undefined if the root is not one of the workspace roots
+ */
+function selectWorkspaces(root?: string): Workspace[] | undefined {
+  try {
+    return workspaces.select(root);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the one symbol a symbol URI names; several matching symbols are reported as candidates instead
+ * @param reference Qualified name, the end of one (e.g. Parent.member), name or stable id
+ * @param root Root named in the URI; every workspace when omitted
+ * @returns The symbol, tagged with its root, or an error listing the candidates
+ */
+function resolveSymbolResource(reference: string, root?: string): SymbolResolution {
+  return workspaces.resolve({ query: reference, includePrivate: true }, root);
+}
@@ -0,0 +1,107 @@
+import { getDocForFile, getDocForFileInputSchema, getDocForFileOutputSchema } from '../tools/getDocForFile';
+import { searchProjectSymbols, searchProjectSymbolsInputSchema, searchProjectSymbolsOutputSchema } from '../tools/searchProjectSymbols';
+import { autocompleteSymbol, autocompleteSymbolInputSchema, autocompleteSymbolOutputSchema } from '../tools/autocompleteSymbol';
+import { getDocForSymbol, getDocForSymbolInputSchema, getDocForSymbolOutputSchema } from '../tools/getDocForSymbol';
+import { findUsages, findUsagesInputSchema, findUsagesOutputSchema } from '../tools/findUsages';
+import { refreshRegistry, refreshRegistryInputSchema, refreshRegistryOutputSchema } from '../tools/refreshRegistry';
+import { explainExclusion, explainExclusionInputSchema, explainExclusionOutputSchema } from '../tools/explainExclusion';
+import { listParsers, listParsersInputSchema, listParsersOutputSchema } from '../tools/listParsers';
+import { JsonSchema, ValidationError, validateAgainstSchema } from '../schema';
+import { ToolContext } from '../types';
+
+/**
+ * Supported MCP tool names
+ */
+export type MCPToolName = 'get_doc_for_file' | 'search_project_symbols' | 'autocomplete_symbol' | 'get_doc_for_symbol' | 'find_usages' | 'refresh_registry' | 'explain_exclusion' | 'list_parsers';
+
+/**
+ * Definition of a tool exposed by the server
+ */
+export interface ToolDefinition {
+  name: MCPToolName;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+  handler: (input: any, context: ToolContext) => Promise<any>;
+}
+
+/**
+ * All tools exposed by the server, in the order they are listed to clients
+ */
+export const toolDefinitions: ToolDefinition[] = [
+  {
+    name: 'get_doc_for_file',
+    description: 'Extract functions, classes, interfaces, type aliases and routes from a single source file',
+    inputSchema: getDocForFileInputSchema,
+    outputSchema: getDocForFileOutputSchema,
+    handler: getDocForFile
+  },
+  {
+    name: 'search_project_symbols',
+    description: 'Search for symbols (functions, classes, methods, ...) across the project',
+    inputSchema: searchProjectSymbolsInputSchema,
+    outputSchema: searchProjectSymbolsOutputSchema,
+    handler: searchProjectSymbols
+  },
+  {
+    name: 'autocomplete_symbol',
+    description: 'Suggest completions for a partial symbol name',
+    inputSchema: autocompleteSymbolInputSchema,
+    outputSchema: autocompleteSymbolOutputSchema,
+    handler: autocompleteSymbol
+  },
+  {
+    name: 'get_doc_for_symbol',
+    description: 'Get detailed documentation for a symbol, including related parent and child symbols',
+    inputSchema: getDocForSymbolInputSchema,
+    outputSchema: getDocForSymbolOutputSchema,
+    handler: getDocForSymbol
+  },
+  {
+    name: 'find_usages',
+    description: 'Find all references to a symbol across the codebase',
+    inputSchema: findUsagesInputSchema,
+    outputSchema: findUsagesOutputSchema,
+    handler: findUsages
+  },
+  {
+    name: 'refresh_registry',
+    description: 'Re-parse changed files, or rescan the whole project, and update the symbol registry',
+    inputSchema: refreshRegistryInputSchema,
+    outputSchema: refreshRegistryOutputSchema,
+    handler: refreshRegistry
+  },
+  {
+    name: 'explain_exclusion',
+    description: 'Explain whether a file is scanned, and which mcpconfig.json rule or ignore file line excludes it',
+    inputSchema: explainExclusionInputSchema,
+    outputSchema: explainExclusionOutputSchema,
+    handler: explainExclusion
+  },
+  {
+    name: 'list_parsers',
+    description: 'List the active parsers (built-in and plugins) with their priority, file extensions and symbol kinds',
+    inputSchema: listParsersInputSchema,
+    outputSchema: listParsersOutputSchema,
+    handler: listParsers
+  }
+];
+
+/**
+ * Look up a tool definition by name
+ * @param name Tool name
+ * @returns The tool definition, or undefined if no such tool exists
+ */
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return toolDefinitions.find(tool => tool.name === name);
+}
+
+/**
+ * Validate tool input against the tool's input schema
+ * @param tool Tool definition
+ * @param input Input sent by the client
+ * @returns List of validation errors (empty if the input is valid)
+ */
+export function validateToolInput(tool: ToolDefinition, input: any): ValidationError[] {
+  return validateAgainstSchema(input, tool.inputSchema);
+}
@@ -1,5 +1,8 @@
-import { symbolRegistry, SymbolType } from '../registry/symbolRegistry';
-import { refreshRegistry } from './refreshRegistry';
+import { SymbolType, sourceLocationSchema } from '../registry/symbolRegistry';
+import { workspaces } from '../registry/workspace';
+import { JsonSchema } from '../schema';
+import { ensureRegistryFresh } from './refreshRegistry';
+import { SourceLocation, ToolContext } from '../types';
 
 /**
  * Input for the autocomplete_symbol tool
@@ -9,6 +12,8 @@ export interface AutocompleteSymbolInput {
   type?: string;            // Optional filter by symbol type
   limit?: number;           // Maximum number of results (default: 10)
   includePrivate?: boolean; // Whether to include private symbols (default: false)
+  package?: string;         // Optional filter by package name
+  root?: string;            // Workspace root to complete from (default: every workspace)
 }
 
 /**
@@ -18,25 +23,77 @@ export interface AutocompleteSymbolResult {
   completions: Array<{
     symbol: string;         // The completed symbol name
     type: string;           // Symbol type
+    qualifiedName?: string; // Fully-qualified name of the symbol
     signature?: string;     // Optional signature for functions/methods
     description?: string;   // Optional description from JSDoc
     filePath?: string;      // Optional file path where the symbol is defined
+    location?: SourceLocation; // Where the symbol is defined in that file
+    package?: string;       // Package the symbol belongs to
+    root?: string;          // Workspace root the symbol belongs to
   }>;
 }
 
+/**
+ * JSON Schema for the autocomplete_symbol input
+ */
+export const autocompleteSymbolInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    prefix: { type: 'string', minLength: 1, description: 'Partial symbol name to complete; Class.part completes the members of Class' },
+    type: { type: 'string', enum: Object.values(SymbolType), description: 'Only complete symbols of this type' },
+    limit: { type: 'integer', minimum: 1, default: 10, description: 'Maximum number of completions' },
+    includePrivate: { type: 'boolean', default: false, description: 'Include private symbols' },
+    package: { type: 'string', description: 'Only complete symbols of the package with this name' },
+    root: { type: 'string', description: 'Only complete symbols of this workspace root (default: every workspace)' }
+  },
+  required: ['prefix'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the autocomplete_symbol result
+ */
+export const autocompleteSymbolOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    completions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          symbol: { type: 'string' },
+          type: { type: 'string' },
+          qualifiedName: { type: 'string' },
+          signature: { type: 'string' },
+          description: { type: 'string' },
+          filePath: { type: 'string' },
+          location: sourceLocationSchema,
+          package: { type: 'string' },
+          root: { type: 'string' }
+        },
+        required: ['symbol', 'type']
+      }
+    }
+  },
+  required: ['completions']
+};
+
 /**
  * Autocomplete a partial symbol name
  * @param input The autocomplete query parameters
+ * @param context Tool context (cancellation signal)
  * @returns Autocompletion results
  */
-export async function autocompleteSymbol(input: AutocompleteSymbolInput): Promise<AutocompleteSymbolResult> {
+export async function autocompleteSymbol(input: AutocompleteSymbolInput, context: ToolContext = {}): Promise<AutocompleteSymbolResult> {
   // Validate input
   if (!input.prefix || typeof input.prefix !== 'string') {
     return { completions: [] };
   }
   
-  // Ensure registry is up-to-date
-  await refreshRegistry({ fullScan: false });
+  // Ensure the registries are up-to-date
+  for (const workspace of workspaces.select(input.root)) {
+    await ensureRegistryFresh(workspace, context);
+  }
 
   // Convert type string to enum if provided
   let symbolType: SymbolType | undefined;
@@ -75,21 +132,26 @@ export async function autocompleteSymbol(input: AutocompleteSymbolInput): Promis
   const limit = input.limit || 10;
 
   // Perform the search to get possible completions
-  const searchResult = symbolRegistry.search({
+  const searchResult = workspaces.search({
     query: input.prefix,
     type: symbolType,
     exactMatch: false,
     includePrivate: input.includePrivate || false,
+    package: input.package,
     limit: limit
-  });
+  }, input.root);
 
   // Map search results to completions
   const completions = searchResult.results.map(result => ({
     symbol: result.symbol,
     type: result.type,
+    qualifiedName: result.qualifiedName,
     signature: result.signature,
     description: result.description,
-    filePath: result.file
+    filePath: result.file,
+    location: result.location,
+    package: result.package,
+    root: result.root
   }));
 
   return { completions };
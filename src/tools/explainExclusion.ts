@@ -0,0 +1,65 @@
+import * as path from 'path';
+import { getExclusionReason } from '../config/projectFiles';
+import { workspaces } from '../registry/workspace';
+import { JsonSchema } from '../schema';
+
+/**
+ * Input for the explain_exclusion tool
+ */
+export interface ExplainExclusionInput {
+  file: string;
+  root?: string;          // Workspace root whose rules apply (default: the root containing the file)
+}
+
+/**
+ * Result of explain_exclusion
+ */
+export interface ExplainExclusionResult {
+  file: string;
+  root: string;           // Workspace root whose rules were applied
+  included: boolean;
+  reason?: string;        // The rule that excludes the file (config rule or ignore file line)
+}
+
+/**
+ * JSON Schema for the explain_exclusion input
+ */
+export const explainExclusionInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string', minLength: 1, description: 'Path to check (absolute or relative to the workspace root)' },
+    root: { type: 'string', description: 'Workspace root whose rules apply (default: the root containing the file)' }
+  },
+  required: ['file'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the explain_exclusion result
+ */
+export const explainExclusionOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    root: { type: 'string' },
+    included: { type: 'boolean' },
+    reason: { type: 'string' }
+  },
+  required: ['file', 'root', 'included']
+};
+
+/**
+ * Explains whether a path is part of the project and, if not, which rule excludes it
+ * @param input The input object containing the path
+ * @returns Whether the file is included and the excluding rule
+ */
+export async function explainExclusion(input: ExplainExclusionInput): Promise<ExplainExclusionResult> {
+  const selected = input.root !== undefined ? workspaces.select(input.root)[0] : undefined;
+  const filePath = path.resolve((selected || workspaces.getPrimary()).root, input.file);
+  const { root, config } = selected || workspaces.forFile(filePath);
+  const reason = getExclusionReason(filePath, config.getConfig(), root);
+
+  return reason === undefined
+    ? { file: filePath, root, included: true }
+    : { file: filePath, root, included: false, reason };
+}
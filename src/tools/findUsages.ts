@@ -1,18 +1,27 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { symbolRegistry, SymbolType } from '../registry/symbolRegistry';
-import { globSync } from 'glob';
-import { refreshRegistry } from './refreshRegistry';
+import { SymbolType, sourceLocationSchema } from '../registry/symbolRegistry';
+import { SymbolCandidate, symbolCandidatesSchema, Workspace, workspaces } from '../registry/workspace';
+import { groupByPackage, PackageGroup, packageGroupsSchema } from '../config/packages';
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { ensureRegistryFresh } from './refreshRegistry';
+import { JsonSchema } from '../schema';
+import { SourceLocation, ToolContext } from '../types';
+import { listProjectFiles } from '../config/projectFiles';
 
 /**
  * Input for the find_usages tool
  */
 export interface FindUsagesInput {
-  symbol: string;          // Symbol name to find usages for
+  symbol: string;          // Symbol name, qualified name (path#Class.method, Class.method) or stable id
   type?: string;           // Optional symbol type to disambiguate
   file?: string;           // Optional file path to disambiguate (source file)
+  package?: string;        // Optional package name to disambiguate (package of the definition)
+  usagePackage?: string;   // Only report usages in files of this package
+  groupByPackage?: boolean; // Whether to list the usages package by package
   includeDefinition?: boolean; // Whether to include the definition in results (default: true)
   maxResults?: number;     // Maximum number of results to return (default: 50)
+  root?: string;           // Workspace root to search (default: every workspace)
 }
 
 /**
@@ -20,6 +29,9 @@ export interface FindUsagesInput {
  */
 interface UsageLocation {
   file: string;            // File where the usage occurs
+  root: string;            // Workspace root of the file
+  package?: string;        // Package of the file
+  packageVersion?: string; // Version of that package
   line: number;            // Line number in the file
   column: number;          // Column in the line
   snippet: string;         // Code snippet containing the usage
@@ -32,17 +44,87 @@ interface UsageLocation {
 export interface FindUsagesResult {
   symbol: string;          // The symbol that was searched for
   type: string;            // Symbol type
+  id?: string;             // Stable id of the definition
+  qualifiedName?: string;  // Fully-qualified name of the definition
+  location?: SourceLocation; // Ranges of the definition and of its name
+  root?: string;           // Workspace root of the definition
+  package?: string;        // Package of the definition
   usages: UsageLocation[]; // Locations where the symbol is used
+  groups?: PackageGroup[]; // Packages in the order their usages are listed (with groupByPackage)
   totalFound: number;      // Total number of usages found (may be more than returned)
   limitReached: boolean;   // Whether the result limit was reached
+  error?: string;          // Why no definition was found (not found, or the name is ambiguous)
+  candidates?: SymbolCandidate[]; // Symbols an ambiguous name matches
 }
 
+/**
+ * JSON Schema for the find_usages input
+ */
+export const findUsagesInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string', minLength: 1, description: 'Symbol name, qualified name (path#Class.method or Class.method; module.Class.method for Python) or stable id' },
+    type: { type: 'string', enum: Object.values(SymbolType), description: 'Symbol type, to disambiguate' },
+    file: { type: 'string', description: 'Source file of the definition, to disambiguate' },
+    package: { type: 'string', description: 'Package of the definition, to disambiguate' },
+    usagePackage: { type: 'string', description: 'Only report usages in files of this package' },
+    groupByPackage: { type: 'boolean', default: false, description: 'List the usages package by package and count them per package' },
+    includeDefinition: { type: 'boolean', default: true, description: 'Include the definition in the results' },
+    maxResults: { type: 'integer', minimum: 1, default: 50, description: 'Maximum number of usages to return' },
+    root: { type: 'string', description: 'Only search this workspace root (default: every workspace)' }
+  },
+  required: ['symbol'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the find_usages result
+ */
+export const findUsagesOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string' },
+    type: { type: 'string' },
+    id: { type: 'string' },
+    qualifiedName: { type: 'string' },
+    location: sourceLocationSchema,
+    root: { type: 'string' },
+    package: { type: 'string' },
+    usages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          root: { type: 'string' },
+          package: { type: 'string' },
+          packageVersion: { type: 'string' },
+          line: { type: 'integer' },
+          column: { type: 'integer' },
+          snippet: { type: 'string' },
+          isDefinition: { type: 'boolean' }
+        },
+        required: ['file', 'root', 'line', 'column', 'snippet', 'isDefinition']
+      }
+    },
+    totalFound: { type: 'integer' },
+    limitReached: { type: 'boolean' },
+    groups: packageGroupsSchema,
+    error: { type: 'string' },
+    candidates: symbolCandidatesSchema
+  },
+  required: ['symbol', 'type', 'usages', 'totalFound', 'limitReached']
+};
+
 /**
  * Find all usages of a symbol across the codebase
  * @param input The find usages query parameters
+ * @param context Tool context; the scan stops when its signal is aborted
  * @returns Locations where the symbol is used
  */
-export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResult> {
+export async function findUsages(input: FindUsagesInput, context: ToolContext = {}): Promise<FindUsagesResult> {
+  const { signal } = context;
+
   // Validate input
   if (!input.symbol || typeof input.symbol !== 'string') {
     return {
@@ -54,8 +136,11 @@ export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResu
     };
   }
   
-  // Ensure registry is up-to-date
-  await refreshRegistry({ fullScan: false });
+  // Ensure the registries are up-to-date
+  const selected = workspaces.select(input.root);
+  for (const workspace of selected) {
+    await ensureRegistryFresh(workspace, context);
+  }
 
   // Convert type string to enum if provided
   let symbolType: SymbolType | undefined;
@@ -74,100 +159,80 @@ export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResu
     symbolType = typeMap[input.type.toLowerCase()];
   }
 
-  // Find the symbol definition first
-  const searchResult = symbolRegistry.search({
+  // Find the symbol definition first; usages of a name several symbols share are not mixed together
+  const resolution = workspaces.resolve({
     query: input.symbol,
     type: symbolType,
     file: input.file,
-    exactMatch: true,
-    includePrivate: true,
-    limit: 1
-  });
+    package: input.package,
+    includePrivate: true
+  }, input.root);
 
-  // Check if the symbol was found
-  if (searchResult.results.length === 0) {
+  if ('error' in resolution) {
     return {
       symbol: input.symbol,
       type: input.type || 'unknown',
       usages: [],
       totalFound: 0,
-      limitReached: false
+      limitReached: false,
+      error: resolution.error,
+      candidates: resolution.candidates
     };
   }
 
   // Get the symbol information
-  const symbolInfo = searchResult.results[0];
+  const symbolInfo = resolution.symbol;
   const symbolName = symbolInfo.symbol;
   const symbolFile = symbolInfo.file;
+  const symbolRoot = symbolInfo.root!;
+  const symbolPackage = { package: symbolInfo.package, packageVersion: symbolInfo.packageVersion };
   
   // Initialize results array
   const usages: UsageLocation[] = [];
   
-  // Include the definition if requested
-  if (input.includeDefinition !== false && fs.existsSync(symbolFile)) {
+  // Include the definition if requested (and it is in the package usages are reported for)
+  const definitionWanted = !input.usagePackage || symbolInfo.package === input.usagePackage;
+  if (input.includeDefinition !== false && definitionWanted && fs.existsSync(symbolFile)) {
     try {
       const fileContent = fs.readFileSync(symbolFile, 'utf8');
       const lines = fileContent.split('\n');
       
-      // Simple heuristic to find the definition line
-      let definitionLine = 0;
-      let definitionColumn = 0;
-      
-      // For methods/properties, look for "name: " or "name(" patterns
-      // For classes/interfaces/functions, look for "name {" or "name(" patterns
-      const patterns = [
-        new RegExp(`\\b${escapeRegExp(symbolName)}\\s*\\(`),        // Function/method call
-        new RegExp(`\\b${escapeRegExp(symbolName)}\\s*\\{`),        // Class/interface definition
-        new RegExp(`\\b${escapeRegExp(symbolName)}\\s*:`),          // Property definition
-        new RegExp(`\\bfunction\\s+${escapeRegExp(symbolName)}\\b`) // Function declaration
-      ];
+      // Parsers record where the name is declared; guess from the source text for symbols without a location
+      const position = symbolInfo.location
+        ? { line: symbolInfo.location.name.line - 1, column: symbolInfo.location.name.column - 1 }
+        : guessDefinitionPosition(lines, symbolName);
       
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        for (const pattern of patterns) {
-          const match = pattern.exec(line);
-          if (match) {
-            definitionLine = i;
-            definitionColumn = match.index;
-            
-            // Get a snippet around the definition (3 lines)
-            const startLine = Math.max(0, definitionLine - 1);
-            const endLine = Math.min(lines.length - 1, definitionLine + 1);
-            const snippet = lines.slice(startLine, endLine + 1).join('\\n');
-            
-            usages.push({
-              file: symbolFile,
-              line: definitionLine + 1, // 1-based line numbers
-              column: definitionColumn + 1, // 1-based column numbers
-              snippet,
-              isDefinition: true
-            });
-            
-            // We found a match, no need to check other patterns
-            break;
-          }
-        }
+      if (position) {
+        // Get a snippet around the definition (3 lines)
+        const startLine = Math.max(0, position.line - 1);
+        const endLine = Math.min(lines.length - 1, position.line + 1);
+        const snippet = lines.slice(startLine, endLine + 1).join('\\n');
         
-        // If we found the definition, no need to check other lines
-        if (definitionLine > 0) {
-          break;
-        }
+        usages.push({
+          file: symbolFile,
+          root: symbolRoot,
+          ...symbolPackage,
+          line: position.line + 1, // 1-based line numbers
+          column: position.column + 1, // 1-based column numbers
+          snippet,
+          isDefinition: true
+        });
       }
     } catch (error) {
       console.error(`Error reading file ${symbolFile}:`, error);
     }
   }
   
-  // Find all potential files to search
+  // Find all potential files to search, honoring each workspace's mcpconfig.json
   // This could be optimized to only search in relevant files
-  const filePatterns = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx'];
-  const cwd = process.cwd();
-  const allFiles: string[] = [];
-  
-  // Gather all files matching patterns
-  for (const pattern of filePatterns) {
-    const files = globSync(pattern, { cwd, absolute: true });
-    allFiles.push(...files);
+  // A file under nested roots is searched once, as part of the first workspace listing it
+  const allFiles = new Map<string, Workspace>();
+  for (const workspace of selected) {
+    for (const file of await listProjectFiles(workspace.config, { signal })) {
+      if (!allFiles.has(file)) {
+        allFiles.set(file, workspace);
+      }
+    }
   }
   
   // Search for usages in all files
@@ -175,11 +240,20 @@ export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResu
   let totalFound = usages.length; // Start with definition if included
   let limitReached = false;
   
-  for (const file of allFiles) {
+  for (const [file, workspace] of allFiles) {
+    // Give cancellation notifications a chance to arrive, then stop if cancelled
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+
     // Skip the definition file if we already processed it
     if (file === symbolFile && input.includeDefinition !== false) {
       continue;
     }
+
+    const filePackage = workspace.packages.resolve(file);
+    if (input.usagePackage && filePackage?.name !== input.usagePackage) {
+      continue;
+    }
     
     try {
       if (fs.existsSync(file)) {
@@ -212,6 +286,9 @@ export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResu
             
             usages.push({
               file,
+              root: workspace.root,
+              package: filePackage?.name,
+              packageVersion: filePackage?.version,
               line: i + 1, // 1-based line numbers
               column: match.index + 1, // 1-based column numbers
               snippet,
@@ -233,13 +310,54 @@ export async function findUsages(input: FindUsagesInput): Promise<FindUsagesResu
     }
   }
   
-  return {
+  const result: FindUsagesResult = {
     symbol: symbolName,
     type: symbolInfo.type,
+    id: symbolInfo.id,
+    qualifiedName: symbolInfo.qualifiedName,
+    location: symbolInfo.location,
+    root: symbolRoot,
+    package: symbolInfo.package,
     usages,
     totalFound,
     limitReached
   };
+
+  if (input.groupByPackage) {
+    const { items, groups } = groupByPackage(usages);
+    result.usages = items;
+    result.groups = groups;
+  }
+
+  return result;
+}
+
+/**
+ * Guess where a symbol is defined from the source text
+ * @param lines Lines of the file defining the symbol
+ * @param symbolName Name of the symbol
+ * @returns 0-based line and column of the first likely definition, if any
+ */
+function guessDefinitionPosition(lines: string[], symbolName: string): { line: number; column: number } | undefined {
+  // For methods/properties, look for "name: " or "name(" patterns
+  // For classes/interfaces/functions, look for "name {" or "name(" patterns
+  const patterns = [
+    new RegExp(`\\b${escapeRegExp(symbolName)}\\s*\\(`),        // Function/method call
+    new RegExp(`\\b${escapeRegExp(symbolName)}\\s*\\{`),        // Class/interface definition
+    new RegExp(`\\b${escapeRegExp(symbolName)}\\s*:`),          // Property definition
+    new RegExp(`\\bfunction\\s+${escapeRegExp(symbolName)}\\b`) // Function declaration
+  ];
+  
+  for (let i = 0; i < lines.length; i++) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(lines[i]);
+      if (match) {
+        return { line: i, column: match.index };
+      }
+    }
+  }
+  
+  return undefined;
 }
 
 /**
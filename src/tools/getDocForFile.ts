@@ -2,23 +2,153 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { parserRegistry } from '../parsers';
 import { registerParsers } from '../parsers/register';
-import { FileDocResponse, ErrorResponse } from '../types';
-import { symbolRegistry } from '../registry/symbolRegistry';
+import { FileDocResponse, ErrorResponse, ToolContext } from '../types';
+import { workspaces } from '../registry/workspace';
+import { JsonSchema } from '../schema';
+import { sourceLocationSchema } from '../registry/symbolRegistry';
 
 // Interface for the input
 export interface GetDocForFileInput {
   file: string;
+  root?: string;    // Workspace root the file belongs to (default: the root containing the file)
 }
 
+/**
+ * JSON Schema for the get_doc_for_file input
+ */
+export const getDocForFileInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string', minLength: 1, description: 'Path of the file to document (absolute or relative to the workspace root)' },
+    root: { type: 'string', description: 'Workspace root the file belongs to (default: the root containing the file)' }
+  },
+  required: ['file'],
+  additionalProperties: false
+};
+
+// Schemas for the pieces of a FileDocResponse
+const paramsSchema: JsonSchema = { type: 'array', items: { type: 'string' } };
+const visibilitySchema: JsonSchema = { type: 'string', enum: ['public', 'private', 'protected'] };
+
+const methodDocSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    params: paramsSchema,
+    returnType: { type: 'string' },
+    description: { type: 'string' },
+    visibility: visibilitySchema,
+    location: sourceLocationSchema
+  },
+  required: ['name', 'params']
+};
+
+const propertyDocSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'string' },
+    description: { type: 'string' },
+    visibility: visibilitySchema,
+    location: sourceLocationSchema
+  },
+  required: ['name']
+};
+
+/**
+ * JSON Schema for the get_doc_for_file result
+ */
+export const getDocForFileOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    filePath: { type: 'string' },
+    functions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          params: paramsSchema,
+          returnType: { type: 'string' },
+          description: { type: 'string' },
+          exported: { type: 'boolean' },
+          location: sourceLocationSchema
+        },
+        required: ['name', 'params', 'exported']
+      }
+    },
+    classes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          exported: { type: 'boolean' },
+          methods: { type: 'array', items: methodDocSchema },
+          properties: { type: 'array', items: propertyDocSchema },
+          isComponent: { type: 'boolean' },
+          location: sourceLocationSchema
+        },
+        required: ['name', 'exported', 'methods', 'properties']
+      }
+    },
+    interfaces: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          exported: { type: 'boolean' },
+          properties: { type: 'array', items: propertyDocSchema },
+          methods: { type: 'array', items: methodDocSchema },
+          location: sourceLocationSchema
+        },
+        required: ['name', 'exported', 'properties', 'methods']
+      }
+    },
+    typeAliases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string' },
+          description: { type: 'string' },
+          exported: { type: 'boolean' },
+          location: sourceLocationSchema
+        },
+        required: ['name', 'type', 'exported']
+      }
+    },
+    routes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          method: { type: 'string' },
+          path: { type: 'string' },
+          handler: { type: 'string' },
+          description: { type: 'string' },
+          location: sourceLocationSchema
+        }
+      }
+    }
+  },
+  required: ['filePath']
+};
+
 // Initialize the parser registry
 registerParsers();
 
 /**
  * Extracts documentation from a file using the appropriate parser
  * @param input The input object containing the file path
+ * @param context Tool context; its workspace, if set, receives the symbols
  * @returns Structured documentation or error response
  */
-export async function getDocForFile(input: GetDocForFileInput): Promise<FileDocResponse | ErrorResponse> {
+export async function getDocForFile(input: GetDocForFileInput, context: ToolContext = {}): Promise<FileDocResponse | ErrorResponse> {
   // Validate input
   if (!input.file || typeof input.file !== 'string') {
     return {
@@ -27,7 +157,21 @@ export async function getDocForFile(input: GetDocForFileInput): Promise<FileDocR
     };
   }
 
-  const filePath = path.resolve(input.file);
+  let workspace = context.workspace;
+  if (!workspace && input.root !== undefined) {
+    try {
+      [workspace] = workspaces.select(input.root);
+    } catch (error) {
+      return {
+        error: 'Unknown workspace root',
+        details: (error as Error).message
+      };
+    }
+  }
+
+  // Relative paths are relative to the workspace root (the primary one unless given)
+  const filePath = path.resolve((workspace || workspaces.getPrimary()).root, input.file);
+  workspace = workspace || workspaces.forFile(filePath);
 
   // Check if file exists
   if (!fs.existsSync(filePath)) {
@@ -37,10 +181,9 @@ export async function getDocForFile(input: GetDocForFileInput): Promise<FileDocR
     };
   }
 
-  // Get a parser for this file
-  const parser = parserRegistry.getParserForFile(filePath);
-  
-  if (!parser) {
+  // Check for a parser before handing the file to a worker
+  await workspace.syncPlugins();
+  if (!parserRegistry.getParserForFile(filePath)) {
     const ext = path.extname(filePath).toLowerCase();
     return {
       error: 'Unsupported file type',
@@ -48,20 +191,17 @@ export async function getDocForFile(input: GetDocForFileInput): Promise<FileDocR
     };
   }
   
-  try {
-    // Use the parser to parse the file
-    const result = await parser.parseFile(filePath);
-    
-    // If parsing was successful, register the symbols
-    if (!('error' in result)) {
-      symbolRegistry.registerFileSymbols(result);
-    }
-    
-    return result;
-  } catch (error) {
-    return {
-      error: 'Parsing error',
-      details: (error as Error).message
-    };
+  // Parse the file in a worker thread
+  workspace.parsers.configure(workspace.config.getConfig().parsing);
+  const outcome = await workspace.parsers.parse(filePath);
+  
+  // If parsing was successful, register the symbols
+  if (!('error' in outcome.result)) {
+    workspace.registry.registerFileSymbols(outcome.result, outcome.content);
+  } else if (outcome.skipped || outcome.aborted) {
+    // Drop the file's old symbols; it is tried again once it changes
+    workspace.registry.registerFileSymbols({ filePath }, outcome.content);
   }
+  
+  return outcome.result;
 }
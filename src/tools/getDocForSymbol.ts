@@ -1,14 +1,19 @@
-import { symbolRegistry, SymbolType, SymbolInfo } from '../registry/symbolRegistry';
-import { refreshRegistry } from './refreshRegistry';
+import { SymbolType, SymbolInfo, sourceLocationSchema } from '../registry/symbolRegistry';
+import { SymbolCandidate, symbolCandidatesSchema, workspaces } from '../registry/workspace';
+import { JsonSchema } from '../schema';
+import { ensureRegistryFresh } from './refreshRegistry';
+import { SourceLocation, ToolContext } from '../types';
 
 /**
  * Input for the get_doc_for_symbol tool
  */
 export interface GetDocForSymbolInput {
-  symbol: string;          // Symbol name to get documentation for
+  symbol: string;          // Symbol name, qualified name (path#Class.method, Class.method) or stable id
   type?: string;           // Optional symbol type to disambiguate
   file?: string;           // Optional file path to disambiguate
+  package?: string;        // Optional package name to disambiguate
   includeRelated?: boolean; // Whether to include related symbols (default: true)
+  root?: string;           // Workspace root to look in (default: every workspace)
 }
 
 /**
@@ -17,8 +22,11 @@ export interface GetDocForSymbolInput {
 interface RelatedSymbolInfo {
   symbol: string;
   type: string;
+  id?: string;
+  qualifiedName?: string;
   relationship: 'parent' | 'child' | 'sibling' | 'implementation';
   description?: string;
+  location?: SourceLocation;
 }
 
 /**
@@ -29,7 +37,13 @@ export interface GetDocForSymbolResult {
   symbol?: {
     name: string;          // Symbol name
     type: string;          // Symbol type
+    id?: string;           // Stable id
+    qualifiedName?: string; // Fully-qualified name
     file: string;          // File where the symbol is defined
+    location?: SourceLocation; // Ranges of the declaration and of its name in the file
+    root?: string;         // Workspace root the symbol belongs to
+    package?: string;      // Package the symbol belongs to
+    packageVersion?: string; // Version of that package
     description?: string;  // Description from JSDoc
     signature?: string;    // Signature for functions/methods
     exported?: boolean;    // Whether the symbol is exported
@@ -37,15 +51,83 @@ export interface GetDocForSymbolResult {
     metadata?: Record<string, any>; // Additional metadata
     relatedSymbols?: RelatedSymbolInfo[]; // Related symbols
   };
-  error?: string;         // Error message if symbol not found
+  error?: string;         // Error message if the symbol was not found or the name is ambiguous
+  candidates?: SymbolCandidate[]; // Symbols an ambiguous name matches
 }
 
+/**
+ * JSON Schema for the get_doc_for_symbol input
+ */
+export const getDocForSymbolInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string', minLength: 1, description: 'Symbol name, qualified name (path#Class.method or Class.method; module.Class.method for Python) or stable id' },
+    type: { type: 'string', enum: Object.values(SymbolType), description: 'Symbol type, to disambiguate' },
+    file: { type: 'string', description: 'File path (or part of it), to disambiguate' },
+    package: { type: 'string', description: 'Package name, to disambiguate' },
+    includeRelated: { type: 'boolean', default: true, description: 'Include parent and child symbols' },
+    root: { type: 'string', description: 'Only look in this workspace root (default: every workspace)' }
+  },
+  required: ['symbol'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the get_doc_for_symbol result
+ */
+export const getDocForSymbolOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    found: { type: 'boolean' },
+    symbol: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        type: { type: 'string' },
+        id: { type: 'string' },
+        qualifiedName: { type: 'string' },
+        file: { type: 'string' },
+        location: sourceLocationSchema,
+        root: { type: 'string' },
+        package: { type: 'string' },
+        packageVersion: { type: 'string' },
+        description: { type: 'string' },
+        signature: { type: 'string' },
+        exported: { type: 'boolean' },
+        visibility: { type: 'string' },
+        metadata: { type: 'object' },
+        relatedSymbols: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string' },
+              type: { type: 'string' },
+              id: { type: 'string' },
+              qualifiedName: { type: 'string' },
+              relationship: { type: 'string', enum: ['parent', 'child', 'sibling', 'implementation'] },
+              description: { type: 'string' },
+              location: sourceLocationSchema
+            },
+            required: ['symbol', 'type', 'relationship']
+          }
+        }
+      },
+      required: ['name', 'type', 'file']
+    },
+    error: { type: 'string' },
+    candidates: symbolCandidatesSchema
+  },
+  required: ['found']
+};
+
 /**
  * Get detailed documentation for a specific symbol
  * @param input The symbol query parameters
+ * @param context Tool context (cancellation signal)
  * @returns Detailed documentation for the symbol
  */
-export async function getDocForSymbol(input: GetDocForSymbolInput): Promise<GetDocForSymbolResult> {
+export async function getDocForSymbol(input: GetDocForSymbolInput, context: ToolContext = {}): Promise<GetDocForSymbolResult> {
   // Validate input
   if (!input.symbol || typeof input.symbol !== 'string') {
     return {
@@ -54,8 +136,10 @@ export async function getDocForSymbol(input: GetDocForSymbolInput): Promise<GetD
     };
   }
   
-  // Ensure registry is up-to-date
-  await refreshRegistry({ fullScan: false });
+  // Ensure the registries are up-to-date
+  for (const workspace of workspaces.select(input.root)) {
+    await ensureRegistryFresh(workspace, context);
+  }
 
   // Convert type string to enum if provided
   let symbolType: SymbolType | undefined;
@@ -90,72 +174,53 @@ export async function getDocForSymbol(input: GetDocForSymbolInput): Promise<GetD
     }
   }
 
-  // Search for the symbol
-  const searchResult = symbolRegistry.search({
+  // Look up the symbol; a name several symbols share is answered with the candidates
+  const resolution = workspaces.resolve({
     query: input.symbol,
     type: symbolType,
     file: input.file,
-    exactMatch: true,
-    includePrivate: true, // Include private symbols when getting specific documentation
-    limit: 1
-  });
+    package: input.package,
+    includePrivate: true // Include private symbols when getting specific documentation
+  }, input.root);
 
-  // Check if any results were found
-  if (searchResult.results.length === 0) {
+  if ('error' in resolution) {
     return {
       found: false,
-      error: `Symbol '${input.symbol}' not found`
+      error: resolution.error,
+      candidates: resolution.candidates
     };
   }
 
-  // Get the first result
-  const symbolInfo = searchResult.results[0];
+  const symbolInfo = resolution.symbol;
+
+  // Related symbols are defined in the same file of the same workspace
+  const [{ registry }] = workspaces.select(symbolInfo.root);
   
   // Determine related symbols
   const relatedSymbols: RelatedSymbolInfo[] = [];
+  const describeRelated = (related: SymbolInfo, relationship: RelatedSymbolInfo['relationship']): RelatedSymbolInfo => ({
+    symbol: related.symbol,
+    type: related.type,
+    id: related.id,
+    qualifiedName: related.qualifiedName,
+    relationship,
+    description: related.description,
+    location: related.location
+  });
   
   if (input.includeRelated !== false) {
     // Find related symbols based on relationship types
     
     // For methods or properties, find their parent class/interface
-    if (symbolInfo.parentSymbol) {
-      const parentSearch = symbolRegistry.search({
-        query: symbolInfo.parentSymbol,
-        exactMatch: true,
-        limit: 1
-      });
-      
-      if (parentSearch.results.length > 0) {
-        const parent = parentSearch.results[0];
-        relatedSymbols.push({
-          symbol: parent.symbol,
-          type: parent.type,
-          relationship: 'parent',
-          description: parent.description
-        });
-      }
+    const parent = registry.getParentSymbol(symbolInfo);
+    if (parent) {
+      relatedSymbols.push(describeRelated(parent, 'parent'));
     }
     
     // For classes/interfaces, find their methods and properties
     if (symbolInfo.type === SymbolType.CLASS || symbolInfo.type === SymbolType.INTERFACE) {
-      const childrenSearch = symbolRegistry.search({
-        query: '',
-        exactMatch: false,
-        limit: 50,
-        includePrivate: true
-      });
-      
-      // Filter for children of this symbol
-      const children = childrenSearch.results.filter(s => s.parentSymbol === symbolInfo.symbol);
-      
-      // Add children to related symbols
-      children.forEach(child => {
-        relatedSymbols.push({
-          symbol: child.symbol,
-          type: child.type,
-          relationship: 'child',
-          description: child.description
-        });
+      registry.getMemberSymbols(symbolInfo).forEach(child => {
+        relatedSymbols.push(describeRelated(child, 'child'));
       });
     }
   }
@@ -166,7 +231,13 @@ export async function getDocForSymbol(input: GetDocForSymbolInput): Promise<GetD
     symbol: {
       name: symbolInfo.symbol,
       type: symbolInfo.type,
+      id: symbolInfo.id,
+      qualifiedName: symbolInfo.qualifiedName,
       file: symbolInfo.file,
+      location: symbolInfo.location,
+      root: symbolInfo.root,
+      package: symbolInfo.package,
+      packageVersion: symbolInfo.packageVersion,
       description: symbolInfo.description,
       signature: symbolInfo.signature,
       exported: symbolInfo.exported,
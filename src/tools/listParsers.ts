@@ -0,0 +1,124 @@
+import { parserRegistry, RegisteredParser, SYMBOL_KINDS, SymbolKind } from '../parsers';
+import { getPluginStatuses, PluginStatus } from '../parsers/plugins';
+import { workspaces } from '../registry/workspace';
+import { JsonSchema } from '../schema';
+// Registers the built-in parsers on the main thread
+import './getDocForFile';
+
+/**
+ * Input for the list_parsers tool
+ */
+export interface ListParsersInput {
+  root?: string;          // Workspace root whose parsers to list (default: every workspace)
+}
+
+/**
+ * A parser that is active, built-in or from a plugin
+ */
+export interface ParserInfo {
+  name: string;
+  version: string;
+  priority: number;       // Among parsers supporting a file, the highest priority parses it
+  extensions: string[];   // File extensions the parser handles
+  symbolKinds: SymbolKind[]; // Kinds of symbols it produces
+  builtin: boolean;
+  root?: string;          // Workspace root a plugin parser applies to
+  module?: string;        // Path of the plugin module
+}
+
+/**
+ * Result of list_parsers
+ */
+export interface ListParsersResult {
+  parsers: ParserInfo[];
+  plugins: PluginStatus[]; // Plugins listed in mcpconfig.json, including those that failed to load
+}
+
+/**
+ * JSON Schema for the list_parsers input
+ */
+export const listParsersInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    root: { type: 'string', description: 'Workspace root whose parsers to list (default: every workspace)' }
+  },
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the list_parsers result
+ */
+export const listParsersOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    parsers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          version: { type: 'string' },
+          priority: { type: 'number' },
+          extensions: { type: 'array', items: { type: 'string' } },
+          symbolKinds: { type: 'array', items: { type: 'string', enum: [...SYMBOL_KINDS] } },
+          builtin: { type: 'boolean' },
+          root: { type: 'string' },
+          module: { type: 'string' }
+        },
+        required: ['name', 'version', 'priority', 'extensions', 'symbolKinds', 'builtin']
+      }
+    },
+    plugins: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          plugin: { type: 'string' },
+          root: { type: 'string' },
+          module: { type: 'string' },
+          parser: { type: 'string' },
+          error: { type: 'string' }
+        },
+        required: ['plugin', 'root']
+      }
+    }
+  },
+  required: ['parsers', 'plugins']
+};
+
+/**
+ * Lists the active parsers, built-in and from plugins, and the plugins mcpconfig.json lists
+ * @param input The input object, optionally naming a workspace root
+ * @returns The parsers in order of preference and the status of each plugin
+ */
+export async function listParsers(input: ListParsersInput): Promise<ListParsersResult> {
+  const selected = workspaces.select(input.root);
+
+  // The built-in parsers apply to every root, so each is listed once
+  const entries = new Set<RegisteredParser>();
+  for (const workspace of selected) {
+    await workspace.syncPlugins();
+    parserRegistry.getParsers(workspace.root).forEach(entry => entries.add(entry));
+  }
+
+  return {
+    parsers: Array.from(entries, describeParser),
+    plugins: selected.flatMap(workspace => getPluginStatuses(workspace.root))
+  };
+}
+
+/**
+ * Describe a registered parser
+ */
+function describeParser({ parser, scope, module }: RegisteredParser): ParserInfo {
+  return {
+    name: parser.name,
+    version: parser.version,
+    priority: parser.priority ?? 0,
+    extensions: parser.capabilities.extensions,
+    symbolKinds: parser.capabilities.symbolKinds,
+    builtin: scope === undefined,
+    ...(scope !== undefined ? { root: scope } : {}),
+    ...(module !== undefined ? { module } : {})
+  };
+}
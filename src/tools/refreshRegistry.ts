@@ -1,15 +1,50 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { symbolRegistry } from '../registry/symbolRegistry';
-import { getDocForFile, GetDocForFileInput } from './getDocForFile';
+import { Workspace, workspaces } from '../registry/workspace';
+import { ParseOutcome } from '../parsers';
+import { ValidationError } from '../schema';
+// Registers the parsers on the main thread
+import './getDocForFile';
+import { JsonSchema } from '../schema';
+import { ProgressUpdate, ToolContext } from '../types';
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { isProjectFile } from '../config/projectFiles';
+import { findGitRoot, getChangedFilesSince, getHeadCommit, resolveCommit } from '../config/git';
 
 /**
  * Input for the refresh_registry tool
  */
 export interface RefreshRegistryInput {
   fullScan?: boolean;       // Whether to perform a full scan of the codebase
-  baseDir?: string;         // Base directory to scan (default: current working directory)
-  patterns?: string[];      // File patterns to include (default: all TypeScript and JavaScript files)
+  since?: string;           // Git ref; re-index the files changed since that commit
+  sinceLastIndexed?: boolean; // Re-index the files changed since the commit the registry was last built from
+  root?: string;            // Workspace root to refresh (default: every workspace)
+  baseDir?: string;         // Base directory to scan (default: the workspace root)
+  patterns?: string[];      // File patterns to include (default: every extension included by mcpconfig.json)
+}
+
+/**
+ * Time spent in one parser during a refresh
+ */
+export interface ParserTiming {
+  files: number;            // Number of files handled by the parser
+  totalMs: number;          // Total parse time in milliseconds
+}
+
+/**
+ * A file that could not be parsed during a refresh
+ */
+export interface FailedFile {
+  file: string;
+  error: string;
+}
+
+/**
+ * A file that was not parsed during a refresh because of a parse guard
+ */
+export interface SkippedFile {
+  file: string;
+  reason: string;
 }
 
 /**
@@ -17,55 +52,177 @@ export interface RefreshRegistryInput {
  */
 export interface RefreshRegistryResult {
   refreshed: boolean;
+  roots?: string[];         // Workspace roots that were refreshed
+  readOnlyRoots?: string[]; // Workspace roots whose registry another server process writes, left to that process
   filesProcessed: number;
   filesRemoved: number;
   symbols: number;
+  commits?: Record<string, string>;             // Workspace root -> git commit its registry was built from
+  parserTimings?: Record<string, ParserTiming>; // Parse time per parser name
+  failedFiles?: FailedFile[];                   // Files whose parsing returned an error, timed out or crashed
+  skippedFiles?: SkippedFile[];                 // Files too large to parse, minified or generated
+  configErrors?: ValidationError[];             // Problems found in mcpconfig.json
   error?: string;
 }
 
 /**
- * Refreshes the symbol registry by reprocessing files that have changed
+ * JSON Schema for the refresh_registry input
+ */
+export const refreshRegistryInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    fullScan: { type: 'boolean', default: false, description: 'Discover and parse all files instead of only re-parsing changed ones' },
+    since: { type: 'string', minLength: 1, description: 'Git ref (branch, tag, commit, HEAD~3); re-index the files added, changed, deleted or renamed since that commit, including uncommitted and untracked files' },
+    sinceLastIndexed: { type: 'boolean', default: false, description: 'Like since, with the commit the registry was last built from (a full scan if none is recorded)' },
+    root: { type: 'string', description: 'Workspace root to refresh (default: every workspace)' },
+    baseDir: { type: 'string', description: 'Base directory to scan, inside one of the workspaces (default: the workspace roots)' },
+    patterns: { type: 'array', items: { type: 'string' }, description: 'Glob patterns of files to include in a full scan (still filtered by mcpconfig.json)' }
+  },
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the refresh_registry result
+ */
+export const refreshRegistryOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    refreshed: { type: 'boolean' },
+    roots: { type: 'array', items: { type: 'string' } },
+    readOnlyRoots: { type: 'array', items: { type: 'string' } },
+    filesProcessed: { type: 'integer' },
+    filesRemoved: { type: 'integer' },
+    symbols: { type: 'integer' },
+    commits: { type: 'object', additionalProperties: { type: 'string' } },
+    parserTimings: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          files: { type: 'integer' },
+          totalMs: { type: 'number' }
+        },
+        required: ['files', 'totalMs']
+      }
+    },
+    failedFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          error: { type: 'string' }
+        },
+        required: ['file', 'error']
+      }
+    },
+    skippedFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          reason: { type: 'string' }
+        },
+        required: ['file', 'reason']
+      }
+    },
+    configErrors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          message: { type: 'string' }
+        },
+        required: ['field', 'message']
+      }
+    },
+    error: { type: 'string' }
+  },
+  required: ['refreshed', 'filesProcessed', 'filesRemoved', 'symbols']
+};
+
+// Minimum time between two progress notifications while parsing
+const PROGRESS_INTERVAL_MS = 100;
+
+// Files a refresh parses in one workspace
+interface FileDiscovery {
+  files: string[];
+  filesRemoved: number;     // Tracked files dropped because mcpconfig.json no longer includes them
+  gitRoot?: string;         // Repository whose HEAD the registry reflects once the files are parsed
+}
+
+/**
+ * Refreshes the symbol registries by reprocessing files that have changed
  * @param input Refresh parameters
- * @returns Refresh results
+ * @param context Tool context; processing stops between files when its signal is aborted,
+ *   and progress is reported while parsing if the caller asked for it
+ * @returns Refresh results, summed over the refreshed workspaces
  */
-export async function refreshRegistry(input: RefreshRegistryInput): Promise<RefreshRegistryResult> {
+export async function refreshRegistry(input: RefreshRegistryInput, context: ToolContext = {}): Promise<RefreshRegistryResult> {
+  const { signal } = context;
+  const reportProgress = context.reportProgress || (() => {});
+
   try {
-    // Clean up symbols for deleted files first
-    symbolRegistry.cleanupDeletedFiles();
-    
-    // Determine which files need to be refreshed
-    const baseDir = input.baseDir || process.cwd();
-    let filesToProcess: string[] = [];
-    let filesRemoved = 0;
-    
-    // If full scan requested, discover all files in the codebase
-    if (input.fullScan) {
-      const patterns = input.patterns || ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx'];
-      filesToProcess = await symbolRegistry.fullScan(baseDir, patterns);
-    } else {
-      // Otherwise, just get the files that have changed
-      filesToProcess = await symbolRegistry.getFilesNeedingRefresh();
-    }
-    
-    // Process each file
-    for (const filePath of filesToProcess) {
-      if (fs.existsSync(filePath)) {
-        // Reuse getDocForFile to parse the file and update registry
-        await getDocForFile({ file: filePath });
+    const selected = selectWorkspaces(input, context);
+    const result: RefreshRegistryResult = {
+      refreshed: true,
+      roots: [],
+      filesProcessed: 0,
+      filesRemoved: 0,
+      symbols: 0,
+      parserTimings: {},
+      failedFiles: [],
+      skippedFiles: []
+    };
+
+    const writable: Workspace[] = [];
+    for (const workspace of selected) {
+      if (workspace.registry.isReadOnly()) {
+        result.readOnlyRoots = [...(result.readOnlyRoots || []), workspace.root];
+        result.symbols += workspace.registry.getSymbolCount();
       } else {
-        // File no longer exists, remove its symbols
-        symbolRegistry.removeFileSymbols(filePath);
-        filesRemoved++;
+        writable.push(workspace);
       }
     }
-    
-    return {
-      refreshed: true,
-      filesProcessed: filesToProcess.length,
-      filesRemoved,
-      symbols: symbolRegistry.getAllSymbols().length
-    };
+
+    // Write each registry once at the end instead of after every file
+    await inBatches(writable, async () => {
+      // The files of every workspace are discovered first, so progress has one total that does not change
+      const discoveries: FileDiscovery[] = [];
+      for (const workspace of writable) {
+        discoveries.push(await discoverFiles(workspace, input, signal));
+      }
+      const total = discoveries.reduce((sum, discovery) => sum + discovery.files.length, 0);
+      reportProgress(describeProgress(0, total));
+
+      // Count a processed file of any workspace and report progress
+      let done = 0;
+      let lastProgressAt = 0;
+      const fileDone = (workspace: Workspace, filePath: string) => {
+        done++;
+        const now = Date.now();
+        if (now - lastProgressAt >= PROGRESS_INTERVAL_MS || done === total) {
+          lastProgressAt = now;
+          reportProgress(describeProgress(done, total, workspace, filePath));
+        }
+      };
+
+      for (const [i, workspace] of writable.entries()) {
+        const part = await refreshFiles(workspace, discoveries[i], signal, filePath => fileDone(workspace, filePath));
+        result.roots!.push(workspace.root);
+        addResult(result, part);
+      }
+    });
+
+    return result;
   } catch (error) {
+    // Let cancellation propagate so the server knows not to answer
+    if (signal?.aborted) {
+      throw error;
+    }
+
     return {
       refreshed: false,
       filesProcessed: 0,
@@ -75,3 +232,294 @@ export async function refreshRegistry(input: RefreshRegistryInput): Promise<Refr
     };
   }
 }
+
+/**
+ * Select the workspaces a refresh applies to
+ * @param input Refresh parameters
+ * @param context Tool context
+ * @throws Error if the root is not one of the workspace roots
+ */
+function selectWorkspaces(input: RefreshRegistryInput, context: ToolContext): Workspace[] {
+  if (context.workspace) {
+    return [context.workspace];
+  }
+  if (input.root === undefined && input.baseDir) {
+    return [workspaces.forFile(path.resolve(workspaces.getPrimary().root, input.baseDir))];
+  }
+  return workspaces.select(input.root);
+}
+
+/**
+ * Run work inside a batch of every workspace's registry
+ * @param selected Workspaces whose registries the work changes
+ * @param work The changes to make
+ */
+async function inBatches<T>(selected: Workspace[], work: () => Promise<T>): Promise<T> {
+  const [first, ...rest] = selected;
+  return first ? first.registry.batch(() => inBatches(rest, work)) : work();
+}
+
+/**
+ * Add the result of refreshing one workspace to the total
+ * @param total Result being accumulated
+ * @param part Result of one workspace
+ */
+function addResult(total: RefreshRegistryResult, part: RefreshRegistryResult): void {
+  total.filesProcessed += part.filesProcessed;
+  total.filesRemoved += part.filesRemoved;
+  total.symbols += part.symbols;
+  total.failedFiles!.push(...part.failedFiles!);
+  total.skippedFiles!.push(...part.skippedFiles!);
+
+  for (const [name, timing] of Object.entries(part.parserTimings!)) {
+    const sum = total.parserTimings![name] || (total.parserTimings![name] = { files: 0, totalMs: 0 });
+    sum.files += timing.files;
+    sum.totalMs += timing.totalMs;
+  }
+
+  if (part.commits) {
+    total.commits = { ...total.commits, ...part.commits };
+  }
+
+  if (part.configErrors) {
+    total.configErrors = [...(total.configErrors || []), ...part.configErrors];
+  }
+}
+
+/**
+ * Find the files of a workspace a refresh parses, after removing the deleted and excluded ones
+ * @param workspace Workspace to refresh
+ * @param input Refresh parameters
+ * @param signal Aborts a full scan
+ * @returns The files to parse and how they were found
+ */
+async function discoverFiles(workspace: Workspace, input: RefreshRegistryInput, signal: AbortSignal | undefined): Promise<FileDiscovery> {
+  const { registry, config } = workspace;
+
+  // Parsers decide which files are outdated
+  await workspace.syncPlugins();
+
+  // Clean up symbols for deleted files first
+  registry.cleanupDeletedFiles();
+  
+  // Determine which files need to be refreshed
+  const baseDir = input.baseDir ? path.resolve(workspace.root, input.baseDir) : workspace.root;
+  
+  let files: string[] = [];
+  let filesRemoved = 0;
+  
+  // Drop files that mcpconfig.json no longer includes
+  for (const filePath of registry.getExcludedTrackedFiles()) {
+    registry.forgetFile(filePath);
+    filesRemoved++;
+  }
+  
+  // With a git base, the changes since that commit are applied instead of checking the tracked files only
+  const gitMode = input.since !== undefined || input.sinceLastIndexed === true;
+  const gitRoot = gitMode || input.fullScan || registry.isRebuildNeeded() ? await findGitRoot(workspace.root) : undefined;
+  if (gitMode && !gitRoot) {
+    throw new Error(`${workspace.root} is not inside a git repository`);
+  }
+  const baseCommit = gitMode ? await getBaseCommit(workspace, gitRoot!, input) : undefined;
+  
+  // If full scan requested (or the persisted registry was lost, or there is no commit to compare with), discover all files in the codebase
+  const fullScan = input.fullScan || registry.isRebuildNeeded() || (gitMode && !baseCommit);
+  if (fullScan) {
+    files = await registry.fullScan(baseDir, input.patterns, signal);
+  } else if (baseCommit) {
+    // Deleted files (and the old paths of renamed ones) went with the other missing files above.
+    // Tracked files are checked as well, e.g. for uncommitted edits that were indexed and then reverted.
+    const changed = toWorkspacePaths(await getChangedFilesSince(gitRoot!, baseCommit), baseDir)
+      .filter(filePath => isProjectFile(filePath, config) && registry.fileNeedsRefresh(filePath));
+    files = Array.from(new Set([...changed, ...await registry.getFilesNeedingRefresh()]));
+  } else {
+    // Otherwise, just get the files that have changed
+    files = await registry.getFilesNeedingRefresh();
+  }
+
+  // After discovering every file, or applying every change, the registry reflects the checked-out commit
+  const recordsCommit = (fullScan || gitMode) && !input.baseDir && !input.patterns;
+  return { files, filesRemoved, gitRoot: recordsCommit ? gitRoot : undefined };
+}
+
+/**
+ * Re-parse the discovered files of a workspace and remove the deleted ones
+ * @param workspace Workspace to refresh
+ * @param discovery The files discoverFiles found
+ * @param signal Aborts processing between files
+ * @param fileDone Called after each file, to report progress
+ */
+async function refreshFiles(
+  workspace: Workspace,
+  discovery: FileDiscovery,
+  signal: AbortSignal | undefined,
+  fileDone: (filePath: string) => void
+): Promise<RefreshRegistryResult> {
+  const { registry, config } = workspace;
+  const { files: filesToProcess, gitRoot } = discovery;
+  let { filesRemoved } = discovery;
+  const total = filesToProcess.length;
+  const parserTimings: Record<string, ParserTiming> = {};
+  const failedFiles: FailedFile[] = [];
+  const skippedFiles: SkippedFile[] = [];
+  
+  // Register the symbols of a parsed file, timing it per parser
+  const registerOutcome = (filePath: string, { result, parser, durationMs, skipped, aborted, content }: ParseOutcome) => {
+    if (parser) {
+      const timing = parserTimings[parser] || (parserTimings[parser] = { files: 0, totalMs: 0 });
+      timing.files++;
+      timing.totalMs += durationMs;
+    }
+
+    if (!('error' in result)) {
+      registry.registerFileSymbols(result, content);
+    } else if (skipped) {
+      skippedFiles.push({ file: filePath, reason: result.details || result.error });
+    } else {
+      failedFiles.push({
+        file: filePath,
+        error: result.details ? `${result.error}: ${result.details}` : result.error
+      });
+    }
+
+    // A file the guards stopped loses its old symbols and is not tried again until it changes
+    if (skipped || aborted) {
+      registry.registerFileSymbols({ filePath }, content);
+    }
+    fileDone(filePath);
+  };
+  
+  // Files are parsed by the workspace's worker pool; the symbols are registered here as the results arrive
+  const parsers = workspace.parsers;
+  parsers.configure(config.getConfig().parsing);
+  const concurrency = parsers.getConcurrency();
+  const parsing = new Set<Promise<void>>();
+  
+  try {
+    for (const filePath of filesToProcess) {
+      // Wait for a free worker
+      while (parsing.size >= concurrency) {
+        await Promise.race(parsing);
+      }
+
+      // Give cancellation notifications a chance to arrive, then stop if cancelled
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+
+      if (fs.existsSync(filePath)) {
+        const task: Promise<void> = parsers.parse(filePath)
+          .then(outcome => registerOutcome(filePath, outcome))
+          .finally(() => parsing.delete(task));
+        parsing.add(task);
+      } else {
+        // File no longer exists, remove its symbols
+        registry.removeFileSymbols(filePath);
+        filesRemoved++;
+        fileDone(filePath);
+      }
+    }
+  } finally {
+    // Files already handed to workers are registered even when cancelled, inside the caller's batch
+    await Promise.all(parsing);
+  }
+  
+  const result: RefreshRegistryResult = {
+    refreshed: true,
+    filesProcessed: total,
+    filesRemoved,
+    symbols: registry.getSymbolCount(),
+    parserTimings,
+    failedFiles,
+    skippedFiles
+  };
+  
+  const head = gitRoot ? await getHeadCommit(gitRoot) : undefined;
+  if (head) {
+    registry.setIndexedCommit(head);
+    result.commits = { [workspace.root]: head };
+  }
+  
+  const configErrors = config.getErrors();
+  if (configErrors.length > 0) {
+    result.configErrors = configErrors;
+  }
+  
+  return result;
+}
+
+/**
+ * Get the commit a git-based refresh compares the working tree with
+ * @param workspace Workspace being refreshed
+ * @param gitRoot Repository containing the workspace
+ * @param input Refresh parameters
+ * @returns Commit hash, or undefined if the registry has no (longer existing) indexed commit
+ * @throws Error if `since` does not name a commit
+ */
+async function getBaseCommit(workspace: Workspace, gitRoot: string, input: RefreshRegistryInput): Promise<string | undefined> {
+  if (input.since !== undefined) {
+    return resolveCommit(gitRoot, input.since);
+  }
+
+  // The indexed commit may have been dropped by a rebase and garbage-collected since
+  const indexed = workspace.registry.getIndexedCommit();
+  return indexed ? resolveCommit(gitRoot, indexed).catch(() => undefined) : undefined;
+}
+
+/**
+ * Keep the paths reported by git that are inside a directory
+ * @param files Absolute paths below the repository's real path
+ * @param dir Directory as the workspace spells it (possibly through a symlink)
+ * @returns The paths inside the directory, spelled as the workspace does
+ */
+function toWorkspacePaths(files: string[], dir: string): string[] {
+  const realDir = fs.realpathSync(dir);
+  return files
+    .map(file => path.relative(realDir, file))
+    .filter(relative => relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative))
+    .map(relative => path.join(dir, relative));
+}
+
+/**
+ * Bring the registry up to date before answering a query.
+ * With the file watcher running only its pending events are applied;
+ * otherwise every tracked file is checked for changes. A registry written by
+ * another server process is only reloaded if that process changed it.
+ * @param workspace Workspace the query runs against
+ * @param context Tool context of the calling tool
+ */
+export async function ensureRegistryFresh(workspace: Workspace, context: ToolContext = {}): Promise<void> {
+  // The process writing the registry keeps it fresh; pick up what it wrote since the last check
+  if (workspace.registry.isReadOnly()) {
+    workspace.registry.checkLease();
+    if (workspace.registry.isReadOnly()) {
+      return;
+    }
+  }
+
+  if (workspace.watcher.isActive()) {
+    await workspace.watcher.flush();
+    context.signal?.throwIfAborted();
+    return;
+  }
+
+  await refreshRegistry({ fullScan: false }, { ...context, workspace });
+}
+
+/**
+ * Build a progress update for the parsing phase
+ * @param done Number of files processed so far
+ * @param total Number of files discovered
+ * @param workspace Workspace being refreshed
+ * @param currentFile File that was just processed (omitted right after discovery)
+ */
+function describeProgress(done: number, total: number, workspace?: Workspace, currentFile?: string): ProgressUpdate {
+  if (!workspace || !currentFile) {
+    return { progress: done, total, message: `Discovered ${total} files` };
+  }
+
+  return {
+    progress: done,
+    total,
+    message: `Parsed ${done}/${total} files, ${workspace.registry.getSymbolCount()} symbols registered (${path.relative(workspace.root, currentFile)})`
+  };
+}
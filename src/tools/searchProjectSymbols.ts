@@ -1,5 +1,9 @@
-import { symbolRegistry, SymbolType, SymbolSearchResult } from '../registry/symbolRegistry';
-import { refreshRegistry } from './refreshRegistry';
+import { SymbolType, SymbolSearchResult, symbolInfoSchema } from '../registry/symbolRegistry';
+import { workspaces } from '../registry/workspace';
+import { groupByPackage, PackageGroup, packageGroupsSchema } from '../config/packages';
+import { JsonSchema } from '../schema';
+import { ensureRegistryFresh } from './refreshRegistry';
+import { ToolContext } from '../types';
 
 /**
  * Input interface for the search_project_symbols tool
@@ -9,16 +13,61 @@ export interface SearchProjectSymbolsInput {
   type?: string;          // Optional filter by symbol type
   file?: string;          // Optional filter by file path
   exactMatch?: boolean;   // Whether to require exact match
+  matchDescription?: boolean; // Whether to also match against symbol descriptions
   includePrivate?: boolean; // Whether to include private symbols
+  package?: string;       // Optional filter by package name
+  groupByPackage?: boolean; // Whether to list the results package by package
   limit?: number;         // Maximum number of results
+  root?: string;          // Workspace root to search (default: every workspace)
 }
 
+/**
+ * Result of search_project_symbols
+ */
+export interface SearchProjectSymbolsResult extends SymbolSearchResult {
+  groups?: PackageGroup[];  // Packages in the order their results are listed (with groupByPackage)
+}
+
+/**
+ * JSON Schema for the search_project_symbols input
+ */
+export const searchProjectSymbolsInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1, description: 'Search term (case-insensitive substring unless exactMatch is set); qualified names (path#Class.method, Class.method) and stable ids find their symbol, and Class.part finds matching members' },
+    type: { type: 'string', enum: Object.values(SymbolType), description: 'Only return symbols of this type' },
+    file: { type: 'string', description: 'Only return symbols whose file path contains this string' },
+    exactMatch: { type: 'boolean', default: false, description: 'Require the symbol name to match exactly' },
+    matchDescription: { type: 'boolean', default: false, description: 'Also match the query against symbol descriptions' },
+    includePrivate: { type: 'boolean', default: false, description: 'Include private symbols' },
+    package: { type: 'string', description: 'Only return symbols of the package with this name (from package.json or pyproject.toml)' },
+    groupByPackage: { type: 'boolean', default: false, description: 'List the results package by package and count them per package' },
+    limit: { type: 'integer', minimum: 0, default: 20, description: 'Maximum number of results (0 for no limit)' },
+    root: { type: 'string', description: 'Only search this workspace root (default: every workspace)' }
+  },
+  required: ['query'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the search_project_symbols result
+ */
+export const searchProjectSymbolsOutputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    results: { type: 'array', items: symbolInfoSchema },
+    groups: packageGroupsSchema
+  },
+  required: ['results']
+};
+
 /**
  * Searches for symbols across the project
  * @param input The search query input
+ * @param context Tool context (cancellation signal)
  * @returns Search results
  */
-export async function searchProjectSymbols(input: SearchProjectSymbolsInput): Promise<SymbolSearchResult> {
+export async function searchProjectSymbols(input: SearchProjectSymbolsInput, context: ToolContext = {}): Promise<SearchProjectSymbolsResult> {
   // Validate input
   if (!input.query || typeof input.query !== 'string') {
     return {
@@ -26,8 +75,10 @@ export async function searchProjectSymbols(input: SearchProjectSymbolsInput): Pr
     };
   }
   
-  // Ensure registry is up-to-date
-  await refreshRegistry({ fullScan: false });
+  // Ensure the registries are up-to-date
+  for (const workspace of workspaces.select(input.root)) {
+    await ensureRegistryFresh(workspace, context);
+  }
 
   // Convert type string to enum if provided
   let symbolType: SymbolType | undefined;
@@ -63,12 +114,21 @@ export async function searchProjectSymbols(input: SearchProjectSymbolsInput): Pr
   }
 
   // Perform the search
-  return symbolRegistry.search({
+  const searchResult = workspaces.search({
     query: input.query,
     type: symbolType,
     file: input.file,
     exactMatch: input.exactMatch,
+    matchDescription: input.matchDescription,
     includePrivate: input.includePrivate,
+    package: input.package,
     limit: input.limit
-  });
+  }, input.root);
+
+  if (!input.groupByPackage) {
+    return searchResult;
+  }
+
+  const { items, groups } = groupByPackage(searchResult.results);
+  return { results: items, groups };
 }
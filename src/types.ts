@@ -1,3 +1,23 @@
+import { ValidationError } from './schema';
+import type { Workspace } from './registry/workspace';
+
+/**
+ * Range of source text; lines and columns are 1-based and the end is just past the last character
+ */
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Where a declaration is in its file: the whole declaration, and its name identifier in `name`
+ */
+export interface SourceLocation extends SourceRange {
+  name: SourceRange;
+}
+
 /**
  * Interface for a function documentation
  */
@@ -7,6 +27,7 @@ export interface FunctionDoc {
   returnType?: string;
   description?: string;
   exported: boolean;
+  location?: SourceLocation;
 }
 
 /**
@@ -18,6 +39,7 @@ export interface MethodDoc {
   returnType?: string;
   description?: string;
   visibility?: 'public' | 'private' | 'protected';
+  location?: SourceLocation;
 }
 
 /**
@@ -28,6 +50,7 @@ export interface PropertyDoc {
   type?: string;
   description?: string;
   visibility?: 'public' | 'private' | 'protected';
+  location?: SourceLocation;
 }
 
 /**
@@ -40,6 +63,7 @@ export interface ClassDoc {
   methods: MethodDoc[];
   properties: PropertyDoc[];
   isComponent?: boolean; // For React components
+  location?: SourceLocation;
 }
 
 /**
@@ -51,6 +75,7 @@ export interface InterfaceDoc {
   exported: boolean;
   properties: PropertyDoc[];
   methods: MethodDoc[];
+  location?: SourceLocation;
 }
 
 /**
@@ -61,6 +86,7 @@ export interface TypeAliasDoc {
   type: string;
   description?: string;
   exported: boolean;
+  location?: SourceLocation;
 }
 
 /**
@@ -71,6 +97,7 @@ export interface RouteDoc {
   path?: string;
   handler?: string;
   description?: string;
+  location?: SourceLocation; // The route registration; its name is the path
 }
 
 /**
@@ -91,4 +118,23 @@ export interface FileDocResponse {
 export interface ErrorResponse {
   error: string;
   details?: string;
+  validationErrors?: ValidationError[];  // Present when the input failed schema validation
+}
+
+/**
+ * A progress update reported by a long-running tool
+ */
+export interface ProgressUpdate {
+  progress: number;       // Work done so far; must increase with every update
+  total?: number;         // Total amount of work, if known
+  message?: string;       // Human-readable description of the current step
+}
+
+/**
+ * Per-call context passed by the server to tool implementations
+ */
+export interface ToolContext {
+  signal?: AbortSignal;   // Aborted when the client cancels the request
+  reportProgress?: (update: ProgressUpdate) => void; // Set when the client asked for progress notifications
+  workspace?: Workspace;  // Workspace to work in, when the caller already knows it (e.g. the file watcher)
 }
@@ -0,0 +1,134 @@
+import { RequestDispatcher } from '../src/server/dispatcher';
+import { MCPServer, OutgoingMessage } from '../src/server/mcpServer';
+import { toolDefinitions } from '../src/server/tools';
+
+// A request the fake server answers once the test resolves it
+interface HeldRequest {
+  text: string;
+  answer: (response: OutgoingMessage | null) => void;
+}
+
+describe('RequestDispatcher', () => {
+  let held: HeldRequest[];
+  let written: string[];
+  let cancelled: string[];
+  let dispatcher: RequestDispatcher;
+
+  const answer = (text: string, response: OutgoingMessage | null): void => {
+    held.find(request => request.text === text)!.answer(response);
+  };
+
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    held = [];
+    written = [];
+    cancelled = [];
+
+    const server = {
+      handleText: (text: string) => new Promise<OutgoingMessage | null>(resolve => {
+        held.push({ text, answer: resolve });
+      }),
+      cancelAll: (reason: string) => {
+        cancelled.push(reason);
+        for (const request of held) {
+          request.answer({ jsonrpc: '2.0', id: request.text, error: { code: -32800, message: reason } } as OutgoingMessage);
+        }
+      }
+    };
+    dispatcher = new RequestDispatcher(server as unknown as MCPServer, line => written.push(line));
+  });
+
+  it('writes JSON-RPC responses as soon as they are ready', async () => {
+    dispatcher.dispatch('slow');
+    dispatcher.dispatch('fast');
+    expect(dispatcher.pendingCount).toBe(2);
+
+    answer('fast', { jsonrpc: '2.0', id: 2, result: {} } as OutgoingMessage);
+    await settle();
+    expect(written).toEqual(['{"jsonrpc":"2.0","id":2,"result":{}}']);
+
+    answer('slow', { jsonrpc: '2.0', id: 1, result: {} } as OutgoingMessage);
+    await dispatcher.drain();
+    expect(written).toEqual(['{"jsonrpc":"2.0","id":2,"result":{}}', '{"jsonrpc":"2.0","id":1,"result":{}}']);
+    expect(dispatcher.pendingCount).toBe(0);
+  });
+
+  it('writes legacy responses in the order the requests arrived', async () => {
+    dispatcher.dispatch('first');
+    dispatcher.dispatch('notification');
+    dispatcher.dispatch('second');
+
+    answer('second', { result: 'second' } as OutgoingMessage);
+    answer('notification', null);
+    await settle();
+    expect(written).toEqual([]);
+
+    answer('first', { result: 'first' } as OutgoingMessage);
+    await dispatcher.drain();
+    expect(written).toEqual(['{"result":"first"}', '{"result":"second"}']);
+  });
+
+  it('writes every response as one line even when requests overlap', async () => {
+    for (const id of [1, 2, 3]) {
+      dispatcher.dispatch(String(id));
+    }
+    for (const id of [3, 1, 2]) {
+      answer(String(id), { jsonrpc: '2.0', id, result: { text: 'line\nbreak' } } as OutgoingMessage);
+    }
+    await dispatcher.drain();
+
+    expect(written.map(line => JSON.parse(line).id)).toEqual([3, 1, 2]);
+    expect(written.every(line => !line.includes('\n'))).toBe(true);
+  });
+
+  it('lets requests finish within the grace period of a shutdown', async () => {
+    dispatcher.dispatch('request');
+    setTimeout(() => answer('request', { jsonrpc: '2.0', id: 1, result: {} } as OutgoingMessage), 10);
+
+    await dispatcher.shutdown(1000);
+
+    expect(cancelled).toEqual([]);
+    expect(written).toHaveLength(1);
+  });
+
+  it('cancels the requests still running after the grace period', async () => {
+    dispatcher.dispatch('stuck');
+
+    await dispatcher.shutdown(20);
+
+    expect(cancelled).toEqual(['Server shutting down']);
+    expect(JSON.parse(written[0])).toMatchObject({ id: 'stuck', error: { message: 'Server shutting down' } });
+    expect(dispatcher.pendingCount).toBe(0);
+  });
+});
+
+describe('RequestDispatcher with MCPServer', () => {
+  const tool = toolDefinitions.find(definition => definition.name === 'search_project_symbols')!;
+  const handler = tool.handler;
+
+  afterEach(() => {
+    tool.handler = handler;
+  });
+
+  it('stops a request cancelled by notifications/cancelled and never answers it', async () => {
+    let toolSignal: AbortSignal | undefined;
+    tool.handler = (_input, context) => new Promise(resolve => {
+      toolSignal = context.signal;
+      context.signal!.addEventListener('abort', () => resolve({ results: [] }));
+    });
+
+    const written: string[] = [];
+    const dispatcher = new RequestDispatcher(new MCPServer({ legacy: false }), line => written.push(line));
+    dispatcher.dispatch(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'search_project_symbols', arguments: { query: 'add' } } }));
+    dispatcher.dispatch(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    dispatcher.dispatch(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1, reason: 'No longer needed' } }));
+    await dispatcher.drain();
+
+    expect(toolSignal?.aborted).toBe(true);
+    expect(toolSignal?.reason).toBe('No longer needed');
+    expect(written.map(line => JSON.parse(line))).toEqual([{ jsonrpc: '2.0', id: 2, result: {} }]);
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceManager, Workspace } from '../src/registry/workspace';
+import { FileWatcher } from '../src/registry/fileWatcher';
+import { getDocForFile } from '../src/tools/getDocForFile';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('FileWatcher', () => {
+  let dir: TempDir;
+  let root: string;
+  let manager: WorkspaceManager;
+  let workspace: Workspace;
+  let watcher: FileWatcher;
+  let changes: { filePath: string; at: number }[];
+  let unsubscribe: (() => void) | undefined;
+
+  const write = (file: string, functionName: string): string => dir.write(file, `export function ${functionName}(): void {}\n`);
+
+  // Register a file as a refresh would
+  const parse = (filePath: string) => getDocForFile({ file: filePath }, { workspace });
+
+  const names = () => workspace.registry.getAllSymbols().map(symbol => symbol.symbol).sort();
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Wait for the watcher to pick up events and apply them
+  const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('The watcher did not apply the changes in time');
+      }
+      await sleep(20);
+    }
+  };
+
+  const startWatcher = async (options: { debounceMs: number; maxDelayMs: number }): Promise<void> => {
+    watcher = new FileWatcher(workspace, options);
+    expect(watcher.start()).toBe(true);
+    await watcher.flush();
+
+    // Record every file the watcher applies from here on
+    changes = [];
+    unsubscribe = workspace.registry.onFileSymbolsChanged(filePath => changes.push({ filePath, at: Date.now() }));
+  };
+
+  beforeEach(() => {
+    dir = createTempDir('file-watcher-');
+    root = dir.root;
+    dir.write('mcpconfig.json', { parsing: { workers: 0 } });
+    manager = new WorkspaceManager();
+    workspace = manager.add(root, 'option');
+  });
+
+  afterEach(async () => {
+    // Let a batch that already started finish before the registry is closed
+    watcher?.stop();
+    await watcher?.flush();
+    unsubscribe?.();
+    unsubscribe = undefined;
+    jest.restoreAllMocks();
+    manager.close();
+    dir.remove();
+  });
+
+  it('catches up with files changed while it was not running', async () => {
+    const filePath = write('early.ts', 'before');
+    await parse(filePath);
+    write('early.ts', 'afterwards');
+
+    await startWatcher({ debounceMs: 50, maxDelayMs: 500 });
+
+    expect(names()).toEqual(['afterwards']);
+  });
+
+  it('applies a burst of events as one batch once the project is quiet', async () => {
+    await startWatcher({ debounceMs: 300, maxDelayMs: 5000 });
+
+    const files = [write('a.ts', 'alpha'), write('b.ts', 'beta'), write('sub/c.ts', 'gamma')];
+    const lastWriteAt = Date.now();
+    await sleep(100);
+    expect(changes).toEqual([]);
+
+    await waitFor(() => names().length === 3);
+    expect(names()).toEqual(['alpha', 'beta', 'gamma']);
+    // Nothing is applied until the project has been quiet for the whole debounce period
+    expect(changes[0].at - lastWriteAt).toBeGreaterThanOrEqual(290);
+    expect(changes.map(change => change.filePath)).toEqual(expect.arrayContaining(files));
+  });
+
+  it('does not let a continuous stream of events postpone processing forever', async () => {
+    await startWatcher({ debounceMs: 200, maxDelayMs: 300 });
+    // When the watcher's timer hands the pending events over, however long they take to parse
+    const flushes: number[] = [];
+    const flush = watcher.flush.bind(watcher);
+    jest.spyOn(watcher, 'flush').mockImplementation(() => {
+      flushes.push(Date.now());
+      return flush();
+    });
+
+    // Events keep arriving faster than the debounce period for much longer than the maximum delay
+    const firstWriteAt = Date.now();
+    for (let i = 0; i < 20; i++) {
+      write(`file${i}.ts`, `f${i}`);
+      await sleep(50);
+    }
+    const lastWriteAt = Date.now();
+
+    await waitFor(() => names().length === 20, 15000);
+    // The first batch started during the stream, once the first event had waited for the maximum delay
+    expect(flushes[0] - firstWriteAt).toBeGreaterThanOrEqual(300);
+    expect(flushes[0]).toBeLessThan(lastWriteAt);
+  });
+
+  it('drops the symbols of deleted files and directories', async () => {
+    const removed = write('removed.ts', 'removed');
+    for (const filePath of [write('kept.ts', 'kept'), removed, write('pkg/one.ts', 'one'), write('pkg/deep/two.ts', 'two')]) {
+      await parse(filePath);
+    }
+    await startWatcher({ debounceMs: 50, maxDelayMs: 500 });
+    expect(names()).toEqual(['kept', 'one', 'removed', 'two']);
+
+    fs.rmSync(removed);
+    fs.rmSync(path.join(root, 'pkg'), { recursive: true });
+
+    await waitFor(() => names().length === 1);
+    expect(names()).toEqual(['kept']);
+    expect(workspace.registry.isTrackedFile(removed)).toBe(false);
+    expect(workspace.registry.getTrackedFiles().some(file => file.startsWith(path.join(root, 'pkg')))).toBe(false);
+  });
+
+  it('discards pending events when stopped', async () => {
+    await startWatcher({ debounceMs: 200, maxDelayMs: 500 });
+
+    write('late.ts', 'late');
+    await sleep(50);
+    watcher.stop();
+    await sleep(300);
+    await watcher.flush();
+
+    expect(names()).toEqual([]);
+  });
+});
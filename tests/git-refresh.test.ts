@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { WorkspaceManager, Workspace } from '../src/registry/workspace';
+import { refreshRegistry } from '../src/tools/refreshRegistry';
+import { getChangedFilesSince } from '../src/config/git';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('refresh_registry with git', () => {
+  let dir: TempDir;
+  let root: string;
+  let manager: WorkspaceManager;
+  let workspace: Workspace;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: root, encoding: 'utf8' }).trim();
+
+  const write = (file: string, functionName: string): string => dir.write(file, `export function ${functionName}(): void {}\n`);
+
+  const commit = (message: string): string => {
+    git('add', '-A');
+    git('commit', '-q', '-m', message);
+    return git('rev-parse', 'HEAD');
+  };
+
+  const refresh = (input = {}) => refreshRegistry(input, { workspace });
+
+  const names = () => workspace.registry.getAllSymbols().map(symbol => symbol.symbol).sort();
+
+  beforeEach(() => {
+    dir = createTempDir('git-refresh-');
+    root = dir.root;
+    dir.write('mcpconfig.json', { parsing: { workers: 0 } });
+    dir.write('.gitignore', '.symbol-registry.*\n');
+    git('init', '-q');
+    write('a.ts', 'alpha');
+    write('b.ts', 'beta');
+    commit('initial');
+
+    manager = new WorkspaceManager();
+    workspace = manager.add(root, 'option');
+  });
+
+  afterEach(() => {
+    manager.close();
+    dir.remove();
+  });
+
+  it('records the commit a full scan indexed', async () => {
+    const result = await refresh({ fullScan: true });
+
+    expect(result).toMatchObject({ refreshed: true, filesProcessed: 2, commits: { [root]: git('rev-parse', 'HEAD') } });
+    expect(workspace.registry.getIndexedCommit()).toBe(git('rev-parse', 'HEAD'));
+  });
+
+  it('applies the changes since the last indexed commit, including untracked files', async () => {
+    await refresh({ fullScan: true });
+
+    write('a.ts', 'alphaChanged');
+    write('pkg/c.ts', 'gamma');
+    fs.rmSync(path.join(root, 'b.ts'));
+    const head = commit('change');
+    write('untracked.ts', 'delta');
+
+    const result = await refresh({ sinceLastIndexed: true });
+
+    expect(result).toMatchObject({ refreshed: true, filesProcessed: 3, commits: { [root]: head } });
+    expect(names()).toEqual(['alphaChanged', 'delta', 'gamma']);
+  });
+
+  it('only looks at the files changed since a given ref', async () => {
+    await refresh({ fullScan: true });
+    write('c.ts', 'gamma');
+    commit('add c');
+
+    const result = await refresh({ since: 'HEAD~1' });
+
+    expect(result.filesProcessed).toBe(1);
+    expect(names()).toEqual(['alpha', 'beta', 'gamma']);
+  });
+
+  it('falls back to a full scan when no commit was indexed yet', async () => {
+    const result = await refresh({ sinceLastIndexed: true });
+
+    expect(result.filesProcessed).toBe(2);
+    expect(names()).toEqual(['alpha', 'beta']);
+  });
+
+  it('reports unknown refs and roots outside a repository', async () => {
+    expect(await refresh({ since: 'no-such-branch' })).toMatchObject({ refreshed: false, error: "Unknown git ref 'no-such-branch'" });
+
+    fs.rmSync(path.join(root, '.git'), { recursive: true, force: true });
+    expect(await refresh({ since: 'HEAD' })).toMatchObject({ refreshed: false, error: `${root} is not inside a git repository` });
+  });
+
+  it('lists renamed files under their new path and leaves out ignored ones', async () => {
+    const base = git('rev-parse', 'HEAD');
+    git('mv', 'a.ts', 'renamed.ts');
+    write('.symbol-registry.json', 'ignored');
+
+    expect(await getChangedFilesSince(root, base)).toEqual([path.join(root, 'renamed.ts')]);
+  });
+});
@@ -0,0 +1,165 @@
+import * as http from 'http';
+import { HttpTransport, HttpTransportOptions } from '../src/server/httpTransport';
+import { MCPServer } from '../src/server/mcpServer';
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+describe('HttpTransport', () => {
+  let transport: HttpTransport;
+  let port: number;
+
+  const start = async (options: HttpTransportOptions = {}) => {
+    transport = new HttpTransport({ port: 0, ...options });
+    ({ port } = await transport.start());
+  };
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await transport.stop();
+  });
+
+  const request = (method: string, body?: string | Buffer, headers: http.OutgoingHttpHeaders = {}): Promise<Reply> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, path: '/mcp', method, headers: { Accept: 'application/json', ...headers } }, res => {
+        let text = '';
+        res.on('data', chunk => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: text }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  const post = (message: unknown, headers: http.OutgoingHttpHeaders = {}) =>
+    request('POST', JSON.stringify(message), { 'Content-Type': 'application/json', ...headers });
+
+  const initialize = async (headers: http.OutgoingHttpHeaders = {}) => {
+    const reply = await post(INITIALIZE, headers);
+    expect(reply.status).toBe(200);
+    return reply.headers['mcp-session-id'] as string;
+  };
+
+  const ping = (sessionId: string) => post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+
+  it('refuses to listen on a non-loopback address without a token', () => {
+    expect(() => new HttpTransport({ host: '0.0.0.0' })).toThrow(/without a bearer token/);
+    transport = new HttpTransport({ port: 0 });
+  });
+
+  it('requires the bearer token when one is set', async () => {
+    await start({ token: 'secret' });
+
+    const rejected = await post(INITIALIZE);
+    expect(rejected.status).toBe(401);
+    expect(rejected.headers['www-authenticate']).toBe('Bearer');
+    expect((await post(INITIALIZE, { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await post(INITIALIZE, { Authorization: 'Bearer secret' })).status).toBe(200);
+  });
+
+  it('rejects cross-origin requests to a loopback server', async () => {
+    await start();
+
+    expect((await post(INITIALIZE, { Origin: 'http://evil.example' })).status).toBe(403);
+    expect((await post(INITIALIZE, { Origin: 'http://localhost:8080' })).status).toBe(200);
+  });
+
+  it('creates a session on initialize and requires it afterwards', async () => {
+    await start();
+    const sessionId = await initialize();
+
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(JSON.parse((await ping(sessionId)).body)).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'ping' })).status).toBe(400);
+    expect((await ping('unknown')).status).toBe(404);
+  });
+
+  it('ends a session on DELETE', async () => {
+    await start();
+    const sessionId = await initialize();
+
+    expect((await request('DELETE', undefined, { 'Mcp-Session-Id': sessionId })).status).toBe(204);
+    expect((await ping(sessionId)).status).toBe(404);
+  });
+
+  it('answers notifications with 202', async () => {
+    await start();
+    const sessionId = await initialize();
+
+    const reply = await post({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 9 } }, { 'Mcp-Session-Id': sessionId });
+    expect(reply.status).toBe(202);
+  });
+
+  it('answers an oversized body with 413 instead of resetting the connection', async () => {
+    await start();
+
+    const reply = await request('POST', Buffer.alloc(5 * 1024 * 1024, ' '), { 'Content-Type': 'application/json' });
+    expect(reply.status).toBe(413);
+    expect(reply.body).toMatch(/exceeds/);
+  });
+
+  it('closes the longest-idle session when the session limit is reached', async () => {
+    await start({ maxSessions: 2 });
+    const first = await initialize();
+    const second = await initialize();
+    const third = await initialize();
+
+    expect((await ping(first)).status).toBe(404);
+    expect((await ping(second)).status).toBe(200);
+    expect((await ping(third)).status).toBe(200);
+  });
+
+  it('closes sessions that stay idle for longer than the timeout', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      await start({ sessionIdleTimeoutMs: 60000 });
+      const sessionId = await initialize();
+
+      jest.advanceTimersByTime(30000);
+      expect((await ping(sessionId)).status).toBe(200);
+      jest.advanceTimersByTime(76000);
+      expect((await ping(sessionId)).status).toBe(404);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('cancels the requests of a POST whose client disconnects', async () => {
+    let cancelled!: (reason: unknown) => void;
+    const cancellation = new Promise(resolve => { cancelled = resolve; });
+    jest.spyOn(MCPServer.prototype, 'handleMessage').mockImplementation((message, notify, signal) => {
+      if (message.method === 'initialize') {
+        return Promise.resolve({ jsonrpc: '2.0', id: message.id, result: {} });
+      }
+      return new Promise(resolve => signal!.addEventListener('abort', () => {
+        cancelled(signal!.reason);
+        resolve(null);
+      }));
+    });
+
+    await start();
+    const sessionId = await initialize();
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: '/mcp',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId }
+    });
+    req.on('error', () => {});
+    req.end(JSON.stringify({ jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'refresh_registry', arguments: {} } }));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    req.destroy();
+
+    await expect(cancellation).resolves.toBe('Client closed the connection');
+  });
+});
@@ -0,0 +1,88 @@
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreFileCache } from '../src/config/ignoreFiles';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('IgnoreFileCache', () => {
+  let dir: TempDir;
+  let root: string;
+  let cache: IgnoreFileCache;
+
+  const match = (file: string, isDirectory = false) => cache.getIgnoreMatch(path.join(root, file), root, isDirectory);
+
+  beforeEach(() => {
+    dir = createTempDir('ignore-files-');
+    root = dir.root;
+    cache = new IgnoreFileCache();
+  });
+
+  afterEach(() => {
+    dir.remove();
+  });
+
+  it('reports the file, line and pattern of the rule that ignores a path', () => {
+    dir.write('.gitignore', '# build output\n\n*.log\n');
+
+    expect(match('debug.log')).toEqual({ source: '.gitignore', line: 3, pattern: '*.log' });
+    expect(match('src/index.ts')).toBeUndefined();
+  });
+
+  it('applies nested ignore files to the paths below their directory', () => {
+    dir.write('src/.gitignore', 'generated.ts\n');
+
+    expect(match('src/generated.ts')).toEqual({ source: 'src/.gitignore', line: 1, pattern: 'generated.ts' });
+    expect(match('lib/generated.ts')).toBeUndefined();
+  });
+
+  it('lets deeper rules and .symbolignore re-include paths', () => {
+    dir.write('.gitignore', '*.gen.ts\n');
+    dir.write('src/.gitignore', '!keep.gen.ts\n');
+    dir.write('.symbolignore', '!api.gen.ts\n');
+
+    expect(match('other.gen.ts')).toMatchObject({ source: '.gitignore' });
+    expect(match('src/keep.gen.ts')).toBeUndefined();
+    expect(match('api.gen.ts')).toBeUndefined();
+  });
+
+  it('lets .symbolignore exclude paths git keeps', () => {
+    dir.write('.gitignore', 'dist/\n');
+    dir.write('.symbolignore', 'fixtures/\n');
+
+    expect(match('fixtures/sample.ts')).toEqual({ source: '.symbolignore', line: 1, pattern: 'fixtures/' });
+  });
+
+  it('cannot re-include a path inside an ignored directory', () => {
+    dir.write('.gitignore', 'vendor/\n!vendor/lib.ts\n');
+
+    expect(match('vendor/lib.ts')).toEqual({ source: '.gitignore', line: 1, pattern: 'vendor/' });
+  });
+
+  it('matches directory-only rules only against directories', () => {
+    dir.write('.gitignore', 'build/\n');
+
+    expect(match('build', true)).toMatchObject({ pattern: 'build/' });
+    expect(match('build')).toBeUndefined();
+  });
+
+  it('ignores nothing outside the project root', () => {
+    dir.write('.gitignore', '*\n');
+
+    expect(cache.getIgnoreMatch(path.join(os.tmpdir(), 'elsewhere.ts'), root)).toBeUndefined();
+    expect(cache.getIgnoreMatch(root, root)).toBeUndefined();
+  });
+
+  it('picks up ignore files that change', () => {
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      dir.write('.gitignore', '*.tmp\n');
+      expect(match('notes.md')).toBeUndefined();
+
+      dir.write('.gitignore', '*.tmp\n*.md\n');
+      jest.advanceTimersByTime(2000);
+
+      expect(match('notes.md')).toEqual({ source: '.gitignore', line: 2, pattern: '*.md' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ConfigManager } from '../src/config/mcpConfig';
+import { JsonSymbolStore, getRegistryFilePath } from '../src/registry/stores/json';
+import { SymbolInfo, SymbolType } from '../src/registry/symbolRegistry';
+import { REGISTRY_SCHEMA_VERSION } from '../src/registry/migrations';
+
+describe('JsonSymbolStore', () => {
+  let dir: string;
+
+  const symbol = (name: string, file = '/project/a.ts', extra: Partial<SymbolInfo> = {}): SymbolInfo => ({
+    symbol: name,
+    type: SymbolType.FUNCTION,
+    file,
+    ...extra
+  });
+
+  const configure = (compress: boolean): ConfigManager => {
+    fs.writeFileSync(path.join(dir, 'mcpconfig.json'), JSON.stringify({ registry: { compress } }));
+    return new ConfigManager(dir);
+  };
+
+  const open = (compress = false, readOnly = false) => JsonSymbolStore.open(dir, configure(compress), readOnly);
+
+  const readFile = (compressed = false) => {
+    const data = fs.readFileSync(getRegistryFilePath(dir, compressed));
+    return JSON.parse((compressed ? zlib.gunzipSync(data) : data).toString('utf8'));
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds symbols through its indexes and merges symbols with the same identity', () => {
+    const { store } = open();
+    store.upsertSymbol(symbol('createUser', '/project/a.ts', { description: 'Adds an account' }));
+    store.upsertSymbol(symbol('User', '/project/b.ts', { type: SymbolType.CLASS }));
+    store.upsertSymbol(symbol('save', '/project/b.ts', { type: SymbolType.METHOD, parentSymbol: 'User' }));
+    store.upsertSymbol(symbol('createUser', '/project/a.ts', { description: 'updated' }));
+
+    const find = (term: string, extra = {}) =>
+      store.findSymbols({ term, exactMatch: false, includePrivate: false, ...extra }).map(s => s.symbol);
+
+    expect(store.getSymbolCount()).toBe(3);
+    expect(find('user')).toEqual(['createUser', 'User']);
+    expect(find('updated', { matchDescription: true })).toEqual(['createUser']);
+    expect(store.getSymbolsByNameIgnoreCase('USER').map(s => s.file)).toEqual(['/project/b.ts']);
+    expect(store.getSymbolsByParent('User').map(s => s.symbol)).toEqual(['save']);
+    expect(store.getSymbolsByType(SymbolType.CLASS).map(s => s.symbol)).toEqual(['User']);
+
+    store.replaceFileSymbols('/project/b.ts', [symbol('Account', '/project/b.ts', { type: SymbolType.CLASS })]);
+    expect(store.getFileSymbols('/project/b.ts').map(s => s.symbol)).toEqual(['Account']);
+    expect(store.getSymbolsByParent('User')).toEqual([]);
+    expect(store.getSymbolsByName('User')).toEqual([]);
+  });
+
+  it('writes the file once the outermost batch ends', () => {
+    const { store } = open();
+    const filePath = getRegistryFilePath(dir, false);
+
+    store.beginBatch();
+    store.beginBatch();
+    store.upsertSymbol(symbol('a'));
+    store.save();
+    store.endBatch();
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    store.endBatch();
+    expect(readFile().symbols.map((s: SymbolInfo) => s.symbol)).toEqual(['a']);
+  });
+
+  it('writes atomically, leaving no temporary files behind', () => {
+    const { store } = open();
+    store.upsertSymbol(symbol('a'));
+    store.setMetadata('lastFullRefresh', '123');
+    store.save();
+
+    expect(fs.readdirSync(dir).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    expect(readFile()).toMatchObject({ version: REGISTRY_SCHEMA_VERSION, lastFullRefresh: 123 });
+  });
+
+  it('compresses the file when configured and keeps the registry when compression is switched', () => {
+    const compressed = open(true).store;
+    compressed.upsertSymbol(symbol('a'));
+    compressed.save();
+    expect(readFile(true).symbols).toHaveLength(1);
+    expect(fs.existsSync(getRegistryFilePath(dir, false))).toBe(false);
+
+    // The compressed file is still read after compression is turned off, and replaced by a plain one
+    const plain = open(false).store;
+    expect(plain.getAllSymbols().map(s => s.symbol)).toEqual(['a']);
+    plain.save();
+    expect(readFile().symbols).toHaveLength(1);
+    expect(fs.existsSync(getRegistryFilePath(dir, true))).toBe(false);
+  });
+
+  it('quarantines a corrupt file and asks for a rebuild', () => {
+    fs.writeFileSync(getRegistryFilePath(dir, false), '{"symbols": [');
+
+    const { store, recovered } = open();
+
+    expect(recovered).toBe(true);
+    expect(store.getSymbolCount()).toBe(0);
+    expect(fs.existsSync(getRegistryFilePath(dir, false))).toBe(false);
+    expect(fs.readdirSync(dir).some(name => name.startsWith('.symbol-registry.json.corrupt-'))).toBe(true);
+  });
+
+  it('leaves a corrupt file in place when it is opened read-only', () => {
+    fs.writeFileSync(getRegistryFilePath(dir, false), JSON.stringify({ symbols: 'none' }));
+
+    const { store, recovered } = open(false, true);
+
+    expect(recovered).toBe(false);
+    expect(store.getSymbolCount()).toBe(0);
+    expect(fs.existsSync(getRegistryFilePath(dir, false))).toBe(true);
+  });
+
+  it('notices when another process replaces the file', () => {
+    const { store } = open();
+    store.upsertSymbol(symbol('a'));
+    store.save();
+    expect(store.hasExternalChanges()).toBe(false);
+
+    const other = open().store;
+    other.upsertSymbol(symbol('b'));
+    other.save();
+
+    expect(store.hasExternalChanges()).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager, DEFAULT_CONFIG } from '../src/config/mcpConfig';
+import { getExclusionReason, listProjectFiles } from '../src/config/projectFiles';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('ConfigManager', () => {
+  let dir: TempDir;
+  let root: string;
+  let manager: ConfigManager;
+
+  const writeConfig = (config: unknown) => dir.write('mcpconfig.json', config);
+
+  const reason = (file: string) => getExclusionReason(file, manager.getConfig(), root);
+
+  beforeEach(() => {
+    dir = createTempDir('mcp-config-');
+    root = dir.root;
+    manager = new ConfigManager(root);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    dir.remove();
+  });
+
+  it('uses the defaults when there is no file', () => {
+    expect(manager.getConfig()).toEqual(DEFAULT_CONFIG);
+    expect(manager.getErrors()).toEqual([]);
+  });
+
+  it('fills in the sections a file leaves out with the defaults', () => {
+    writeConfig({ exclude: { directories: ['build'] }, parsing: { workers: 0 } });
+
+    const config = manager.getConfig();
+    expect(config.exclude).toEqual({ ...DEFAULT_CONFIG.exclude, directories: ['build'] });
+    expect(config.include).toEqual(DEFAULT_CONFIG.include);
+    expect(config.parsing).toEqual({ ...DEFAULT_CONFIG.parsing, workers: 0 });
+    expect(config.registry).toEqual(DEFAULT_CONFIG.registry);
+  });
+
+  it('falls back to the defaults and reports the errors of a value of the wrong type', () => {
+    writeConfig({ exclude: { directories: 'build' }, parsing: { workers: -1 } });
+
+    expect(manager.getConfig()).toEqual(DEFAULT_CONFIG);
+    expect(manager.getErrors().map(error => error.field).sort()).toEqual(['exclude.directories', 'parsing.workers']);
+  });
+
+  it('applies a file whose only problems are unknown keys', () => {
+    writeConfig({ exclude: { directories: ['build'], folders: ['tmp'] }, colour: 'blue' });
+
+    expect(manager.getConfig().exclude.directories).toEqual(['build']);
+    expect(manager.getErrors()).toHaveLength(2);
+    expect(manager.getErrors().every(error => error.message === 'is not a recognized property')).toBe(true);
+  });
+
+  it('reports a file that is not valid JSON and uses the defaults', () => {
+    writeConfig('{ "exclude": ');
+
+    expect(manager.getConfig()).toEqual(DEFAULT_CONFIG);
+    expect(manager.getErrors()[0].message).toMatch(/^could not be read/);
+  });
+
+  it('applies the include and exclude rules to files', () => {
+    writeConfig({
+      include: { extensions: ['ts'], directories: ['src'], files: ['scripts/*.js'] },
+      exclude: { directories: ['src/legacy'], files: ['*.spec.ts'] }
+    });
+
+    expect(reason('src/index.ts')).toBeUndefined();
+    expect(reason('src/legacy/old.ts')).toBe('exclude.directories: "src/legacy"');
+    expect(reason('src/index.spec.ts')).toBe('exclude.files: "*.spec.ts"');
+    expect(reason('src/index.py')).toBe('include.extensions: "py" is not listed');
+    expect(reason('lib/index.ts')).toBe('include.directories: not inside an included directory');
+    expect(reason('scripts/build.js')).toBeUndefined();
+  });
+
+  it('lists the files of every included extension, or of the only one', async () => {
+    for (const file of ['src/a.ts', 'src/b.py', 'lib/c.js', 'notes.md']) {
+      dir.write(file, '');
+    }
+    const list = async () => (await listProjectFiles(manager)).map(file => path.relative(root, file));
+
+    writeConfig({ include: { extensions: ['ts', '.js', 'py'] } });
+    expect(await list()).toEqual(['lib/c.js', 'src/a.ts', 'src/b.py']);
+
+    writeConfig({ include: { extensions: ['js'] } });
+    expect(await list()).toEqual(['lib/c.js']);
+  });
+
+  it('reloads the file when it changes and returns to the defaults when it is deleted', () => {
+    writeConfig({ exclude: { extensions: ['py'] } });
+    expect(reason('app.py')).toBe('exclude.extensions: "py"');
+
+    writeConfig({ exclude: { extensions: ['js'] } });
+    expect(reason('app.py')).toBeUndefined();
+    expect(reason('app.js')).toBe('exclude.extensions: "js"');
+
+    fs.rmSync(path.join(root, 'mcpconfig.json'));
+    expect(manager.getConfig()).toEqual(DEFAULT_CONFIG);
+    expect(reason('app.js')).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPServer } from '../src/server/mcpServer';
+import { JsonRpcNotification } from '../src/server/protocol';
+import { workspaces } from '../src/registry/workspace';
+
+describe('MCPServer', () => {
+  it('does not answer a request whose signal was aborted', async () => {
+    const server = new MCPServer({ legacy: false });
+    const controller = new AbortController();
+    controller.abort('Client closed the connection');
+
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'ping' }, undefined, controller.signal)).toBeNull();
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'ping' })).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+  });
+
+  describe('progress', () => {
+    const FILE_COUNT = 5;
+    let root: string;
+    let server: MCPServer;
+    let progress: JsonRpcNotification[];
+    let onProgress: () => void;
+
+    const refresh = (id: number) => server.handleMessage({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'refresh_registry', arguments: { fullScan: true }, _meta: { progressToken: 'scan' } }
+    });
+
+    beforeEach(() => {
+      root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-')));
+      fs.writeFileSync(path.join(root, 'mcpconfig.json'), JSON.stringify({ parsing: { workers: 0 } }));
+      for (let i = 0; i < FILE_COUNT; i++) {
+        fs.writeFileSync(path.join(root, `file${i}.ts`), `export function f${i}(): void {}\n`);
+      }
+      workspaces.add(root, 'option');
+      workspaces.settle();
+
+      progress = [];
+      onProgress = () => undefined;
+      server = new MCPServer({
+        legacy: false,
+        notify: message => {
+          if (message.method === 'notifications/progress') {
+            progress.push(message as JsonRpcNotification);
+            onProgress();
+          }
+        }
+      });
+    });
+
+    afterEach(() => {
+      server.dispose();
+      workspaces.remove(root);
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reports the progress of refresh_registry with increasing progress and a total', async () => {
+      const response: any = await refresh(1);
+
+      expect(response.result.isError).toBeFalsy();
+      expect(progress.length).toBeGreaterThanOrEqual(2);
+      const updates = progress.map(notification => notification.params!);
+      for (const [i, update] of updates.entries()) {
+        expect(update).toMatchObject({ progressToken: 'scan', total: FILE_COUNT });
+        if (i > 0) {
+          expect(update.progress).toBeGreaterThan(updates[i - 1].progress);
+        }
+      }
+      expect(updates[0].progress).toBe(0);
+      expect(updates[updates.length - 1].progress).toBe(FILE_COUNT);
+    });
+
+    it('reports one total for the files of every root, discovered before any is parsed', async () => {
+      const other = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-other-')));
+      fs.writeFileSync(path.join(other, 'mcpconfig.json'), JSON.stringify({ parsing: { workers: 0 } }));
+      for (let i = 0; i < 3; i++) {
+        fs.writeFileSync(path.join(other, `other${i}.ts`), `export function g${i}(): void {}\n`);
+      }
+      workspaces.add(other, 'option');
+
+      try {
+        const response: any = await refresh(1);
+
+        expect(response.result.isError).toBeFalsy();
+        const updates = progress.map(notification => notification.params!);
+        expect(updates[0]).toMatchObject({ progress: 0, total: FILE_COUNT + 3, message: `Discovered ${FILE_COUNT + 3} files` });
+        for (const [i, update] of updates.entries()) {
+          expect(update.total).toBe(FILE_COUNT + 3);
+          if (i > 0) {
+            expect(update.progress).toBeGreaterThan(updates[i - 1].progress);
+          }
+        }
+        expect(updates[updates.length - 1].progress).toBe(FILE_COUNT + 3);
+      } finally {
+        workspaces.remove(other);
+        fs.rmSync(other, { recursive: true, force: true });
+      }
+    });
+
+    it('stops reporting progress once the request is cancelled', async () => {
+      onProgress = () => {
+        onProgress = () => undefined;
+        void server.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } });
+      };
+
+      expect(await refresh(1)).toBeNull();
+      expect(progress).toHaveLength(1);
+      expect(progress[0].params).toMatchObject({ progressToken: 'scan', progress: 0, total: FILE_COUNT });
+    });
+  });
+});
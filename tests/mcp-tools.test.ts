@@ -1,62 +1,128 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import { spawn } from 'child_process';
+
+// Sample sources the requests are answered from, relative to the project root
+const FIXTURE_FILES = ['src/test-js-sample.js', 'src/test-sample.ts', 'test_sample.py'];
+
+// Longest a server may take to answer all requests of one test
+const RESPONSE_TIMEOUT_MS = 20000;
 
 describe('MCP Tool Tests', () => {
   const testDir = path.resolve(__dirname, '..'); // Project root directory
   const testFiles = fs.readdirSync(testDir)
-    .filter(file => 
-        file.startsWith('test-') && 
+    .filter(file =>
+        file.startsWith('test-') &&
         file.endsWith('.json') &&
         !file.includes('js-request') && // Exclude js-request for now
         !file.includes('search-routes')   // Exclude search-routes for now
     );
 
+  // Every test runs against the same sample workspace, indexed once
+  let workspaceRoot: string;
+
+  beforeAll(async () => {
+    workspaceRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-tools-')));
+    for (const file of FIXTURE_FILES) {
+      fs.mkdirSync(path.dirname(path.join(workspaceRoot, file)), { recursive: true });
+      fs.copyFileSync(path.join(testDir, file), path.join(workspaceRoot, file));
+    }
+    // Parsing on the main thread registers the files in a fixed order
+    fs.writeFileSync(path.join(workspaceRoot, 'mcpconfig.json'), JSON.stringify({ parsing: { workers: 0 } }));
+
+    await runServer('{"tool":"refresh_registry","input":{"fullScan":true}}', workspaceRoot);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
   testFiles.forEach(testFile => {
     const testName = testFile.replace('.json', '');
     const filePath = path.join(testDir, testFile);
 
-    it(`should match snapshot for ${testName}`, () => {
+    it(`should match snapshot for ${testName}`, async () => {
       const inputFileContent = fs.readFileSync(filePath, 'utf-8');
-      let output = '';
-      let error = '';
-
-      try {
-        // Escape single quotes within the JSON for the shell command
-        const escapedInput = inputFileContent.replace(/'/g, "'\\''");
-        const command = `echo '${escapedInput}' | node dist/index.js`;
-        
-        output = execSync(command, { encoding: 'utf-8', cwd: testDir });
-
-      } catch (e: any) {
-        error = e.stderr ? e.stderr.toString() : e.toString();
-        // console.error(`Error executing test ${testName}:`, error);
-        output = error; // Snapshot the error output
-      }
-      
+      const output = await runServer(inputFileContent, workspaceRoot);
+
       // Normalize paths before snapshotting
-      const normalizedOutput = normalizeOutput(output, testDir);
+      const normalizedOutput = normalizeOutput(output, workspaceRoot);
 
       expect(normalizedOutput).toMatchSnapshot();
     });
   });
 });
 
+/**
+ * Run the compiled server on a workspace and send it requests, one per line.
+ * Stdin stays open until every request has been answered, so that requests
+ * outlasting the server's shutdown grace period are not cancelled.
+ * @returns The server's output, or its error output if it failed
+ */
+function runServer(input: string, root: string): Promise<string> {
+  const lines = input.split('\n').filter(line => line.trim() !== '');
+  const expected = lines.filter(expectsResponse).length;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['dist/index.js', '--root', root, '--no-watch'], {
+      cwd: path.resolve(__dirname, '..')
+    });
+    let output = '';
+    let error = '';
+
+    const timer = setTimeout(() => child.stdin.end(), RESPONSE_TIMEOUT_MS);
+    child.stdout.on('data', chunk => {
+      output += chunk;
+      if (output.split('\n').length - 1 >= expected) {
+        child.stdin.end();
+      }
+    });
+    child.stderr.on('data', chunk => {
+      error += chunk;
+    });
+    child.on('error', reject);
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve(code === 0 ? output : error); // Snapshot the error output
+    });
+
+    child.stdin.write(lines.map(line => line + '\n').join(''));
+    if (expected === 0) {
+      child.stdin.end();
+    }
+  });
+}
+
+/**
+ * Whether the server answers a request line (legacy requests and JSON-RPC requests with an id)
+ */
+function expectsResponse(line: string): boolean {
+  try {
+    const message = JSON.parse(line);
+    return message?.jsonrpc !== '2.0' || message.id !== undefined;
+  } catch {
+    return true;
+  }
+}
+
 /**
  * Helper function to normalize output before snapshotting.
- * Replaces project-specific absolute paths with a placeholder.
+ * Replaces the absolute path of the sample workspace with a placeholder,
+ * and parse times with a fixed value.
  */
 function normalizeOutput(output: string, projectRoot: string): string {
     // Normalize backslashes to forward slashes for cross-platform consistency
     const consistentRoot = projectRoot.replace(/\\/g, '/');
     const escapedRoot = consistentRoot.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
     const regex = new RegExp(escapedRoot, 'g');
-    let normalized = output.replace(regex, '<PROJECT_ROOT>');
+    let normalized = output.replace(/\\\\/g, '/').replace(regex, '<PROJECT_ROOT>');
 
     // Also normalize backslashes in any remaining paths within the output
     normalized = normalized.replace(/\\/g, '/');
 
-    // Add any other normalizations needed (e.g., timestamps, dynamic IDs)
+    // Timings differ from run to run
+    normalized = normalized.replace(/"totalMs":[\d.]+/g, '"totalMs":0');
 
     return normalized;
 }
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RegistryState, SymbolType } from '../src/registry/symbolRegistry';
+import { REGISTRY_SCHEMA_VERSION, UnsupportedRegistryVersionError, migrateRegistryState } from '../src/registry/migrations';
+import { getRegistryFilePath, loadRegistryFile } from '../src/registry/stores/json';
+
+describe('migrateRegistryState', () => {
+  // A registry as written before schema versions existed
+  const unversioned = (): RegistryState => ({
+    symbols: [
+      { symbol: 'kept', type: SymbolType.FUNCTION, file: '/project/a.ts' },
+      { symbol: 'removedType', type: 'macro', file: '/project/a.ts' },
+      { type: SymbolType.CLASS, file: '/project/a.ts' },
+      null
+    ],
+    files: [
+      { path: '/project/a.ts', lastModified: 10 },
+      { path: '/project/gone.ts', lastParsed: 5, lastModified: 4, exists: false },
+      { lastParsed: 1 }
+    ]
+  } as unknown as RegistryState);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('upgrades an unversioned registry through every version', () => {
+    const migrated = migrateRegistryState(unversioned());
+
+    expect(REGISTRY_SCHEMA_VERSION).toBe(5);
+    expect(migrated.version).toBe(5);
+    expect(migrated.lastFullRefresh).toBe(0);
+    expect(migrated.symbols.map(symbol => symbol.symbol)).toEqual(['kept']);
+    expect(migrated.files).toEqual([
+      { path: '/project/a.ts', lastParsed: 0, lastModified: 10, exists: true, size: -1, hash: '', package: '' },
+      { path: '/project/gone.ts', lastParsed: 0, lastModified: 4, exists: false, size: -1, hash: '', package: '' }
+    ]);
+    expect(console.error).toHaveBeenCalledTimes(4);
+  });
+
+  it('only runs the migrations after the recorded version', () => {
+    const state = {
+      version: 3,
+      symbols: [{ symbol: 'kept', type: SymbolType.FUNCTION, file: '/project/a.ts' }],
+      files: [{ path: '/project/a.ts', lastParsed: 20, lastModified: 10, exists: true, size: 7, hash: 'abc' }],
+      lastFullRefresh: 30
+    } as RegistryState;
+
+    const migrated = migrateRegistryState(state);
+
+    expect(migrated).toEqual({
+      ...state,
+      version: 5,
+      files: [{ path: '/project/a.ts', lastParsed: 0, lastModified: 10, exists: true, size: 7, hash: 'abc', package: '' }]
+    });
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves a current registry unchanged', () => {
+    const state = { version: REGISTRY_SCHEMA_VERSION, symbols: [], files: [], lastFullRefresh: 1 } as RegistryState;
+
+    expect(migrateRegistryState(state)).toEqual(state);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('refuses a registry written by a newer server', () => {
+    expect(() => migrateRegistryState({ version: REGISTRY_SCHEMA_VERSION + 1, symbols: [], files: [] } as unknown as RegistryState))
+      .toThrow(UnsupportedRegistryVersionError);
+  });
+
+  describe('when loading registry files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('migrates an old file as it is loaded', () => {
+      fs.writeFileSync(getRegistryFilePath(dir, false), JSON.stringify(unversioned()));
+
+      const { state, recovered } = loadRegistryFile(dir, false);
+
+      expect(recovered).toBe(false);
+      expect(state.version).toBe(REGISTRY_SCHEMA_VERSION);
+      expect(state.files.map(file => file.path)).toEqual(['/project/a.ts', '/project/gone.ts']);
+    });
+
+    it('moves a file of a newer schema aside instead of overwriting it', () => {
+      fs.writeFileSync(getRegistryFilePath(dir, false), JSON.stringify({ version: REGISTRY_SCHEMA_VERSION + 1, symbols: [], files: [] }));
+
+      const { state, recovered } = loadRegistryFile(dir, false);
+
+      expect(recovered).toBe(true);
+      expect(state.symbols).toEqual([]);
+      expect(fs.readdirSync(dir).some(name => name.startsWith('.symbol-registry.json.corrupt-'))).toBe(true);
+    });
+  });
+});
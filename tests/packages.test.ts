@@ -0,0 +1,98 @@
+import * as os from 'os';
+import * as path from 'path';
+import { PackageResolver } from '../src/config/packages';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('PackageResolver', () => {
+  let dir: TempDir;
+  let root: string;
+
+  const resolve = (file: string) => new PackageResolver(root).resolve(path.join(root, file));
+
+  beforeEach(() => {
+    dir = createTempDir('packages-');
+    root = dir.root;
+  });
+
+  afterEach(() => {
+    dir.remove();
+  });
+
+  it('resolves files to the package.json at the project root', () => {
+    dir.write('package.json', JSON.stringify({ name: 'app', version: '1.2.3' }));
+
+    expect(resolve('src/index.ts')).toEqual({ name: 'app', version: '1.2.3', directory: root, manifest: 'package.json' });
+  });
+
+  it('resolves files to the npm workspace packages containing them', () => {
+    dir.write('package.json', JSON.stringify({ name: 'monorepo', workspaces: ['packages/*'] }));
+    dir.write('packages/core/package.json', JSON.stringify({ name: '@repo/core', version: '2.0.0' }));
+
+    expect(resolve('packages/core/src/index.ts')).toMatchObject({
+      name: '@repo/core',
+      version: '2.0.0',
+      directory: path.join(root, 'packages/core')
+    });
+    expect(resolve('scripts/build.ts')).toMatchObject({ name: 'monorepo' });
+  });
+
+  it('understands yarn workspaces given as { packages }', () => {
+    dir.write('package.json', JSON.stringify({ name: 'monorepo', workspaces: { packages: ['./libs/*/'] } }));
+    dir.write('libs/util/package.json', JSON.stringify({ name: 'util' }));
+
+    expect(resolve('libs/util/index.ts')).toMatchObject({ name: 'util' });
+  });
+
+  it('understands pnpm-workspace.yaml patterns', () => {
+    dir.write('package.json', JSON.stringify({ name: 'monorepo' }));
+    dir.write('pnpm-workspace.yaml', 'packages:\n  - "apps/*"\n  # comment\n  - tools/cli\n');
+    dir.write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+    dir.write('tools/cli/package.json', JSON.stringify({ name: 'cli' }));
+
+    expect(resolve('apps/web/page.tsx')).toMatchObject({ name: 'web' });
+    expect(resolve('tools/cli/main.ts')).toMatchObject({ name: 'cli' });
+  });
+
+  it('does not start a package at package.json files outside the workspace patterns', () => {
+    dir.write('package.json', JSON.stringify({ name: 'app', workspaces: ['packages/*'] }));
+    dir.write('test/fixtures/sample/package.json', JSON.stringify({ name: 'fixture' }));
+
+    expect(resolve('test/fixtures/sample/index.ts')).toMatchObject({ name: 'app' });
+  });
+
+  it('ignores workspaces declarations of the wrong shape', () => {
+    dir.write('package.json', JSON.stringify({ name: 'app', workspaces: 'packages/*' }));
+    dir.write('packages/core/package.json', JSON.stringify({ name: 'core' }));
+
+    expect(resolve('packages/core/index.ts')).toMatchObject({ name: 'app' });
+
+    dir.write('package.json', JSON.stringify({ name: 'app', workspaces: { packages: [42, 'packages/*'] } }));
+    expect(resolve('packages/core/index.ts')).toMatchObject({ name: 'core' });
+  });
+
+  it('resolves Python packages from pyproject.toml', () => {
+    dir.write('pyproject.toml', '[build-system]\nrequires = ["hatchling"]\n\n[project]\nname = "tool"\nversion = \'0.1.0\'\n');
+    dir.write('poetry/pyproject.toml', '[tool.poetry]\nname = "legacy"\n');
+
+    expect(resolve('src/tool/main.py')).toEqual({ name: 'tool', version: '0.1.0', directory: root, manifest: 'pyproject.toml' });
+    expect(resolve('poetry/app.py')).toMatchObject({ name: 'legacy', directory: path.join(root, 'poetry') });
+  });
+
+  it('finds no package outside the project root or without manifests', () => {
+    dir.write('package.json', JSON.stringify({ version: '1.0.0' }));
+
+    expect(resolve('src/index.ts')).toBeUndefined();
+    expect(new PackageResolver(root).resolve(path.join(os.tmpdir(), 'elsewhere.ts'))).toBeUndefined();
+  });
+
+  it('reads changed manifests again after invalidate()', () => {
+    const resolver = new PackageResolver(root);
+    dir.write('package.json', JSON.stringify({ name: 'before' }));
+    expect(resolver.resolve(path.join(root, 'index.ts'))).toMatchObject({ name: 'before' });
+
+    dir.write('package.json', JSON.stringify({ name: 'after' }));
+    resolver.invalidate();
+
+    expect(resolver.resolve(path.join(root, 'index.ts'))).toMatchObject({ name: 'after' });
+  });
+});
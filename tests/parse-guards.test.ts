@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_CONFIG } from '../src/config/mcpConfig';
+import { checkParseGuards } from '../src/parsers/parseGuards';
+import { WorkspaceManager, Workspace } from '../src/registry/workspace';
+import { refreshRegistry } from '../src/tools/refreshRegistry';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('Parse guards', () => {
+  let dir: TempDir;
+  let root: string;
+
+  // One long line of code, as a minifier writes it
+  const minified = (length: number) => 'var a=1;'.repeat(Math.ceil(length / 8)).substring(0, length) + '\n';
+
+  beforeEach(() => {
+    dir = createTempDir('parse-guards-');
+    root = dir.root;
+  });
+
+  afterEach(() => {
+    dir.remove();
+  });
+
+  describe('checkParseGuards', () => {
+    const settings = { ...DEFAULT_CONFIG.parsing, maxFileSize: 1000 };
+
+    it('lets ordinary source files through', () => {
+      expect(checkParseGuards(dir.write('app.ts', 'export function app(): void {}\n'), settings)).toBeUndefined();
+      expect(checkParseGuards(path.join(root, 'missing.ts'), settings)).toBeUndefined();
+    });
+
+    it('skips files larger than maxFileSize unless the limit is 0', () => {
+      const filePath = dir.write('big.ts', `// ${'x'.repeat(1200)}\n`);
+
+      expect(checkParseGuards(filePath, settings)).toBe('File is 1204 bytes, larger than parsing.maxFileSize (1000 bytes)');
+      expect(checkParseGuards(filePath, { ...settings, maxFileSize: 0 })).toBeUndefined();
+    });
+
+    it('skips files named as minified', () => {
+      expect(checkParseGuards(dir.write('vendor.min.js', 'var a = 1;\n'), settings)).toBe('File is minified (name contains ".min.")');
+    });
+
+    it('skips files whose lines are as long as minified code', () => {
+      const filePath = dir.write('bundle.js', minified(3000));
+
+      expect(checkParseGuards(filePath, { ...settings, maxFileSize: 0 })).toBe('File looks minified (1501 characters per line on average)');
+      // Short files and files of ordinary lines are kept
+      expect(checkParseGuards(dir.write('short.js', minified(1500)), { ...settings, maxFileSize: 0 })).toBeUndefined();
+      expect(checkParseGuards(dir.write('long.js', 'var a = 1;\n'.repeat(300)), { ...settings, maxFileSize: 0 })).toBeUndefined();
+    });
+
+    it('skips files with a generated-code marker in their header', () => {
+      expect(checkParseGuards(dir.write('api.ts', '// Code generated by protoc-gen-ts. DO NOT EDIT.\nexport {};\n'), settings))
+        .toBe('File is generated (header contains "Code generated ... DO NOT EDIT.")');
+      expect(checkParseGuards(dir.write('client.py', '#!/usr/bin/env python\n# Generated from api.yaml, DO NOT EDIT\nimport os\n'), settings))
+        .toBe('File is generated (header contains "DO NOT EDIT")');
+      expect(checkParseGuards(dir.write('schema.ts', '/**\n * @generated\n */\nexport {};\n'), settings))
+        .toBe('File is generated (header contains "@generated")');
+      // A marker below the header is not one
+      expect(checkParseGuards(dir.write('late.ts', '\n'.repeat(12) + '// @generated\n'), settings)).toBeUndefined();
+    });
+
+    it('keeps files whose comments only mention generated code', () => {
+      expect(checkParseGuards(dir.write('ids.ts', '// ids are auto-generated by the database\nexport {};\n'), settings)).toBeUndefined();
+      expect(checkParseGuards(dir.write('notes.ts', '// Please do not edit this by hand\nexport {};\n'), settings)).toBeUndefined();
+      // Markers after the first line of code are not in the header
+      expect(checkParseGuards(dir.write('warning.ts', "export const warning = 'DO NOT EDIT';\n// @generated\n"), settings))
+        .toBeUndefined();
+    });
+
+    it('keeps minified and generated files when skipGenerated is off', () => {
+      const noSkip = { ...settings, skipGenerated: false };
+
+      expect(checkParseGuards(dir.write('vendor.min.js', 'var a = 1;\n'), noSkip)).toBeUndefined();
+      expect(checkParseGuards(dir.write('api.ts', '// @generated\nexport {};\n'), noSkip)).toBeUndefined();
+    });
+  });
+
+  describe('refresh_registry', () => {
+    let manager: WorkspaceManager;
+    let workspace: Workspace;
+
+    const refresh = (input = {}) => refreshRegistry(input, { workspace });
+
+    const names = () => workspace.registry.getAllSymbols().map(symbol => symbol.symbol).sort();
+
+    beforeEach(() => {
+      dir.write('mcpconfig.json', JSON.stringify({ parsing: { workers: 0, maxFileSize: 200 } }));
+      manager = new WorkspaceManager();
+      workspace = manager.add(root, 'option');
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('reports skipped files with the reason and drops their old symbols', async () => {
+      dir.write('kept.ts', 'export function kept(): void {}\n');
+      const grown = dir.write('grown.ts', 'export function grown(): void {}\n');
+      const generated = dir.write('generated.ts', '// @generated\nexport function generated(): void {}\n');
+
+      const scan = await refresh({ fullScan: true });
+      expect(scan.skippedFiles).toEqual([{ file: generated, reason: 'File is generated (header contains "@generated")' }]);
+      expect(names()).toEqual(['grown', 'kept']);
+
+      dir.write('grown.ts', `export function grown(): void {}\n// ${'x'.repeat(200)}\n`);
+      const result = await refresh();
+
+      expect(result.skippedFiles).toEqual([
+        { file: grown, reason: `File is ${fs.statSync(grown).size} bytes, larger than parsing.maxFileSize (200 bytes)` }
+      ]);
+      expect(result.failedFiles).toEqual([]);
+      expect(names()).toEqual(['kept']);
+      // Skipped files are not tried again until they change
+      expect((await refresh()).skippedFiles).toEqual([]);
+    });
+  });
+});
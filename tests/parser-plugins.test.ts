@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parserRegistry } from '../src/parsers';
+import { getPluginStatuses, loadPlugins } from '../src/parsers/plugins';
+import { WorkspaceManager } from '../src/registry/workspace';
+// Also registers the built-in parsers
+import { refreshRegistry } from '../src/tools/refreshRegistry';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('Parser plugins', () => {
+  let dir: TempDir;
+  let root: string;
+
+  // A plugin module whose parser reports one function, named after the parser, for every .ts file.
+  // Loading it logs the thread it is loaded in.
+  const plugin = (name: string, fields: Record<string, unknown> = {}) => `
+    require('fs').appendFileSync(__dirname + '/loaded.log', require('worker_threads').threadId + '\\n');
+    exports.createParser = () => Object.assign({
+      name: '${name}',
+      version: '1',
+      capabilities: { extensions: ['ts'], symbolKinds: ['function'] },
+      supportsFile: filePath => filePath.endsWith('.ts'),
+      parseFile: async filePath => ({ filePath, functions: [{ name: '${name}Function', params: [], exported: true }] })
+    }, ${JSON.stringify(fields)});
+  `;
+
+  const parserFor = (file: string) => parserRegistry.getParserForFile(path.join(root, file))?.name;
+
+  beforeEach(() => {
+    dir = createTempDir('parser-plugins-');
+    root = dir.root;
+    dir.write('plugins/preferred.js', plugin('preferred', { priority: 10 }));
+    dir.write('node_modules/ts-outline-parser/package.json', { name: 'ts-outline-parser', main: 'lib/parser.js' });
+    dir.write('node_modules/ts-outline-parser/lib/parser.js', plugin('outline'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    loadPlugins(root, []);
+    jest.restoreAllMocks();
+    dir.remove();
+  });
+
+  describe('loadPlugins', () => {
+    it('loads plugins by a path relative to the root and by package name', () => {
+      const statuses = loadPlugins(root, ['./plugins/preferred.js', 'ts-outline-parser']);
+
+      expect(statuses).toEqual([
+        { plugin: './plugins/preferred.js', root, module: path.join(root, 'plugins/preferred.js'), parser: 'preferred' },
+        {
+          plugin: 'ts-outline-parser',
+          root,
+          module: path.join(root, 'node_modules/ts-outline-parser/lib/parser.js'),
+          parser: 'outline'
+        }
+      ]);
+      expect(parserRegistry.getParsers(root).map(entry => entry.parser.name))
+        .toEqual(['preferred', 'typescript', 'javascript', 'python', 'outline']);
+    });
+
+    it('lets a plugin of higher priority take over the files of a built-in parser, in its root only', () => {
+      loadPlugins(root, ['ts-outline-parser']);
+      // Of the same priority, the built-in parser is kept
+      expect(parserFor('src/app.ts')).toBe('typescript');
+
+      loadPlugins(root, ['ts-outline-parser', './plugins/preferred.js']);
+      expect(parserFor('src/app.ts')).toBe('preferred');
+      expect(parserFor('src/app.js')).toBe('javascript');
+      expect(parserRegistry.getParserForFile(path.join(os.tmpdir(), 'elsewhere.ts'))?.name).toBe('typescript');
+    });
+
+    it('reports plugins that cannot be loaded and registers none of their parsers', () => {
+      dir.write('plugins/unnamed.js', plugin('', { version: 2 }));
+      dir.write('plugins/no-parse.js', plugin('no-parse', { parseFile: null }));
+      dir.write('plugins/empty.js', 'exports.version = 1;\n');
+
+      const statuses = loadPlugins(root, [
+        './plugins/unnamed.js',
+        './plugins/no-parse.js',
+        './plugins/empty.js',
+        './plugins/missing.js',
+        './plugins/preferred.js',
+        './plugins/preferred.js'
+      ]);
+
+      expect(statuses.map(status => status.error)).toEqual([
+        expect.stringMatching(/^Invalid parser: .*name.*version/),
+        'Invalid parser: "parseFile" must be a function',
+        'The module does not export a createParser function',
+        expect.stringMatching(/^Cannot find module /),
+        undefined,
+        'A parser named "preferred" is already registered'
+      ]);
+      expect(parserRegistry.getParsers(root).filter(entry => entry.scope === root).map(entry => entry.parser.name))
+        .toEqual(['preferred']);
+    });
+  });
+
+  describe('in a workspace', () => {
+    // Plugins only run in parser workers, which need the compiled worker script
+    const parserScript = path.resolve(__dirname, '../dist/parsers/parseWorker.js');
+    let manager: WorkspaceManager;
+
+    const loadedIn = () => fs.readFileSync(path.join(root, 'plugins/loaded.log'), 'utf-8').trim().split('\n').map(Number);
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('re-parses the files a plugin takes over once it is listed in mcpconfig.json', async () => {
+      dir.write('mcpconfig.json', { parsing: { workers: 0 } });
+      const app = dir.write('src/app.ts', 'export function app(): void {}\n');
+      dir.write('src/tool.js', 'export function tool() {}\n');
+      manager = new WorkspaceManager({ allowPlugins: true, parserScript });
+      const workspace = manager.add(root, 'option');
+      const names = () => workspace.registry.getAllSymbols().map(symbol => symbol.symbol).sort();
+
+      await refreshRegistry({ fullScan: true }, { workspace });
+      expect(names()).toEqual(['app', 'tool']);
+
+      dir.write('mcpconfig.json', { parsing: { workers: 0, plugins: ['./plugins/preferred.js'] } });
+      await workspace.syncPlugins();
+      expect(await workspace.registry.getFilesNeedingRefresh()).toEqual([app]);
+
+      // Without workers, the plugin's files are still parsed in one
+      await refreshRegistry({}, { workspace });
+      expect(names()).toEqual(['preferredFunction', 'tool']);
+      expect(await workspace.registry.getFilesNeedingRefresh()).toEqual([]);
+      expect(loadedIn().length).toBeGreaterThan(0);
+      expect(loadedIn()).not.toContain(0);
+    });
+
+    it('loads no plugins for client roots or unless the server allows plugins', async () => {
+      dir.write('mcpconfig.json', { parsing: { workers: 0, plugins: ['./plugins/preferred.js'] } });
+
+      for (const [options, source] of [[{ allowPlugins: true }, 'client'], [{}, 'option']] as const) {
+        manager = new WorkspaceManager({ ...options, parserScript });
+        await manager.add(root, source).syncPlugins();
+
+        expect(getPluginStatuses(root)).toEqual([
+          { plugin: './plugins/preferred.js', root, error: expect.stringMatching(/^Parser plugins are disabled; start the server with --allow-plugins/) }
+        ]);
+        expect(parserFor('src/app.ts')).toBe('typescript');
+        manager.close();
+      }
+      expect(fs.existsSync(path.join(root, 'plugins/loaded.log'))).toBe(false);
+    });
+
+    it('reports a plugin that ends its worker while loading, without harm to the server', async () => {
+      dir.write('plugins/exits.js', 'process.exit(3);\n');
+      dir.write('mcpconfig.json', { parsing: { workers: 0, plugins: ['./plugins/exits.js'] } });
+      manager = new WorkspaceManager({ allowPlugins: true, parserScript });
+
+      await manager.add(root, 'option').syncPlugins();
+
+      expect(getPluginStatuses(root)).toEqual([{ plugin: './plugins/exits.js', root, error: 'Parser worker exited with code 3' }]);
+      expect(parserFor('src/app.ts')).toBe('typescript');
+    });
+  });
+});
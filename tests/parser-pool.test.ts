@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParserPool } from '../src/parsers/parserPool';
+import { setPluginList } from '../src/parsers/plugins';
+import { DEFAULT_CONFIG } from '../src/config/mcpConfig';
+
+// Stands in for parseWorker.js: hangs on files named hang*, crashes on files named crash*,
+// and otherwise answers with the thread it runs in and the plugins it was started with.
+// It loads no plugins, reporting each as missing.
+const WORKER_SOURCE = `
+const path = require('path');
+const { parentPort, threadId, workerData } = require('worker_threads');
+const plugins = Object.entries(workerData.plugins)
+  .flatMap(([root, entries]) => entries.map(plugin => ({ plugin, root, error: 'Cannot find module ' + plugin })));
+parentPort.postMessage({ plugins, parsers: [] });
+parentPort.on('message', ({ filePath }) => {
+  const name = path.basename(filePath);
+  if (name.startsWith('hang')) {
+    return;
+  }
+  if (name.startsWith('crash')) {
+    throw new Error('parser blew up');
+  }
+  parentPort.postMessage({ result: { filePath, threadId, plugins: workerData.plugins }, durationMs: 1 });
+});
+`;
+
+describe('ParserPool', () => {
+  let dir: string;
+  let script: string;
+  const pools: ParserPool[] = [];
+
+  const settings = { ...DEFAULT_CONFIG.parsing, workers: 1, timeoutMs: 500 };
+
+  const createPool = (root: string): ParserPool => {
+    const pool = new ParserPool(root, script);
+    pool.configure(settings);
+    pools.push(pool);
+    return pool;
+  };
+
+  const writeFile = (root: string, name: string): string => {
+    const filePath = path.join(root, name);
+    fs.mkdirSync(root, { recursive: true });
+    fs.writeFileSync(filePath, 'export const value = 1;\n');
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'parser-pool-')));
+    script = path.join(dir, 'worker.js');
+    fs.writeFileSync(script, WORKER_SOURCE);
+  });
+
+  afterEach(() => {
+    for (const pool of pools.splice(0)) {
+      pool.close();
+    }
+    setPluginList(path.join(dir, 'a'), []);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses files in a worker and reports the content it was given', async () => {
+    const root = path.join(dir, 'a');
+    const filePath = writeFile(root, 'ok.ts');
+
+    const outcome = await createPool(root).parse(filePath);
+
+    expect(outcome.result).toMatchObject({ filePath, plugins: {} });
+    expect(outcome.content).toMatchObject({ size: fs.statSync(filePath).size });
+  });
+
+  it('fails a file that takes too long and replaces its worker', async () => {
+    const root = path.join(dir, 'a');
+    const pool = createPool(root);
+
+    const [hung, next] = await Promise.all([
+      pool.parse(writeFile(root, 'hang.ts')),
+      pool.parse(writeFile(root, 'ok.ts'))
+    ]);
+
+    expect(hung).toMatchObject({
+      result: { error: 'Parsing timed out', details: 'Parsing took longer than 500 ms' },
+      aborted: true
+    });
+    expect(hung.content).toBeDefined();
+    expect(next.result).toMatchObject({ filePath: path.join(root, 'ok.ts') });
+  });
+
+  it('fails only the file whose worker crashed', async () => {
+    const root = path.join(dir, 'a');
+    const pool = createPool(root);
+
+    const crashed = await pool.parse(writeFile(root, 'crash.ts'));
+    const next = await pool.parse(writeFile(root, 'ok.ts'));
+
+    expect(crashed).toMatchObject({ result: { error: 'Parsing error' }, aborted: true });
+    expect((crashed.result as { details: string }).details).toContain('parser blew up');
+    expect(next.result).toMatchObject({ filePath: path.join(root, 'ok.ts') });
+  });
+
+  it('skips files the parse guards stop without starting a worker', async () => {
+    const root = path.join(dir, 'a');
+    const filePath = writeFile(root, 'hang.ts');
+    const pool = new ParserPool(root, script);
+    pools.push(pool);
+    pool.configure({ ...settings, maxFileSize: 1 });
+
+    const outcome = await pool.parse(filePath);
+
+    expect(outcome).toMatchObject({ skipped: true, result: { error: 'File skipped' } });
+  });
+
+  it('keeps the settings of each workspace to its own pool', () => {
+    const inline = new ParserPool(path.join(dir, 'a'), script);
+    pools.push(inline);
+    inline.configure({ ...settings, workers: 0 });
+    const pooled = createPool(path.join(dir, 'b'));
+
+    expect(inline.getConcurrency()).toBe(1);
+    expect(pooled.getConcurrency()).toBe(1);
+
+    pooled.configure({ ...settings, workers: 3 });
+    expect(inline.getConcurrency()).toBe(1);
+    expect(pooled.getConcurrency()).toBe(3);
+  });
+
+  it('replaces only the workers of the roots whose plugins changed', async () => {
+    const rootA = path.join(dir, 'a');
+    const rootB = path.join(dir, 'b');
+    const poolA = createPool(rootA);
+    const poolB = createPool(rootB);
+    const fileA = writeFile(rootA, 'ok.ts');
+    const fileB = writeFile(rootB, 'ok.ts');
+
+    const threadOf = async (pool: ParserPool, filePath: string) =>
+      ((await pool.parse(filePath)).result as unknown as { threadId: number; plugins: Record<string, string[]> });
+
+    const beforeA = await threadOf(poolA, fileA);
+    const beforeB = await threadOf(poolB, fileB);
+
+    // The plugin cannot be loaded, but it is listed for the root all the same
+    expect(await poolA.loadPlugins(['./missing-plugin.js'])).toEqual([
+      { plugin: './missing-plugin.js', root: rootA, error: 'Cannot find module ./missing-plugin.js' }
+    ]);
+
+    const afterA = await threadOf(poolA, fileA);
+    const afterB = await threadOf(poolB, fileB);
+
+    expect(afterA.threadId).not.toBe(beforeA.threadId);
+    expect(afterA.plugins).toEqual({ [rootA]: ['./missing-plugin.js'] });
+    expect(afterB.threadId).toBe(beforeB.threadId);
+    expect(afterB.plugins).toEqual({});
+  });
+});
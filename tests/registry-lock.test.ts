@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { LEASE_TIMEOUT_MS, LockOwner, RegistryLock } from '../src/registry/registryLock';
+
+describe('RegistryLock', () => {
+  let dir: string;
+  let locks: RegistryLock[];
+
+  const lockPath = () => path.join(dir, '.symbol-registry.lock');
+
+  const createLock = (): RegistryLock => {
+    const lock = new RegistryLock(dir);
+    locks.push(lock);
+    return lock;
+  };
+
+  // Write a lock file as another process would, optionally backdated
+  const writeOwner = (owner: Partial<LockOwner>, ageMs = 0): void => {
+    fs.writeFileSync(lockPath(), JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now(), token: 'other', ...owner }));
+    const time = new Date(Date.now() - ageMs);
+    fs.utimesSync(lockPath(), time, time);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-lock-'));
+    locks = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    locks.forEach(lock => lock.release());
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('grants the lease to one holder at a time', () => {
+    const first = createLock();
+    const second = createLock();
+
+    expect(first.tryAcquire()).toBe(true);
+    expect(second.tryAcquire()).toBe(false);
+    expect(first.readOwner()).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+
+    first.release();
+    expect(fs.existsSync(lockPath())).toBe(false);
+    expect(second.tryAcquire()).toBe(true);
+    expect(second.isHeld()).toBe(true);
+  });
+
+  it('renews its own lease and notices when it was taken over', () => {
+    const lock = createLock();
+    lock.tryAcquire();
+    const old = new Date(Date.now() - 10000);
+    fs.utimesSync(lockPath(), old, old);
+
+    expect(lock.renew()).toBe(true);
+    expect(fs.statSync(lockPath()).mtimeMs).toBeGreaterThan(old.getTime());
+
+    writeOwner({ token: 'successor' });
+    expect(lock.renew()).toBe(false);
+    expect(lock.isHeld()).toBe(false);
+
+    // Releasing must not remove the successor's lease
+    lock.release();
+    expect(lock.readOwner()?.token).toBe('successor');
+  });
+
+  it('takes over the lease of a process that exited', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeOwner({ pid });
+
+    expect(createLock().tryAcquire()).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`process ${pid}, which has exited`));
+  });
+
+  it('takes over a lease that was not renewed in time', () => {
+    writeOwner({ hostname: 'other-host' }, LEASE_TIMEOUT_MS + 1000);
+
+    expect(createLock().tryAcquire()).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('stopped renewing it'));
+  });
+
+  it('respects a recent lease of another host, whose processes it cannot check', () => {
+    writeOwner({ hostname: 'other-host', pid: 999999 });
+
+    expect(createLock().tryAcquire()).toBe(false);
+  });
+
+  it('treats an unreadable lock file as being written unless it is old', () => {
+    fs.writeFileSync(lockPath(), '');
+    expect(createLock().tryAcquire()).toBe(false);
+
+    const old = new Date(Date.now() - LEASE_TIMEOUT_MS - 1000);
+    fs.utimesSync(lockPath(), old, old);
+    expect(createLock().tryAcquire()).toBe(true);
+  });
+
+  it('writes without a lease when the lock file cannot be created', () => {
+    const lock = new RegistryLock(path.join(dir, 'missing'));
+
+    expect(lock.tryAcquire()).toBe(true);
+    expect(lock.renew()).toBe(true);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { workspaces, Workspace } from '../src/registry/workspace';
+import { MCPServer } from '../src/server/mcpServer';
+import { JsonRpcErrorCode, JsonRpcNotification } from '../src/server/protocol';
+import { getDocForFile } from '../src/tools/getDocForFile';
+
+describe('MCP resources', () => {
+  let root: string;
+  let workspace: Workspace;
+  let server: MCPServer;
+  let nextId: number;
+  let notifications: JsonRpcNotification[];
+
+  const request = (method: string, params: Record<string, any>) =>
+    server.handleMessage({ jsonrpc: '2.0', id: ++nextId, method, params }) as Promise<any>;
+
+  const read = async (uri: string) => {
+    const response = await request('resources/read', { uri });
+    return response.result ? JSON.parse(response.result.contents[0].text) : response;
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'resources-')));
+    fs.writeFileSync(path.join(root, 'mcpconfig.json'), JSON.stringify({ parsing: { workers: 0 } }));
+    workspace = workspaces.add(root, 'option');
+    workspaces.settle();
+    notifications = [];
+    server = new MCPServer({ legacy: false, notify: message => notifications.push(message as JsonRpcNotification) });
+    nextId = 0;
+
+    for (const [file, className] of [['foo.ts', 'Foo'], ['bar.ts', 'Bar']]) {
+      workspace.registry.registerFileSymbols({
+        filePath: path.join(root, file),
+        classes: [{
+          name: className,
+          exported: true,
+          methods: [{ name: 'save', params: [] }],
+          properties: []
+        }]
+      });
+    }
+  });
+
+  afterEach(() => {
+    server.dispose();
+    workspaces.remove(root);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('symbols://symbol/', () => {
+    it('reads the one symbol a reference names', async () => {
+      const content = await read('symbols://symbol/Foo.save');
+
+      expect(content.symbol).toMatchObject({ symbol: 'save', parentSymbol: 'Foo', qualifiedName: 'foo.ts#Foo.save', root });
+    });
+
+    it('lists the candidates of an ambiguous reference instead of picking one', async () => {
+      const response = await read('symbols://symbol/save');
+
+      expect(response.error).toMatchObject({
+        code: JsonRpcErrorCode.INVALID_PARAMS,
+        message: expect.stringMatching(/ambiguous: 2 symbols match/),
+        data: { uri: 'symbols://symbol/save' }
+      });
+      expect(response.error.data.candidates.map((c: any) => [c.qualifiedName, c.id])).toEqual([
+        ['foo.ts#Foo.save', expect.stringMatching(/^[0-9a-f]{16}$/)],
+        ['bar.ts#Bar.save', expect.stringMatching(/^[0-9a-f]{16}$/)]
+      ]);
+    });
+
+    it('refuses to subscribe to an ambiguous reference', async () => {
+      const response = await request('resources/subscribe', { uri: 'symbols://symbol/save' });
+
+      expect(response.error).toMatchObject({ code: JsonRpcErrorCode.INVALID_PARAMS, data: { candidates: expect.any(Array) } });
+      expect(await request('resources/subscribe', { uri: 'symbols://symbol/Bar.save' })).toMatchObject({ result: {} });
+    });
+
+    it('does not find a symbol no reference matches', async () => {
+      const response = await read('symbols://symbol/load');
+
+      expect(response.error).toMatchObject({ code: JsonRpcErrorCode.RESOURCE_NOT_FOUND });
+    });
+  });
+
+  describe('files', () => {
+    // Write a file and register it as a refresh or the watcher would
+    const parse = async (file: string, source: string): Promise<string> => {
+      const filePath = path.join(root, file);
+      fs.writeFileSync(filePath, source);
+      await getDocForFile({ file: filePath }, { workspace });
+      return filePath;
+    };
+
+    it('lists the route list and an outline per tracked file', async () => {
+      const response = await request('resources/list', {});
+
+      expect(response.result.resources.map((resource: any) => resource.uri)).toEqual([
+        'symbols://routes',
+        'symbols://file/bar.ts',
+        'symbols://file/foo.ts'
+      ]);
+    });
+
+    it('reads the outline of a file', async () => {
+      const filePath = await parse('user.ts', 'export class User {\n  getName(): string { return ""; }\n}\n');
+
+      const content = await read('symbols://file/user.ts');
+
+      expect(content.file).toBe(filePath);
+      expect(content.symbols.map((symbol: any) => symbol.qualifiedName)).toEqual(['user.ts#User', 'user.ts#User.getName']);
+    });
+
+    it('reads a symbol with its members', async () => {
+      await parse('user.ts', 'export class User {\n  getName(): string { return ""; }\n}\n');
+
+      const content = await read('symbols://symbol/user.ts%23User');
+
+      expect(content.symbol).toMatchObject({ symbol: 'User', type: 'class', root });
+      expect(content.members.map((member: any) => member.symbol)).toEqual(['getName']);
+    });
+
+    it('tells subscribers which resources changed when a file is re-parsed', async () => {
+      await parse('user.ts', 'export function load(): void {}\n');
+      for (const uri of ['symbols://file/user.ts', 'symbols://symbol/load', 'symbols://file/foo.ts']) {
+        expect(await request('resources/subscribe', { uri })).toMatchObject({ result: {} });
+      }
+
+      await parse('user.ts', 'export function load(id: string): void {}\n');
+
+      expect(notifications.filter(n => n.method === 'notifications/resources/updated').map(n => n.params!.uri).sort()).toEqual([
+        'symbols://file/user.ts',
+        'symbols://symbol/load'
+      ]);
+    });
+
+    it('stops notifying after unsubscribing', async () => {
+      await parse('user.ts', 'export function load(): void {}\n');
+      await request('resources/subscribe', { uri: 'symbols://file/user.ts' });
+      await request('resources/unsubscribe', { uri: 'symbols://file/user.ts' });
+
+      await parse('user.ts', 'export function save(): void {}\n');
+
+      expect(notifications).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDocResponse } from '../src/types';
+import { TypeScriptParser } from '../src/parsers/typescript';
+import { JavaScriptParser } from '../src/parsers/javascript';
+import { ParserPool } from '../src/parsers/parserPool';
+import { DEFAULT_CONFIG } from '../src/config/mcpConfig';
+
+describe('Source locations', () => {
+  let dir: string;
+
+  const parse = async (parser: { parseFile(filePath: string): Promise<unknown> }, file: string, lines: string[]) => {
+    const filePath = path.join(dir, file);
+    fs.writeFileSync(filePath, lines.join('\n'));
+    const result = await parser.parseFile(filePath);
+    expect(result).not.toHaveProperty('error');
+    return result as FileDocResponse;
+  };
+
+  // tree-sitter breaks when loaded again in the same process, as an earlier test file may have done,
+  // so Python files are parsed in a worker of the compiled server, which loads its own copy
+  const workerParser = () => {
+    const pool = new ParserPool(dir, path.resolve(__dirname, '../dist/parsers/parseWorker.js'));
+    pool.configure({ ...DEFAULT_CONFIG.parsing, workers: 1 });
+    return {
+      parseFile: async (filePath: string) => {
+        try {
+          return (await pool.parse(filePath)).result;
+        } finally {
+          pool.close();
+        }
+      }
+    };
+  };
+
+  // line, column, endLine, endColumn of the declaration and of its name
+  const range = (line: number, column: number, endLine: number, endColumn: number) => ({ line, column, endLine, endColumn });
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'source-locations-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('locates TypeScript declarations from their modifiers, without the JSDoc', async () => {
+    const result = await parse(new TypeScriptParser(), 'greeter.ts', [
+      '/** Adds numbers */',
+      'export function add(a: number, b: number): number {',
+      '  return a + b;',
+      '}',
+      '',
+      'export class Greeter {',
+      '  greet(name: string): string {',
+      '    return name;',
+      '  }',
+      '}'
+    ]);
+
+    expect(result.functions![0].location).toEqual({ ...range(2, 1, 4, 2), name: range(2, 17, 2, 20) });
+    expect(result.classes![0].location).toEqual({ ...range(6, 1, 10, 2), name: range(6, 14, 6, 21) });
+    expect(result.classes![0].methods[0].location).toEqual({ ...range(7, 3, 9, 4), name: range(7, 3, 7, 8) });
+  });
+
+  it('locates JavaScript declarations', async () => {
+    const result = await parse(new JavaScriptParser(), 'store.js', [
+      'class Store {',
+      '  save(item) {',
+      '    return item;',
+      '  }',
+      '}',
+      '',
+      '  function load() {}'
+    ]);
+
+    expect(result.classes![0].location).toEqual({ ...range(1, 1, 5, 2), name: range(1, 7, 1, 12) });
+    expect(result.classes![0].methods[0].location).toEqual({ ...range(2, 3, 4, 4), name: range(2, 3, 2, 7) });
+    expect(result.functions![0].location).toEqual({ ...range(7, 3, 7, 21), name: range(7, 12, 7, 16) });
+  });
+
+  it('locates Python declarations from their decorators, including methods nested in a class', async () => {
+    const result = await parse(workerParser(), 'cart.py', [
+      'import os',
+      '',
+      'class Cart:',
+      '    """A cart."""',
+      '',
+      '    @staticmethod',
+      '    def add(item):',
+      '        return item',
+      '',
+      'def total():',
+      '    pass'
+    ]);
+
+    const cart = result.classes!.find(c => c.name === 'Cart')!;
+    expect(cart.location).toEqual({ ...range(3, 1, 8, 20), name: range(3, 7, 3, 11) });
+    expect(cart.methods.find(m => m.name === 'add')!.location).toEqual({ ...range(6, 5, 8, 20), name: range(7, 9, 7, 12) });
+    expect(result.functions!.find(f => f.name === 'total')!.location).toEqual({ ...range(10, 1, 11, 9), name: range(10, 5, 10, 10) });
+  });
+});
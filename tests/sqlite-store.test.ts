@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteSymbolStore, getDatabasePath } from '../src/registry/stores/sqlite';
+import { SymbolInfo, SymbolType } from '../src/registry/symbolRegistry';
+import { REGISTRY_SCHEMA_VERSION } from '../src/registry/migrations';
+
+describe('SqliteSymbolStore', () => {
+  let dir: string;
+  let store: SqliteSymbolStore;
+
+  const symbol = (name: string, file = '/project/a.ts', extra: Partial<SymbolInfo> = {}): SymbolInfo => ({
+    symbol: name,
+    type: SymbolType.FUNCTION,
+    file,
+    ...extra
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'));
+    store = SqliteSymbolStore.open(dir).store as SqliteSymbolStore;
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges symbols with the same identity and keeps registration order', () => {
+    store.upsertSymbol(symbol('first'));
+    store.upsertSymbol(symbol('second'));
+    store.upsertSymbol(symbol('first', '/project/a.ts', { description: 'updated' }));
+
+    expect(store.getAllSymbols().map(s => [s.symbol, s.description])).toEqual([
+      ['first', 'updated'],
+      ['second', undefined]
+    ]);
+  });
+
+  it('finds symbols by substring, description, type and privacy', () => {
+    store.upsertSymbol(symbol('createUser', '/project/a.ts', { description: 'Adds an account' }));
+    store.upsertSymbol(symbol('_hidden'));
+    store.upsertSymbol(symbol('User', '/project/b.ts', { type: SymbolType.CLASS }));
+
+    const find = (term: string, extra = {}) =>
+      store.findSymbols({ term, exactMatch: false, includePrivate: false, ...extra }).map(s => s.symbol);
+
+    expect(find('user')).toEqual(['createUser', 'User']);
+    expect(find('us')).toEqual(['createUser', 'User']);
+    expect(find('account', { matchDescription: true })).toEqual(['createUser']);
+    expect(find('user', { type: SymbolType.CLASS })).toEqual(['User']);
+    expect(find('hid')).toEqual([]);
+    expect(find('hid', { includePrivate: true })).toEqual(['_hidden']);
+    expect(store.findSymbols({ term: 'User', exactMatch: true, includePrivate: false }).map(s => s.file)).toEqual(['/project/b.ts']);
+  });
+
+  it('rolls back a replacement that fails part-way', () => {
+    store.upsertSymbol(symbol('kept'));
+
+    expect(() => store.replaceFileSymbols('/project/a.ts', [symbol('added'), null as unknown as SymbolInfo])).toThrow();
+    expect(store.getAllSymbols().map(s => s.symbol)).toEqual(['kept']);
+  });
+
+  it('rolls back a failed replacement without losing the rest of the open batch', () => {
+    store.beginBatch();
+    store.upsertSymbol(symbol('other', '/project/b.ts'));
+    expect(() => store.replaceFileSymbols('/project/a.ts', [symbol('added'), null as unknown as SymbolInfo])).toThrow();
+    store.endBatch();
+
+    expect(store.getAllSymbols().map(s => s.symbol)).toEqual(['other']);
+  });
+
+  it('commits batches once the outermost batch ends', () => {
+    const reader = new Database(getDatabasePath(dir), { readonly: true });
+    const count = () => (reader.prepare('SELECT count(*) AS count FROM symbols').get() as { count: number }).count;
+
+    store.beginBatch();
+    store.beginBatch();
+    store.upsertSymbol(symbol('a'));
+    store.endBatch();
+    expect(count()).toBe(0);
+    store.endBatch();
+    expect(count()).toBe(1);
+
+    reader.close();
+  });
+
+  it('persists files and metadata across reopening', () => {
+    store.setFile({ path: '/project/a.ts', lastParsed: 1, lastModified: 2, size: 3, hash: 'abc', package: '', exists: true });
+    store.setMetadata('key', 'value');
+    store.close();
+
+    store = SqliteSymbolStore.open(dir).store as SqliteSymbolStore;
+    expect(store.getFile('/project/a.ts')?.hash).toBe('abc');
+    expect(store.getMetadata('key')).toBe('value');
+  });
+
+  it('migrates databases from before schema versioning', () => {
+    store.upsertSymbol(symbol('valid'));
+    store.upsertSymbol({ symbol: 'removed', type: 'enum' as SymbolType, file: '/project/a.ts' });
+    store.setFile({ path: '/project/a.ts', lastParsed: 5 } as never);
+    store.close();
+
+    const db = new Database(getDatabasePath(dir));
+    db.pragma('user_version = 0');
+    db.close();
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    store = SqliteSymbolStore.open(dir).store as SqliteSymbolStore;
+    jest.restoreAllMocks();
+
+    expect(store.getAllSymbols().map(s => s.symbol)).toEqual(['valid']);
+    expect(store.getFile('/project/a.ts')).toMatchObject({ lastParsed: 0, size: -1, hash: '', package: '' });
+    const reader = new Database(getDatabasePath(dir), { readonly: true });
+    expect(reader.pragma('user_version', { simple: true })).toBe(REGISTRY_SCHEMA_VERSION);
+    reader.close();
+  });
+
+  it('quarantines an unreadable database and reports it as recovered', () => {
+    store.close();
+    fs.writeFileSync(getDatabasePath(dir), 'not a database');
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const opened = SqliteSymbolStore.open(dir);
+    jest.restoreAllMocks();
+    store = opened.store as SqliteSymbolStore;
+
+    expect(opened.recovered).toBe(true);
+    expect(fs.readdirSync(dir).some(name => name.includes('.corrupt-'))).toBe(true);
+    expect(store.getSymbolCount()).toBe(0);
+  });
+});
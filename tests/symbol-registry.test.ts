@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Workspace } from '../src/registry/workspace';
+import { readParsedContent } from '../src/parsers/fileContent';
+import { registerParsers } from '../src/parsers/register';
+import { getRegistryFilePath } from '../src/registry/stores/json';
+
+describe('SymbolRegistry change detection', () => {
+  let root: string;
+  let workspace: Workspace;
+  let filePath: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-registry-'));
+    filePath = path.join(root, 'a.ts');
+    fs.writeFileSync(filePath, 'export function a() {}\n');
+    workspace = new Workspace(root, 'option');
+  });
+
+  afterEach(() => {
+    workspace.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const functionDoc = (name: string) => ({
+    filePath,
+    functions: [{ name, params: [], exported: true }]
+  });
+
+  it('does not re-parse a file whose parsed content is unchanged', () => {
+    workspace.registry.registerFileSymbols(functionDoc('a'), readParsedContent(filePath));
+
+    expect(workspace.registry.fileNeedsRefresh(filePath)).toBe(false);
+  });
+
+  it('re-parses a file edited while it was being parsed', () => {
+    // The parser was handed the old content; the edit lands before the symbols are registered
+    const parsedContent = readParsedContent(filePath);
+    fs.writeFileSync(filePath, 'export function b() {}\n');
+    workspace.registry.registerFileSymbols(functionDoc('a'), parsedContent);
+
+    expect(workspace.registry.fileNeedsRefresh(filePath)).toBe(true);
+  });
+
+  it('does not re-parse a file that was only touched', () => {
+    workspace.registry.registerFileSymbols(functionDoc('a'), readParsedContent(filePath));
+    const future = new Date(Date.now() + 60000);
+    fs.utimesSync(filePath, future, future);
+
+    expect(workspace.registry.fileNeedsRefresh(filePath)).toBe(false);
+  });
+
+  it('tags symbols with ids and qualified names relative to the root', () => {
+    workspace.registry.registerFileSymbols(functionDoc('a'), readParsedContent(filePath));
+
+    const [symbol] = workspace.registry.getFileSymbols(filePath);
+    expect(symbol.qualifiedName).toBe('a.ts#a');
+    expect(symbol.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(workspace.registry.resolveSymbol(symbol.id!)).toEqual([symbol]);
+  });
+
+  it('re-parses every file when the recorded parser versions are corrupt', () => {
+    registerParsers();
+    workspace.registry.registerFileSymbols(functionDoc('a'), readParsedContent(filePath));
+    workspace.close();
+
+    const registryPath = getRegistryFilePath(root, false);
+    const state = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+    state.metadata = { ...state.metadata, parserVersions: '{"typescript":' };
+    fs.writeFileSync(registryPath, JSON.stringify(state));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    workspace = new Workspace(root, 'option');
+    try {
+      expect(workspace.registry.fileNeedsRefresh(filePath)).toBe(true);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
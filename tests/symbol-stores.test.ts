@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../src/config/mcpConfig';
+import { SymbolFilter, SymbolStore } from '../src/registry/stores';
+import { JsonSymbolStore } from '../src/registry/stores/json';
+import { SqliteSymbolStore } from '../src/registry/stores/sqlite';
+import { SymbolInfo, SymbolType } from '../src/registry/symbolRegistry';
+
+describe('findSymbols in the JSON and SQLite stores', () => {
+  let dir: string;
+  let stores: { json: SymbolStore; sqlite: SymbolStore };
+
+  const symbol = (name: string, file: string, extra: Partial<SymbolInfo> = {}): SymbolInfo => ({
+    symbol: name,
+    type: SymbolType.FUNCTION,
+    file,
+    ...extra
+  });
+
+  // Registered out of alphabetical order, so results in registration order differ from sorted ones
+  const symbols: SymbolInfo[] = [
+    symbol('saveUser', '/project/src/users.ts', { description: 'Stores an account' }),
+    symbol('User', '/project/src/users.ts', { type: SymbolType.CLASS, description: 'A registered user' }),
+    symbol('_userCache', '/project/src/users.ts'),
+    symbol('getName', '/project/src/users.ts', { type: SymbolType.METHOD, parentSymbol: 'User', metadata: { visibility: 'private' } }),
+    symbol('Order', '/project/src/orders.ts', { type: SymbolType.CLASS, description: 'Placed by a User' }),
+    symbol('us', '/project/lib/short.ts', { description: 'Two-letter name' }),
+    symbol('userId', '/project/lib/short.ts', { type: SymbolType.VARIABLE }),
+    symbol('ÜberSave', '/project/lib/unicode.ts')
+  ];
+
+  const find = (store: SymbolStore, filter: Partial<SymbolFilter>) =>
+    store.findSymbols({ term: '', exactMatch: false, includePrivate: false, ...filter }).map(s => `${s.file}:${s.symbol}`);
+
+  // Both stores must return the expected names, listed in registration order
+  const expectSameResults = (filter: Partial<SymbolFilter>, expected: string[]) => {
+    const json = find(stores.json, filter);
+
+    expect(json.map(key => key.substring(key.lastIndexOf(':') + 1))).toEqual(expected);
+    expect(find(stores.sqlite, filter)).toEqual(json);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-stores-'));
+    stores = {
+      json: JsonSymbolStore.open(dir, new ConfigManager(dir)).store,
+      sqlite: SqliteSymbolStore.open(dir).store
+    };
+    for (const store of Object.values(stores)) {
+      symbols.forEach(s => store.upsertSymbol(s));
+      // Updating a symbol keeps its place in registration order
+      store.upsertSymbol({ ...symbols[0], signature: '(user: User): void' });
+    }
+  });
+
+  afterEach(() => {
+    Object.values(stores).forEach(store => store.close());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches terms shorter than three characters (instr in SQLite)', () => {
+    expectSameResults({ term: 'u' }, ['saveUser', 'User', 'us', 'userId']);
+    expectSameResults({ term: 'US' }, ['saveUser', 'User', 'us', 'userId']);
+    expectSameResults({ term: 'us', includePrivate: true }, ['saveUser', 'User', '_userCache', 'us', 'userId']);
+    expectSameResults({ term: 'üb' }, ['ÜberSave']);
+  });
+
+  it('matches terms of three characters or more (the trigram index in SQLite)', () => {
+    expectSameResults({ term: 'user' }, ['saveUser', 'User', 'userId']);
+    expectSameResults({ term: 'SAVE' }, ['saveUser', 'ÜberSave']);
+    expectSameResults({ term: 'user', includePrivate: true }, ['saveUser', 'User', '_userCache', 'userId']);
+    expectSameResults({ term: 'name', includePrivate: true }, ['getName']);
+    expectSameResults({ term: 'user"' }, []);
+  });
+
+  it('matches descriptions for short and long terms', () => {
+    expectSameResults({ term: 'account', matchDescription: true }, ['saveUser']);
+    expectSameResults({ term: 'user', matchDescription: true }, ['saveUser', 'User', 'Order', 'userId']);
+    expectSameResults({ term: 'tw', matchDescription: true }, ['us']);
+  });
+
+  it('combines the term with exact matching and the type and file filters', () => {
+    expectSameResults({ term: 'User', exactMatch: true }, ['User']);
+    expectSameResults({ term: 'user', exactMatch: true }, []);
+    expectSameResults({ term: 'us', type: SymbolType.CLASS }, ['User']);
+    expectSameResults({ term: 'user', file: 'lib/' }, ['userId']);
+    expectSameResults({ term: '', type: SymbolType.CLASS }, ['User', 'Order']);
+  });
+});
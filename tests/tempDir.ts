@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A temporary directory for tests that work on files
+ */
+export interface TempDir {
+  /** Real path of the directory, as the server resolves it */
+  root: string;
+  /**
+   * Write a file in the directory, creating its parent directories. Each write gets a later
+   * modification time, so the change is noticed even within one clock tick.
+   * @param file Path relative to the directory
+   * @param content Text of the file, or a value written as JSON
+   * @returns Absolute path of the file
+   */
+  write(file: string, content: unknown): string;
+  /** Delete the directory and everything in it */
+  remove(): void;
+}
+
+/**
+ * Create a temporary directory
+ * @param prefix Start of the directory name
+ */
+export function createTempDir(prefix: string): TempDir {
+  const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), prefix)));
+  let writes = 0;
+
+  return {
+    root,
+    write(file, content) {
+      const filePath = path.join(root, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+      const mtime = new Date(Date.now() + ++writes * 1000);
+      fs.utimesSync(filePath, mtime, mtime);
+      return filePath;
+    },
+    remove() {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  };
+}
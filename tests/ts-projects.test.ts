@@ -0,0 +1,91 @@
+import * as path from 'path';
+import { TsProjectCache, getTypeText } from '../src/parsers/tsProjects';
+import { TypeScriptParser } from '../src/parsers/typescript';
+import { JavaScriptParser } from '../src/parsers/javascript';
+import { FileDocResponse } from '../src/types';
+import { createTempDir, TempDir } from './tempDir';
+
+describe('TsProjectCache', () => {
+  let dir: TempDir;
+  let root: string;
+  let cache: TsProjectCache;
+
+  // Type of a function's first parameter, as written at the parameter
+  const parameterType = (filePath: string, functionName: string): string => {
+    const parameter = cache.getSourceFile(filePath).getFunctionOrThrow(functionName).getParameters()[0];
+    return getTypeText(parameter.getType(), parameter);
+  };
+
+  const returnType = (result: unknown, functionName: string): string | undefined =>
+    (result as FileDocResponse).functions!.find(f => f.name === functionName)!.returnType;
+
+  beforeEach(() => {
+    dir = createTempDir('ts-projects-');
+    root = dir.root;
+    cache = new TsProjectCache();
+
+    // An application using a paths alias and a referenced project that has not been built
+    dir.write('tsconfig.json', {
+      compilerOptions: { strict: true, baseUrl: '.', paths: { '@models/*': ['src/models/*'] } },
+      references: [{ path: './packages/shared' }]
+    });
+    dir.write('packages/shared/tsconfig.json', {
+      compilerOptions: { composite: true, strict: true, rootDir: 'src', outDir: 'dist' }
+    });
+    dir.write('packages/shared/src/money.ts', 'export interface Money { cents: number }\n');
+    dir.write('src/models/user.ts', 'export interface User { id: number; name: string }\n');
+    dir.write('src/service.ts', [
+      "import { User } from '@models/user';",
+      "import { Money } from '../packages/shared/dist/money';",
+      'export function names(users: User[]) { return users.map(user => user.name); }',
+      'export function total(prices: Money[]) { return prices[0]; }',
+      'export function idOf(user: User) { return user.id; }',
+      ''
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    dir.remove();
+  });
+
+  it('resolves imports through the paths of the tsconfig.json', () => {
+    const service = path.join(root, 'src/service.ts');
+
+    expect(parameterType(service, 'names')).toBe('User[]');
+    expect(parameterType(service, 'idOf')).toBe('User');
+  });
+
+  it('resolves imports of referenced projects to their sources', () => {
+    const service = path.join(root, 'src/service.ts');
+
+    expect(parameterType(service, 'total')).toBe('Money[]');
+  });
+
+  it('re-reads an imported file that changed since the last parse', () => {
+    const service = path.join(root, 'src/service.ts');
+    const idType = () => {
+      const func = cache.getSourceFile(service).getFunctionOrThrow('idOf');
+      return getTypeText(func.getReturnType(), func);
+    };
+    expect(idType()).toBe('number');
+
+    dir.write('src/models/user.ts', 'export interface User { id: string; name: string }\n');
+
+    expect(idType()).toBe('string');
+  });
+
+  it('parses TypeScript files with the types of the project', async () => {
+    const result = await new TypeScriptParser().parseFile(path.join(root, 'src/service.ts'));
+
+    expect(returnType(result, 'names')).toBe('string[]');
+    expect(returnType(result, 'total')).toBe('Money');
+  });
+
+  it('parses JavaScript files with the paths of the jsconfig.json', async () => {
+    dir.write('web/jsconfig.json', { compilerOptions: { checkJs: true, baseUrl: '.', paths: { '@lib/*': ['lib/*'] } } });
+    dir.write('web/lib/format.js', '/**\n * @param {number} n\n * @returns {string}\n */\nexport function format(n) { return String(n); }\n');
+    const app = dir.write('web/app.js', "import { format } from '@lib/format';\nexport function label(n) { return format(n); }\n");
+
+    expect(returnType(await new JavaScriptParser().parseFile(app), 'label')).toBe('string');
+  });
+});
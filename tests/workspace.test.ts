@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RegistryLock } from '../src/registry/registryLock';
+import { WorkspaceManager } from '../src/registry/workspace';
+import { refreshRegistry } from '../src/tools/refreshRegistry';
+
+describe('WorkspaceManager', () => {
+  let root: string;
+  let manager: WorkspaceManager;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-')));
+    manager = new WorkspaceManager();
+  });
+
+  afterEach(() => {
+    manager.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      const { registry } = manager.add(root, 'option');
+      for (const [file, className] of [['foo.ts', 'Foo'], ['bar.ts', 'Bar']]) {
+        registry.registerFileSymbols({
+          filePath: path.join(root, file),
+          classes: [{
+            name: className,
+            exported: true,
+            methods: [{ name: 'save', params: [] }],
+            properties: []
+          }]
+        });
+      }
+    });
+
+    it('returns the one symbol a reference names', () => {
+      const resolution = manager.resolve({ query: 'Foo.save' });
+
+      expect(resolution).toMatchObject({ symbol: { symbol: 'save', parentSymbol: 'Foo', root } });
+    });
+
+    it('lists the candidates of an ambiguous name instead of picking one', () => {
+      const resolution = manager.resolve({ query: 'save' });
+
+      expect('error' in resolution && resolution.error).toMatch(/ambiguous: 2 symbols match/);
+      expect('candidates' in resolution && resolution.candidates!.map(c => c.qualifiedName)).toEqual([
+        'foo.ts#Foo.save',
+        'bar.ts#Bar.save'
+      ]);
+    });
+
+    it('resolves a candidate by its id', () => {
+      const resolution = manager.resolve({ query: 'save' });
+      const [, bar] = 'candidates' in resolution ? resolution.candidates! : [];
+
+      expect(manager.resolve({ query: bar.id! })).toMatchObject({ symbol: { qualifiedName: 'bar.ts#Bar.save' } });
+    });
+
+    it('narrows an ambiguous name with the filters', () => {
+      expect(manager.resolve({ query: 'save', file: 'bar.ts' })).toMatchObject({ symbol: { parentSymbol: 'Bar' } });
+    });
+
+    it('reports a name nothing matches', () => {
+      expect(manager.resolve({ query: 'load' })).toEqual({ error: "Symbol 'load' not found" });
+    });
+  });
+
+  describe('client roots', () => {
+    let other: string;
+
+    beforeEach(() => {
+      other = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-other-')));
+    });
+
+    afterEach(() => {
+      fs.rmSync(other, { recursive: true, force: true });
+    });
+
+    const roots = () => manager.getAll().map(workspace => workspace.root);
+
+    it('keeps the roots of every client', () => {
+      const first = {};
+      const second = {};
+      manager.setClientRoots(first, [root]);
+      manager.setClientRoots(second, [other]);
+
+      expect(roots()).toEqual([root, other]);
+    });
+
+    it('only drops the roots no other client announced when the roots of a client change', () => {
+      const first = {};
+      const second = {};
+      manager.setClientRoots(first, [root, other]);
+      manager.setClientRoots(second, [root]);
+      manager.setClientRoots(first, []);
+
+      expect(roots()).toEqual([root]);
+    });
+
+    it('drops the roots of a client that went away', () => {
+      const first = {};
+      const second = {};
+      manager.setClientRoots(first, [root]);
+      manager.setClientRoots(second, [other]);
+      manager.releaseClientRoots(second);
+
+      expect(roots()).toEqual([root]);
+    });
+
+    it('keeps explicit roots and reports roots that are not directories', () => {
+      manager.add(other, 'option');
+      const errors = manager.setClientRoots({}, [root, path.join(root, 'missing')]);
+
+      expect(roots()).toEqual([other, root]);
+      expect(errors).toEqual([`Workspace root ${path.join(root, 'missing')} is not a directory`]);
+    });
+
+    it('closes a dropped root once the refresh in progress on it has ended', async () => {
+      fs.writeFileSync(path.join(root, 'mcpconfig.json'), JSON.stringify({ parsing: { workers: 0 } }));
+      fs.writeFileSync(path.join(root, 'a.ts'), 'export function a(): void {}\n');
+      fs.writeFileSync(path.join(root, 'b.ts'), 'export function b(): void {}\n');
+      const client = {};
+      manager.setClientRoots(client, [root]);
+      const [workspace] = manager.getAll();
+
+      // The root is dropped as soon as the refresh reports progress, while it is still parsing
+      let dropped = false;
+      const result = await refreshRegistry({ fullScan: true }, {
+        workspace,
+        reportProgress: () => {
+          if (!dropped) {
+            dropped = true;
+            manager.setClientRoots(client, []);
+          }
+        }
+      });
+
+      expect(dropped).toBe(true);
+      expect(result).toMatchObject({ refreshed: true, filesProcessed: 2 });
+      expect(() => workspace.registry.getAllSymbols()).toThrow('Symbol registry is closed');
+      // The lease was given up rather than taken again, so another process may write the registry
+      const lock = new RegistryLock(workspace.getRegistryDir());
+      expect(lock.tryAcquire()).toBe(true);
+      lock.release();
+    });
+  });
+});